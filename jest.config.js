@@ -7,6 +7,10 @@ module.exports = {
       tsconfig: 'tsconfig.json'
     }]
   },
+  moduleNameMapper: {
+    '^obsidian$': '<rootDir>/tests/__mocks__/obsidian.ts'
+  },
+  setupFiles: ['<rootDir>/tests/setup.ts'],
   moduleFileExtensions: ['ts', 'tsx', 'js', 'jsx', 'json', 'node'],
   testRegex: '(/__tests__/.*|(\\.|/)(test|spec))\\.(jsx?|tsx?)$',
   coverageDirectory: 'coverage',
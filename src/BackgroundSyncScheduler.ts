@@ -0,0 +1,564 @@
+import { Notice, TFile } from "obsidian";
+import {
+    Task,
+    TodoistApi,
+    UpdateTaskArgs,
+} from "@doist/todoist-api-typescript";
+import TodoistContextBridgePlugin from "./main";
+import { LinkedTaskLine, TextParsing } from "./TextParsing";
+import {
+    ConflictSide,
+    TaskConflictResolver,
+    TaskSnapshot,
+    createObsidianSnapshot,
+    createSyncedSnapshot,
+    createTodoistSnapshot,
+    findConflicts,
+    findUnsyncedDifferences,
+    mergeTaskSnapshots,
+} from "./TaskConflictResolver";
+import { TodoistLinkEntry } from "./TodoistLinkIndex";
+import { TODOIST_CONSTANTS } from "./constants";
+import {
+    getNextOccurrenceFields,
+    resolveCompletionAction,
+} from "./CompletionStatusSync";
+import { DateProcessing } from "./DateProcessing";
+import { CheckboxStatusSync } from "./CheckboxStatus";
+
+const MIN_INTERVAL_MINUTES = 1;
+
+interface LinkedTaskLocation extends LinkedTaskLine {
+    file: TFile;
+    lineText: string;
+}
+
+export interface ReconciliationResult {
+    checked: number;
+    updated: number;
+    /** Tasks left untouched because of unresolved conflicts */
+    skipped: number;
+    failed: number;
+    /** Titles of recurring tasks whose due date edited in Obsidian was reset to Todoist's */
+    resetDueDates: string[];
+}
+
+/**
+ * Periodically reconciles every linked task in the vault with Todoist,
+ * without requiring an open editor
+ */
+export class BackgroundSyncScheduler {
+    private statusBarItem: HTMLElement | null = null;
+    private intervalId: number | null = null;
+    private isRunning = false;
+    private lastSyncTime: string | null = null;
+    private lastRunFailed = false;
+    private TextParsing: TextParsing;
+    private conflictResolver: TaskConflictResolver;
+    private checkboxStatusSync: CheckboxStatusSync;
+
+    constructor(private plugin: TodoistContextBridgePlugin) {
+        this.TextParsing = new TextParsing(plugin.settings);
+        this.checkboxStatusSync = new CheckboxStatusSync(plugin);
+        this.conflictResolver = new TaskConflictResolver(
+            plugin.app,
+            plugin.settings,
+        );
+    }
+
+    /**
+     * Registers the status bar indicator, the startup and file-open triggers and the periodic timer
+     */
+    start() {
+        this.statusBarItem = this.plugin.addStatusBarItem();
+        this.statusBarItem.addClass("mod-clickable");
+        this.statusBarItem.setAttr(
+            "aria-label",
+            "Click to pause or resume background sync",
+        );
+        this.statusBarItem.addEventListener("click", () => {
+            this.togglePause();
+        });
+
+        this.plugin.registerEvent(
+            this.plugin.app.workspace.on("file-open", (file) => {
+                if (
+                    file &&
+                    file.extension === "md" &&
+                    this.plugin.settings.backgroundSyncOnFileOpen &&
+                    this.isActive()
+                ) {
+                    this.reconcileFiles([file]);
+                }
+            }),
+        );
+
+        this.plugin.app.workspace.onLayoutReady(() => {
+            if (
+                this.plugin.settings.backgroundSyncOnStartup &&
+                this.isActive()
+            ) {
+                this.reconcileVault();
+            }
+        });
+
+        this.restart();
+    }
+
+    /**
+     * Reschedules the periodic timer, e.g. after the interval setting changed
+     */
+    restart() {
+        if (this.intervalId !== null) {
+            window.clearInterval(this.intervalId);
+            this.intervalId = null;
+        }
+
+        if (this.plugin.settings.enableBackgroundSync) {
+            const minutes = Math.max(
+                MIN_INTERVAL_MINUTES,
+                this.plugin.settings.backgroundSyncInterval,
+            );
+            this.intervalId = this.plugin.registerInterval(
+                window.setInterval(
+                    () => {
+                        if (this.isActive()) {
+                            this.reconcileVault();
+                        }
+                    },
+                    minutes * 60 * 1000,
+                ),
+            );
+        }
+
+        this.updateStatusBar();
+    }
+
+    /**
+     * Pauses or resumes background reconciliation
+     */
+    async togglePause() {
+        this.plugin.settings.backgroundSyncPaused =
+            !this.plugin.settings.backgroundSyncPaused;
+        await this.plugin.saveSettings();
+        new Notice(
+            this.plugin.settings.backgroundSyncPaused
+                ? "Background sync paused"
+                : "Background sync resumed",
+        );
+    }
+
+    /**
+     * Reconciles every linked task in the vault
+     */
+    async reconcileVault(): Promise<ReconciliationResult | null> {
+        return this.reconcileFiles(this.plugin.app.vault.getMarkdownFiles());
+    }
+
+    /**
+     * Reconciles the linked tasks of the given files with Todoist
+     * @param files Markdown files to scan for linked tasks
+     * @returns Counts of checked, updated and failed tasks, or null if a run is already in progress
+     */
+    async reconcileFiles(files: TFile[]): Promise<ReconciliationResult | null> {
+        const api = this.plugin.todoistApi;
+        if (!api || this.isRunning) {
+            return null;
+        }
+
+        this.isRunning = true;
+        this.updateStatusBar();
+
+        const result: ReconciliationResult = {
+            checked: 0,
+            updated: 0,
+            skipped: 0,
+            failed: 0,
+            resetDueDates: [],
+        };
+
+        try {
+            const locations = await this.collectLinkedTasks(files);
+            const taskIds = Array.from(
+                new Set(locations.map((location) => location.taskId)),
+            );
+            const tasks = await this.plugin.fetchTasksById(taskIds);
+
+            // Group the linked tasks by file so that each file is written once
+            const locationsByFile = new Map<TFile, LinkedTaskLocation[]>();
+            for (const location of locations) {
+                const fileLocations = locationsByFile.get(location.file) ?? [];
+                fileLocations.push(location);
+                locationsByFile.set(location.file, fileLocations);
+            }
+
+            for (const [file, fileLocations] of locationsByFile) {
+                await this.reconcileFile(
+                    api,
+                    file,
+                    fileLocations,
+                    tasks,
+                    result,
+                );
+            }
+            await this.plugin.linkIndex.save();
+
+            if (result.resetDueDates.length > 0) {
+                new Notice(
+                    `Due dates of recurring tasks are managed in Todoist. Reset to the next occurrence:\n${result.resetDueDates.join("\n")}`,
+                );
+            }
+
+            this.lastSyncTime = window.moment().format("HH:mm");
+            this.lastRunFailed = result.failed > 0;
+        } catch (error) {
+            console.error("Background sync failed:", error);
+            this.lastRunFailed = true;
+            result.failed++;
+        } finally {
+            this.isRunning = false;
+            this.updateStatusBar();
+        }
+
+        return result;
+    }
+
+    private isActive(): boolean {
+        return (
+            this.plugin.settings.enableBackgroundSync &&
+            !this.plugin.settings.backgroundSyncPaused &&
+            !!this.plugin.todoistApi
+        );
+    }
+
+    private async collectLinkedTasks(
+        files: TFile[],
+    ): Promise<LinkedTaskLocation[]> {
+        const locations: LinkedTaskLocation[] = [];
+
+        for (const file of files) {
+            const content = await this.plugin.app.vault.cachedRead(file);
+            if (!TODOIST_CONSTANTS.LINK_PATTERN.test(content)) continue;
+
+            const lines = content.split("\n");
+            for (const linkedTask of this.TextParsing.getLinkedTaskLines(
+                lines,
+            )) {
+                locations.push({
+                    ...linkedTask,
+                    file,
+                    lineText: lines[linkedTask.line],
+                });
+            }
+        }
+
+        return locations;
+    }
+
+    private async reconcileFile(
+        api: TodoistApi,
+        file: TFile,
+        locations: LinkedTaskLocation[],
+        tasks: Map<string, Task>,
+        result: ReconciliationResult,
+    ) {
+        const lineUpdates = new Map<
+            number,
+            { original: string; updated: string }
+        >();
+
+        for (const location of locations) {
+            const task = tasks.get(location.taskId);
+            if (!task) continue;
+
+            // Statuses mapped to deletion count as "other": deleting a task needs the
+            // confirmation of 'Update linked Todoist task', so it never runs unattended
+            const status = this.TextParsing.getTaskStatus(location.lineText);
+            if (status === "other") continue;
+
+            result.checked++;
+
+            try {
+                const obsidian = createObsidianSnapshot(
+                    this.TextParsing.extractTaskDetails(
+                        location.lineText,
+                        false,
+                        file.path,
+                    ),
+                    status === "completed",
+                );
+                const todoist = createTodoistSnapshot(
+                    task,
+                    this.plugin.settings.checkboxStatusMappings,
+                );
+                const entry = this.plugin.linkIndex.findByTaskId(
+                    location.taskId,
+                );
+                const base = entry?.snapshot ?? {};
+
+                // Fields edited on both sides since the last sync follow the conflict
+                // policy, as do differing fields that were never synced
+                let conflictWinner: ConflictSide = "todoist";
+                const conflicts = [
+                    ...findConflicts(base, obsidian, todoist),
+                    ...findUnsyncedDifferences(base, obsidian, todoist, [
+                        "content",
+                        "dueDate",
+                        "priority",
+                    ]),
+                ];
+                if (conflicts.length > 0) {
+                    const winner = await this.conflictResolver.resolve(
+                        conflicts,
+                        obsidian.content,
+                        file.stat.mtime,
+                        task.updatedAt,
+                        false,
+                    );
+                    if (!winner) {
+                        // Remember the agreed fields, so later runs only ask about the others
+                        await this.recordSnapshot(
+                            file,
+                            location,
+                            task,
+                            entry,
+                            createSyncedSnapshot(
+                                entry?.snapshot,
+                                obsidian,
+                                todoist,
+                            ),
+                        );
+                        result.skipped++;
+                        continue;
+                    }
+                    conflictWinner = winner;
+                }
+
+                // Without a synced value, completion follows its own source of truth,
+                // the checkbox status is kept and the other fields follow the conflict winner
+                const completionAction = resolveCompletionAction(
+                    this.plugin.settings.completionSyncSourceOfTruth,
+                    obsidian.checked,
+                    todoist.checked,
+                );
+                const merged = mergeTaskSnapshots(
+                    base,
+                    obsidian,
+                    todoist,
+                    conflictWinner,
+                    (field) => {
+                        if (field === "status") return "obsidian";
+                        if (field === "checked") {
+                            return completionAction === "close-todoist" ||
+                                completionAction === "reopen-todoist"
+                                ? "obsidian"
+                                : "todoist";
+                        }
+                        return conflictWinner;
+                    },
+                );
+
+                // Recurring due dates are managed in Todoist; overwriting them would
+                // drop the recurrence, so the line takes Todoist's next occurrence
+                if (
+                    task.due?.isRecurring &&
+                    merged.dueDate !== todoist.dueDate
+                ) {
+                    console.warn(
+                        `Due date ${merged.dueDate} of recurring Todoist task ${location.taskId} was not synced; it is managed in Todoist.`,
+                    );
+                    result.resetDueDates.push(obsidian.content);
+                    merged.dueDate = todoist.dueDate;
+                }
+
+                const updatedTask = await this.pushToTodoist(
+                    api,
+                    task,
+                    todoist,
+                    merged,
+                );
+
+                // A closed recurring task moved to its next occurrence, which the line follows
+                const nextOccurrence =
+                    merged.checked && !todoist.checked
+                        ? getNextOccurrenceFields(updatedTask)
+                        : null;
+                const agreed = { ...merged, ...nextOccurrence };
+
+                const pulledFields: Partial<TaskSnapshot> = {};
+                for (const field of Object.keys(agreed) as Array<
+                    keyof TaskSnapshot
+                >) {
+                    if (agreed[field] !== obsidian[field]) {
+                        Object.assign(pulledFields, { [field]: agreed[field] });
+                    }
+                }
+                const updatedLine = this.TextParsing.applyTaskFields(
+                    location.lineText,
+                    pulledFields,
+                );
+
+                if (updatedLine !== location.lineText) {
+                    lineUpdates.set(location.line, {
+                        original: location.lineText,
+                        updated: updatedLine,
+                    });
+                }
+
+                if (updatedTask !== task || updatedLine !== location.lineText) {
+                    result.updated++;
+                }
+
+                // Remember what both sides agree on for the next run
+                const snapshot = createSyncedSnapshot(
+                    entry?.snapshot,
+                    createObsidianSnapshot(
+                        this.TextParsing.extractTaskDetails(
+                            updatedLine,
+                            false,
+                            file.path,
+                        ),
+                        this.TextParsing.getTaskStatus(updatedLine) ===
+                            "completed",
+                    ),
+                    createTodoistSnapshot(
+                        updatedTask,
+                        this.plugin.settings.checkboxStatusMappings,
+                    ),
+                );
+                await this.recordSnapshot(
+                    file,
+                    location,
+                    updatedTask,
+                    entry,
+                    snapshot,
+                );
+            } catch (error) {
+                console.error(
+                    `Failed to reconcile Todoist task ${location.taskId} in ${file.path}:`,
+                    error,
+                );
+                result.failed++;
+            }
+        }
+
+        if (lineUpdates.size === 0) {
+            return;
+        }
+
+        await this.plugin.app.vault.process(file, (data) => {
+            const lines = data.split("\n");
+            for (const [lineNumber, update] of lineUpdates) {
+                // Skip lines that were edited since the file was scanned
+                if (lines[lineNumber] === update.original) {
+                    lines[lineNumber] = update.updated;
+                }
+            }
+            return lines.join("\n");
+        });
+    }
+
+    /**
+     * Stores the fields both sides agree on as the link's snapshot, adding the link
+     * to the index if it is missing
+     */
+    private async recordSnapshot(
+        file: TFile,
+        location: LinkedTaskLocation,
+        task: Task,
+        entry: TodoistLinkEntry | null,
+        snapshot: Partial<TaskSnapshot>,
+    ) {
+        if (entry) {
+            await this.plugin.linkIndex.recordSync(
+                location.taskId,
+                snapshot,
+                false,
+            );
+            return;
+        }
+        await this.plugin.linkIndex.upsert(
+            {
+                taskId: location.taskId,
+                filePath: file.path,
+                noteUid:
+                    this.plugin.app.metadataCache.getFileCache(file)
+                        ?.frontmatter?.[this.plugin.settings.uidField] ?? null,
+                blockId: this.TextParsing.extractBlockId(location.lineText),
+                projectId: task.projectId,
+                snapshot,
+            },
+            false,
+        );
+    }
+
+    /**
+     * Updates the Todoist task to match the merged fields
+     * @returns The updated task, or the original task if nothing changed
+     */
+    private async pushToTodoist(
+        api: TodoistApi,
+        task: Task,
+        todoist: TaskSnapshot,
+        merged: TaskSnapshot,
+    ): Promise<Task> {
+        const updateArgs: UpdateTaskArgs = {};
+        if (merged.content !== todoist.content) {
+            updateArgs.content = merged.content;
+        }
+        if (merged.dueDate !== todoist.dueDate) {
+            Object.assign(
+                updateArgs,
+                DateProcessing.toTodoistDue(merged.dueDate),
+            );
+        }
+        if (merged.priority !== todoist.priority) {
+            // Convert UI priority (1=highest) to API priority (4=highest)
+            updateArgs.priority = 5 - merged.priority;
+        }
+
+        let updatedTask = task;
+        if (Object.keys(updateArgs).length > 0) {
+            updatedTask = await api.updateTask(task.id, updateArgs);
+        }
+        if (merged.status !== todoist.status) {
+            updatedTask = await this.checkboxStatusSync.applyToTodoist(
+                api,
+                updatedTask,
+                merged.status,
+            );
+        }
+
+        if (merged.checked !== todoist.checked) {
+            if (merged.checked) {
+                await api.closeTask(task.id);
+            } else {
+                await api.reopenTask(task.id);
+            }
+            // Recurring tasks move to their next occurrence instead of closing
+            updatedTask = await api.getTask(task.id);
+        }
+
+        return updatedTask;
+    }
+
+    private updateStatusBar() {
+        if (!this.statusBarItem) return;
+
+        this.statusBarItem.toggle(this.plugin.settings.enableBackgroundSync);
+
+        let text: string;
+        if (this.isRunning) {
+            text = "Todoist: syncing…";
+        } else if (this.plugin.settings.backgroundSyncPaused) {
+            text = "Todoist: paused";
+        } else if (this.lastRunFailed) {
+            text = "Todoist: sync error";
+        } else if (this.lastSyncTime) {
+            text = `Todoist: synced ${this.lastSyncTime}`;
+        } else {
+            text = "Todoist: idle";
+        }
+        this.statusBarItem.setText(text);
+    }
+}
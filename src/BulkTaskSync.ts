@@ -0,0 +1,516 @@
+import { App, Editor, Notice, TFile, TFolder } from "obsidian";
+import TodoistContextBridgePlugin from "./main";
+import { TodoistContextBridgeSettings } from "./Settings";
+import { TextParsing, TaskDetails } from "./TextParsing";
+import { TodoistTaskSync } from "./TodoistTaskSync";
+import { URILinkProcessing } from "./URILinkProcessing";
+import { TodoistV2IDs } from "./TodoistV2IDs";
+import { BulkTaskRow, BulkTaskToTodoistModal } from "./TodoistModal";
+import { DateProcessing } from "./DateProcessing";
+import { TODOIST_CONSTANTS } from "./constants";
+import { ProjectRuleEvaluator, ProjectRuleMatch } from "./ProjectRules";
+
+// Failures listed by name in the summary notice; the rest are only counted
+const MAX_LISTED_FAILURES = 5;
+
+/**
+ * A note the bulk sync reads task lines from and writes links back to
+ */
+interface BulkTaskSource {
+    file: TFile;
+    lines: string[];
+    usedBlockIds: Set<string>;
+    /**
+     * Writes the updated lines
+     * @returns The updates whose original line could no longer be found
+     */
+    apply: (updates: LineUpdate[]) => Promise<LineUpdate[]>;
+}
+
+interface BulkTaskCandidate extends BulkTaskRow {
+    source: BulkTaskSource;
+    line: number;
+    lineText: string;
+    taskDetails: TaskDetails;
+    /** The first matching project rule, whose section only applies in its project */
+    projectRule: ProjectRuleMatch | null;
+}
+
+interface LineUpdate {
+    line: number;
+    original: string;
+    updated: string;
+    /** Block ID the original line already had, to find the line after it was edited */
+    blockId: string | null;
+    /** Text appended to the line, to add it to an edited line */
+    appended: string;
+}
+
+interface BulkTaskFailure {
+    title: string;
+    reason: string;
+}
+
+/**
+ * Creates Todoist tasks for every open, unlinked task line in a selection, note or folder
+ */
+export class BulkTaskSync {
+    private TextParsing: TextParsing;
+    private projectRules: ProjectRuleEvaluator;
+
+    constructor(
+        private app: App,
+        private settings: TodoistContextBridgeSettings,
+        private plugin: TodoistContextBridgePlugin,
+        private TodoistTaskSync: TodoistTaskSync,
+        private URILinkProcessing: URILinkProcessing,
+        private todoistV2IDs: TodoistV2IDs,
+    ) {
+        this.TextParsing = new TextParsing(settings);
+        this.projectRules = new ProjectRuleEvaluator(app, settings, plugin);
+    }
+
+    /**
+     * Offers the open tasks of the active note for creation in Todoist
+     * @param editor The editor of the active note
+     * @param selectionOnly Whether to only include lines touched by the selection
+     */
+    async syncTasksInEditor(editor: Editor, selectionOnly: boolean) {
+        const file = this.app.workspace.getActiveFile();
+        if (!file) {
+            new Notice("No active file found");
+            return;
+        }
+
+        // The editor may show another note by the time the tasks are created
+        const source = this.createSource(
+            file,
+            editor.getValue().split("\n"),
+            (updates) =>
+                this.app.workspace.getActiveFile() === file
+                    ? this.applyToEditor(editor, updates)
+                    : this.applyToFile(file, updates),
+        );
+        const [from, to] = selectionOnly
+            ? [editor.getCursor("from").line, editor.getCursor("to").line]
+            : [0, source.lines.length - 1];
+
+        this.review(await this.collectCandidates(source, from, to));
+    }
+
+    /**
+     * Offers the open tasks of every note in a folder and its subfolders for creation in Todoist
+     */
+    async syncTasksInFolder(folder: TFolder) {
+        const files = this.app.vault
+            .getMarkdownFiles()
+            .filter(
+                (file) =>
+                    folder.isRoot() || file.path.startsWith(`${folder.path}/`),
+            );
+
+        const candidates: BulkTaskCandidate[] = [];
+        for (const file of files) {
+            const content = await this.app.vault.cachedRead(file);
+            const source = this.createSource(
+                file,
+                content.split("\n"),
+                (updates) => this.applyToFile(file, updates),
+            );
+            candidates.push(
+                ...(await this.collectCandidates(
+                    source,
+                    0,
+                    source.lines.length - 1,
+                )),
+            );
+        }
+
+        this.review(candidates);
+    }
+
+    private createSource(
+        file: TFile,
+        lines: string[],
+        apply: BulkTaskSource["apply"],
+    ): BulkTaskSource {
+        const usedBlockIds = new Set<string>();
+        lines.forEach((line) => {
+            const blockId = this.TextParsing.extractBlockId(line);
+            if (blockId) {
+                usedBlockIds.add(blockId);
+            }
+        });
+        return { file, lines, usedBlockIds, apply };
+    }
+
+    /**
+     * Lists the open task lines in a range that are not linked to Todoist yet
+     */
+    private async collectCandidates(
+        source: BulkTaskSource,
+        from: number,
+        to: number,
+    ): Promise<BulkTaskCandidate[]> {
+        const candidates: BulkTaskCandidate[] = [];
+        for (let line = from; line <= to; line++) {
+            const lineText = source.lines[line];
+            if (this.TextParsing.getTaskStatus(lineText) !== "open") continue;
+
+            // Skip tasks with a link below them or a block already in the link index
+            if (
+                this.TextParsing.findLinkedTodoistTaskId(
+                    (n) => source.lines[n],
+                    line,
+                )
+            ) {
+                continue;
+            }
+            const blockId = this.TextParsing.extractBlockId(lineText);
+            if (
+                blockId &&
+                this.plugin.linkIndex.findByBlock(
+                    source.file.path,
+                    blockId,
+                    this.app.metadataCache.getFileCache(source.file)
+                        ?.frontmatter?.[this.settings.uidField] ?? null,
+                )
+            ) {
+                continue;
+            }
+
+            const taskDetails = this.TextParsing.extractTaskDetails(
+                lineText,
+                false,
+                source.file.path,
+            );
+            if (!taskDetails.cleanText) continue;
+
+            // Apply the first matching project rule
+            const projectRule = await this.projectRules.findMatch(
+                source.file,
+                lineText,
+            );
+            if (projectRule) {
+                taskDetails.labels.push(...projectRule.labels);
+            }
+
+            // A checkbox status mapped to a project overrides the rules
+            const statusMapping = this.TextParsing.getStatusMapping(lineText);
+            const statusProjectId =
+                statusMapping?.action === "project" ? statusMapping.value : "";
+
+            candidates.push({
+                source,
+                line,
+                lineText,
+                taskDetails,
+                projectRule,
+                title: taskDetails.cleanText,
+                location: `${source.file.path}:${line + 1}`,
+                dueDate:
+                    taskDetails.dueDate ||
+                    (this.settings.setTodayAsDefaultDueDate
+                        ? DateProcessing.getTodayFormatted()
+                        : ""),
+                priority:
+                    taskDetails.priority?.toString() ||
+                    this.settings.todoistDefaultPriority.toString(),
+                projectId:
+                    statusProjectId ||
+                    projectRule?.projectId ||
+                    this.settings.todoistDefaultProject,
+                include: true,
+            });
+        }
+        return candidates;
+    }
+
+    private review(candidates: BulkTaskCandidate[]) {
+        if (candidates.length === 0) {
+            new Notice("No open tasks without a Todoist link found");
+            return;
+        }
+
+        new BulkTaskToTodoistModal(
+            this.app,
+            this.plugin,
+            candidates,
+            (rows, onProgress) => this.createTasks(rows, onProgress),
+        ).open();
+    }
+
+    /**
+     * Creates the reviewed tasks in Todoist, then links each note's lines in one write
+     */
+    private async createTasks(
+        rows: BulkTaskCandidate[],
+        onProgress: (done: number, total: number) => void,
+    ) {
+        const failures: BulkTaskFailure[] = [];
+        let created = 0;
+        let done = 0;
+        onProgress(done, rows.length);
+
+        const rowsBySource = new Map<BulkTaskSource, BulkTaskCandidate[]>();
+        rows.forEach((row) => {
+            rowsBySource.set(row.source, [
+                ...(rowsBySource.get(row.source) ?? []),
+                row,
+            ]);
+        });
+
+        for (const [source, sourceRows] of rowsBySource) {
+            const isIndentedWithTabs =
+                this.TodoistTaskSync.detectIndentWithTabs(
+                    source.lines.join("\n"),
+                );
+            const links: {
+                row: BulkTaskCandidate;
+                createdTaskId: string;
+                taskId: string;
+                blockId: string;
+                update: LineUpdate;
+            }[] = [];
+
+            for (const row of sourceRows) {
+                try {
+                    const existingBlockId = this.TextParsing.extractBlockId(
+                        row.lineText,
+                    );
+                    const blockId =
+                        existingBlockId ??
+                        this.URILinkProcessing.generateUniqueBlockId(
+                            source.usedBlockIds,
+                        );
+                    const advancedUri =
+                        await this.URILinkProcessing.generateAdvancedUriToBlockInFile(
+                            blockId,
+                            source.file,
+                        );
+
+                    const description =
+                        TODOIST_CONSTANTS.FORMAT_STRINGS.ORIGINAL_TASK(
+                            advancedUri,
+                            window
+                                .moment()
+                                .format(this.settings.timestampFormat),
+                            this.settings.useMdLinkFormat,
+                        );
+                    const taskId = await this.TodoistTaskSync.createTodoistTask(
+                        row.title,
+                        description,
+                        row.dueDate,
+                        row.priority,
+                        row.projectId,
+                        {
+                            taskDetails: row.taskDetails,
+                            // The section field of the line wins over the rule's
+                            section: row.taskDetails.section
+                                ? undefined
+                                : this.TodoistTaskSync.getRuleSection(
+                                      row.projectRule,
+                                      row.projectId,
+                                  ),
+                        },
+                    );
+                    const v2Id = await this.todoistV2IDs.getV2Id(taskId);
+
+                    const lineWithBlockId = existingBlockId
+                        ? row.lineText
+                        : `${row.lineText.trimEnd()} ^${blockId}`;
+                    const link = this.TodoistTaskSync.formatTodoistLink(
+                        row.lineText,
+                        `https://app.todoist.com/app/task/${v2Id}`,
+                        this.TextParsing.isListItem(row.lineText),
+                        isIndentedWithTabs,
+                    );
+                    links.push({
+                        row,
+                        createdTaskId: taskId,
+                        taskId: v2Id,
+                        blockId,
+                        update: {
+                            line: row.line,
+                            original: row.lineText,
+                            updated: lineWithBlockId + link,
+                            blockId: existingBlockId,
+                            appended: link,
+                        },
+                    });
+                } catch (error) {
+                    console.error("Failed to create Todoist task:", error);
+                    failures.push({
+                        title: row.title,
+                        reason:
+                            (error instanceof Error
+                                ? error.message
+                                : String(error)) || "Unknown error",
+                    });
+                }
+                onProgress(++done, rows.length);
+            }
+
+            if (links.length === 0) continue;
+
+            let missed: LineUpdate[];
+            try {
+                missed = await source.apply(links.map((link) => link.update));
+            } catch (error) {
+                console.error("Failed to insert Todoist links:", error);
+                missed = links.map((link) => link.update);
+            }
+
+            for (const link of links) {
+                if (missed.includes(link.update)) {
+                    failures.push({
+                        title: link.row.title,
+                        reason: await this.removeUnlinkedTask(
+                            link.createdTaskId,
+                        ),
+                    });
+                    continue;
+                }
+                created++;
+                await this.TodoistTaskSync.recordLink(
+                    link.taskId,
+                    link.blockId,
+                    link.row.projectId || this.settings.todoistDefaultProject,
+                    undefined,
+                    source.file,
+                );
+            }
+        }
+
+        this.showSummary(created, rows.length, failures);
+    }
+
+    /**
+     * Deletes a task created for a line that could not be found to link it
+     * @returns The failure reason for the summary
+     */
+    private async removeUnlinkedTask(taskId: string): Promise<string> {
+        try {
+            await this.plugin.todoistApi?.deleteTask(taskId);
+            return "the line changed before the link could be added, so the Todoist task was removed again";
+        } catch (error) {
+            console.error(
+                `Failed to remove unlinked Todoist task ${taskId}:`,
+                error,
+            );
+            return "created in Todoist, but the line changed before the link could be added";
+        }
+    }
+
+    private showSummary(
+        created: number,
+        total: number,
+        failures: BulkTaskFailure[],
+    ) {
+        if (failures.length === 0) {
+            new Notice(`Created ${created} task(s) in Todoist`);
+            return;
+        }
+
+        const listed = failures
+            .slice(0, MAX_LISTED_FAILURES)
+            .map((failure) => `• ${failure.title}: ${failure.reason}`);
+        if (failures.length > MAX_LISTED_FAILURES) {
+            listed.push(
+                `…and ${failures.length - MAX_LISTED_FAILURES} more (see console)`,
+            );
+        }
+        new Notice(
+            `Created ${created} of ${total} task(s) in Todoist. Failed:\n${listed.join("\n")}`,
+            0,
+        );
+    }
+
+    private async applyToEditor(
+        editor: Editor,
+        updates: LineUpdate[],
+    ): Promise<LineUpdate[]> {
+        const lines = editor.getValue().split("\n");
+        const { located, missed } = this.locateUpdates(lines, updates);
+
+        editor.transaction({
+            changes: located.map(({ line, text }) => ({
+                from: { line, ch: 0 },
+                to: { line, ch: lines[line].length },
+                text,
+            })),
+        });
+        return missed;
+    }
+
+    private async applyToFile(
+        file: TFile,
+        updates: LineUpdate[],
+    ): Promise<LineUpdate[]> {
+        let missed: LineUpdate[] = [];
+        await this.app.vault.process(file, (content) => {
+            const lines = content.split("\n");
+            const result = this.locateUpdates(lines, updates);
+            result.located.forEach(({ line, text }) => {
+                lines[line] = text;
+            });
+            missed = result.missed;
+            return lines.join("\n");
+        });
+        return missed;
+    }
+
+    /**
+     * Finds the current line of each update, which may have moved since it was read.
+     * Lines edited in the meantime are found by their block ID, if they had one, and
+     * keep the edit.
+     */
+    private locateUpdates(
+        lines: string[],
+        updates: LineUpdate[],
+    ): {
+        located: { line: number; text: string }[];
+        missed: LineUpdate[];
+    } {
+        const taken = new Set<number>();
+        const located: { line: number; text: string }[] = [];
+        const missed: LineUpdate[] = [];
+
+        for (const update of updates) {
+            const line = this.TextParsing.findNearestLine(
+                lines,
+                update.original,
+                update.line,
+                taken,
+            );
+            if (line >= 0) {
+                taken.add(line);
+                located.push({ line, text: update.updated });
+                continue;
+            }
+
+            const editedLine = update.blockId
+                ? lines.findIndex(
+                      (text, index) =>
+                          !taken.has(index) &&
+                          this.TextParsing.extractBlockId(text) ===
+                              update.blockId &&
+                          !this.TextParsing.findLinkedTodoistTaskId(
+                              (n) => lines[n],
+                              index,
+                          ),
+                  )
+                : -1;
+            if (editedLine >= 0) {
+                taken.add(editedLine);
+                located.push({
+                    line: editedLine,
+                    text: lines[editedLine] + update.appended,
+                });
+            } else {
+                missed.push(update);
+            }
+        }
+        return { located, missed };
+    }
+}
@@ -0,0 +1,109 @@
+import { Task, TodoistApi } from "@doist/todoist-api-typescript";
+import TodoistContextBridgePlugin from "./main";
+import { CheckboxStatusMapping } from "./Settings";
+
+/**
+ * Finds the checkbox status of a Todoist task from its labels and project
+ * @param task The Todoist task
+ * @param mappings The checkbox status mappings from the settings
+ * @returns The checkbox character of the first matching label or project mapping,
+ * or an empty string for none
+ */
+export function getTodoistStatus(
+    task: Task,
+    mappings: CheckboxStatusMapping[],
+): string {
+    const labels = task.labels.map((label) => label.toLowerCase());
+    return (
+        mappings.find(
+            (mapping) =>
+                (mapping.action === "label" &&
+                    labels.includes(mapping.value.trim().toLowerCase())) ||
+                (mapping.action === "project" &&
+                    mapping.value !== "" &&
+                    mapping.value === task.projectId),
+        )?.symbol ?? ""
+    );
+}
+
+/**
+ * Syncs checkbox statuses mapped to a Todoist label or project to Todoist tasks
+ */
+export class CheckboxStatusSync {
+    constructor(private plugin: TodoistContextBridgePlugin) {}
+
+    /**
+     * Updates the labels and project of a Todoist task to match a checkbox status.
+     * Labels of other statuses are removed, and a task leaving a status project
+     * moves to the default project or the inbox.
+     * @param api The Todoist API
+     * @param task The Todoist task
+     * @param status The checkbox character, or an empty string for [ ]
+     * @returns The updated task, or the original task if nothing changed
+     */
+    async applyToTodoist(
+        api: TodoistApi,
+        task: Task,
+        status: string,
+    ): Promise<Task> {
+        const mappings = this.plugin.settings.checkboxStatusMappings;
+        const target = mappings.find(
+            (mapping) =>
+                mapping.symbol === status &&
+                (mapping.action === "label" || mapping.action === "project"),
+        );
+        let updatedTask = task;
+
+        const statusLabels = mappings
+            .filter((mapping) => mapping.action === "label")
+            .map((mapping) => mapping.value.trim().toLowerCase());
+        const labels = task.labels.filter(
+            (label) => !statusLabels.includes(label.toLowerCase()),
+        );
+        if (target?.action === "label" && target.value.trim()) {
+            labels.push(target.value.trim());
+        }
+        if (
+            labels.length !== task.labels.length ||
+            labels.some((label) => !task.labels.includes(label))
+        ) {
+            updatedTask = await api.updateTask(task.id, { labels });
+        }
+
+        let projectId: string | null = null;
+        if (target?.action === "project") {
+            projectId = target.value || null;
+        } else if (
+            mappings.some(
+                (mapping) =>
+                    mapping.action === "project" &&
+                    mapping.value === task.projectId,
+            )
+        ) {
+            projectId = await this.getDefaultProjectId();
+        }
+        if (projectId && projectId !== updatedTask.projectId) {
+            updatedTask = await api.moveTask(task.id, { projectId });
+        }
+
+        return updatedTask;
+    }
+
+    private async getDefaultProjectId(): Promise<string | null> {
+        if (this.plugin.settings.todoistDefaultProject) {
+            return this.plugin.settings.todoistDefaultProject;
+        }
+        try {
+            const projects = await this.plugin.fetchProjects();
+            return (
+                projects.find(
+                    (project) =>
+                        "inboxProject" in project && project.inboxProject,
+                )?.id ?? null
+            );
+        } catch (error) {
+            console.warn("Failed to look up the Todoist inbox:", error);
+            return null;
+        }
+    }
+}
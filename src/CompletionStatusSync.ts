@@ -0,0 +1,285 @@
+import { Editor, Notice } from "obsidian";
+import { Task, TodoistApi } from "@doist/todoist-api-typescript";
+import { TodoistContextBridgeSettings } from "./Settings";
+import { TextParsing } from "./TextParsing";
+import { TodoistTaskSync } from "./TodoistTaskSync";
+import { NotificationHelper } from "./NotificationHelper";
+import { DateProcessing } from "./DateProcessing";
+import { TaskSnapshot } from "./TaskConflictResolver";
+
+/**
+ * Action needed to bring an Obsidian task and its linked Todoist task into agreement
+ */
+export type CompletionSyncAction =
+    | "close-todoist"
+    | "reopen-todoist"
+    | "complete-obsidian"
+    | "reopen-obsidian";
+
+export interface CompletionSyncResult {
+    checked: number;
+    updated: number;
+    failed: number;
+}
+
+/**
+ * Decides which side to update when the completion status of a task differs
+ * @param sourceOfTruth The configured source of truth
+ * @param obsidianCompleted Whether the Obsidian checkbox is checked
+ * @param todoistCompleted Whether the Todoist task is completed
+ * @returns The action to take, or null if both sides already agree
+ */
+export function resolveCompletionAction(
+    sourceOfTruth: TodoistContextBridgeSettings["completionSyncSourceOfTruth"],
+    obsidianCompleted: boolean,
+    todoistCompleted: boolean,
+): CompletionSyncAction | null {
+    if (obsidianCompleted === todoistCompleted) {
+        return null;
+    }
+
+    switch (sourceOfTruth) {
+        case "obsidian":
+            return obsidianCompleted ? "close-todoist" : "reopen-todoist";
+        case "todoist":
+            return todoistCompleted ? "complete-obsidian" : "reopen-obsidian";
+        case "completed":
+        default:
+            return obsidianCompleted ? "close-todoist" : "complete-obsidian";
+    }
+}
+
+/**
+ * Finds the fields to pull into the Obsidian line after closing a task in Todoist.
+ * Closing a recurring task moves it to its next occurrence instead of completing it,
+ * so the line is reopened with the new due date; otherwise the next sync would see
+ * the checked line again and close the task once more.
+ * @param task The Todoist task as fetched after closing it
+ * @returns The open status and next due date, or null if the task was completed
+ */
+export function getNextOccurrenceFields(
+    task: Task,
+): Pick<TaskSnapshot, "checked" | "dueDate"> | null {
+    if (!task.due?.isRecurring || task.checked) {
+        return null;
+    }
+    return {
+        checked: false,
+        dueDate: DateProcessing.formatTodoistDueDate(task.due),
+    };
+}
+
+/**
+ * Keeps the completion status of Obsidian checkboxes and their linked Todoist tasks in sync
+ */
+export class CompletionStatusSync {
+    private TextParsing: TextParsing;
+    private notificationHelper: NotificationHelper;
+
+    constructor(
+        private settings: TodoistContextBridgeSettings,
+        private todoistApi: TodoistApi,
+        private TodoistTaskSync: TodoistTaskSync,
+    ) {
+        this.TextParsing = new TextParsing(settings);
+        this.notificationHelper = new NotificationHelper(settings);
+    }
+
+    /**
+     * Decides which side to update based on the configured source of truth
+     * @param obsidianCompleted Whether the Obsidian checkbox is checked
+     * @param todoistCompleted Whether the Todoist task is completed
+     * @returns The action to take, or null if both sides already agree
+     */
+    public resolveCompletionAction(
+        obsidianCompleted: boolean,
+        todoistCompleted: boolean,
+    ): CompletionSyncAction | null {
+        return resolveCompletionAction(
+            this.settings.completionSyncSourceOfTruth,
+            obsidianCompleted,
+            todoistCompleted,
+        );
+    }
+
+    /**
+     * Syncs the completion status of the task under the cursor
+     * @param editor The editor containing the task
+     */
+    async syncCurrentTaskCompletionStatus(editor: Editor) {
+        const currentLine = editor.getCursor().line;
+        const lineText = editor.getLine(currentLine);
+
+        if (!this.TextParsing.isTaskLine(lineText)) {
+            new Notice(
+                'Please place the cursor on a task line (e.g., "- [ ] Task")',
+            );
+            return;
+        }
+
+        if (this.TextParsing.getTaskStatus(lineText) === "other") {
+            new Notice(
+                "This task has a special status (e.g., [?], [/], [-]). Only open or completed tasks can be synced.",
+            );
+            return;
+        }
+
+        if (!this.TodoistTaskSync.getTodoistTaskId(editor, currentLine)) {
+            new Notice("No linked Todoist task found for this task.");
+            return;
+        }
+
+        const result = await this.syncCompletionStatusForLines(editor, [
+            currentLine,
+        ]);
+        this.showResult(result);
+    }
+
+    /**
+     * Syncs the completion status of every linked task in the current file
+     * @param editor The editor of the current file
+     */
+    async syncFileCompletionStatus(editor: Editor) {
+        const taskLines: number[] = [];
+        for (let i = 0; i < editor.lineCount(); i++) {
+            const line = editor.getLine(i);
+            if (
+                this.TextParsing.isTaskLine(line) &&
+                this.TextParsing.getTaskStatus(line) !== "other" &&
+                this.TodoistTaskSync.getTodoistTaskId(editor, i)
+            ) {
+                taskLines.push(i);
+            }
+        }
+
+        if (taskLines.length === 0) {
+            new Notice("No linked Todoist tasks found in this file.");
+            return;
+        }
+
+        const result = await this.syncCompletionStatusForLines(
+            editor,
+            taskLines,
+        );
+        this.showResult(result);
+    }
+
+    /**
+     * Compares each task line with its linked Todoist task and updates the side that is out of date
+     * @param editor The editor containing the tasks
+     * @param taskLines Line numbers of linked task lines
+     * @returns Counts of checked, updated and failed tasks
+     */
+    private async syncCompletionStatusForLines(
+        editor: Editor,
+        taskLines: number[],
+    ): Promise<CompletionSyncResult> {
+        const result: CompletionSyncResult = {
+            checked: 0,
+            updated: 0,
+            failed: 0,
+        };
+
+        for (const lineNumber of taskLines) {
+            const lineText = editor.getLine(lineNumber);
+            const taskId = this.TodoistTaskSync.getTodoistTaskId(
+                editor,
+                lineNumber,
+            );
+            if (!taskId) continue;
+
+            result.checked++;
+
+            try {
+                const task = await this.todoistApi.getTask(taskId);
+                const action = this.resolveCompletionAction(
+                    this.TextParsing.getTaskStatus(lineText) === "completed",
+                    task.checked ?? false,
+                );
+                if (!action) continue;
+
+                await this.applyCompletionAction(
+                    editor,
+                    lineNumber,
+                    task,
+                    action,
+                );
+                result.updated++;
+            } catch (error) {
+                console.error(
+                    `Failed to sync completion status for Todoist task ${taskId}:`,
+                    error,
+                );
+                result.failed++;
+            }
+        }
+
+        return result;
+    }
+
+    private async applyCompletionAction(
+        editor: Editor,
+        lineNumber: number,
+        task: Task,
+        action: CompletionSyncAction,
+    ) {
+        switch (action) {
+            case "close-todoist": {
+                await this.todoistApi.closeTask(task.id);
+                if (!task.due?.isRecurring) break;
+
+                const nextOccurrence = getNextOccurrenceFields(
+                    await this.todoistApi.getTask(task.id),
+                );
+                if (nextOccurrence) {
+                    const currentCursor = editor.getCursor();
+                    editor.setLine(
+                        lineNumber,
+                        this.TextParsing.applyTaskFields(
+                            editor.getLine(lineNumber),
+                            nextOccurrence,
+                        ),
+                    );
+                    editor.setCursor(currentCursor);
+                }
+                break;
+            }
+            case "reopen-todoist":
+                await this.todoistApi.reopenTask(task.id);
+                break;
+            case "complete-obsidian":
+            case "reopen-obsidian": {
+                const currentCursor = editor.getCursor();
+                editor.setLine(
+                    lineNumber,
+                    this.TextParsing.setTaskStatus(
+                        editor.getLine(lineNumber),
+                        action === "complete-obsidian",
+                    ),
+                );
+                editor.setCursor(currentCursor);
+                break;
+            }
+        }
+    }
+
+    private showResult(result: CompletionSyncResult) {
+        if (result.failed > 0) {
+            this.notificationHelper.showError(
+                `Completion sync finished with ${result.failed} error(s). ${result.updated} of ${result.checked} task(s) updated.`,
+            );
+            return;
+        }
+
+        if (result.updated === 0) {
+            this.notificationHelper.showInfo(
+                "Completion status is already in sync.",
+            );
+            return;
+        }
+
+        this.notificationHelper.showSuccess(
+            `Completion status synced for ${result.updated} task(s).`,
+        );
+    }
+}
@@ -1,4 +1,5 @@
 import { Notice } from "obsidian";
+import { Duration } from "@doist/todoist-api-typescript";
 import { TodoistContextBridgeSettings } from "./Settings";
 
 export interface DateValidationResult {
@@ -6,6 +7,45 @@ export interface DateValidationResult {
     isInPast: boolean;
 }
 
+const WEEKDAY_NAMES = [
+    "monday",
+    "tuesday",
+    "wednesday",
+    "thursday",
+    "friday",
+    "saturday",
+    "sunday",
+];
+
+/**
+ * Source of the time zone that may follow a datetime in a task line: "Z", an offset
+ * such as "+02:00" or a space and a zone name such as " Europe/Berlin" or " UTC"
+ */
+export const TIMEZONE_SUFFIX_PATTERN =
+    "(?:Z|[+-]\\d{2}:?\\d{2}|\\s(?:UTC|GMT|[A-Za-z_]+(?:/[A-Za-z0-9_+-]+)+))";
+
+/**
+ * Unit of a relative date: days, weeks, months, years or business days
+ */
+export type RelativeDateUnit = "d" | "w" | "m" | "y" | "b";
+
+const RELATIVE_DATE_UNITS: Record<
+    Exclude<RelativeDateUnit, "b">,
+    "days" | "weeks" | "months" | "years"
+> = {
+    d: "days",
+    w: "weeks",
+    m: "months",
+    y: "years",
+};
+
+const DATE_UNITS: Record<string, "days" | "weeks" | "months" | "years"> = {
+    day: "days",
+    week: "weeks",
+    month: "months",
+    year: "years",
+};
+
 export class DateProcessing {
     private static settings: TodoistContextBridgeSettings;
 
@@ -22,7 +62,10 @@ export class DateProcessing {
     }
 
     /**
-     * Process relative date (e.g., +1D, 1d, 0d) and convert to Todoist format
+     * Process relative date (e.g., +1D, 1d, 0d, +2w, -1m, 1y, +3b) and convert to Todoist format.
+     * Units are days (d), weeks (w), months (m), years (y) and business days (b), which
+     * count Monday to Friday only. With skipWeekends, days are counted as business days
+     * and later weeks, months and years landing on a weekend move to the next Monday.
      * @param dateStr The date string to process
      * @param skipWeekends Whether to skip weekends in the calculation
      * @returns A date string in Todoist format, or null if invalid
@@ -31,25 +74,31 @@ export class DateProcessing {
         dateStr: string,
         skipWeekends = false,
     ): string | null {
-        // Allow formats: +1D, 1d, 0d, + 1 d, etc.
-        const relativeMatch = dateStr.trim().match(/^([+-]?\s*\d+)\s*[Dd]$/);
-        if (!relativeMatch) {
+        const relative = this.parseRelativeDate(dateStr);
+        if (!relative) {
             return null;
         }
 
-        const [_, daysStr] = relativeMatch;
-        // Remove spaces and handle the case where no sign is provided (treat as positive)
-        const normalizedDaysStr = daysStr.replace(/\s+/g, "");
-        const days = parseInt(normalizedDaysStr);
-
         // Start with today at start of day in local timezone
         let m = window.moment().startOf("day");
 
-        // Add the specified number of days
-        m = m.add(days, "days");
+        if (relative.unit === "b" || (relative.unit === "d" && skipWeekends)) {
+            // Count only working days, in the direction of the offset
+            const step = Math.sign(relative.amount);
+            let remaining = Math.abs(relative.amount);
+            while (remaining > 0) {
+                m = m.add(step, "days");
+                if (m.isoWeekday() <= 5) {
+                    remaining--;
+                }
+            }
+            return m.format("YYYY-MM-DD");
+        }
+
+        m = m.add(relative.amount, RELATIVE_DATE_UNITS[relative.unit]);
 
         // Skip weekends if requested
-        if (skipWeekends && days > 0) {
+        if (skipWeekends && relative.amount > 0) {
             while (m.day() === 0 || m.day() === 6) {
                 m = m.add(1, "days");
             }
@@ -58,6 +107,194 @@ export class DateProcessing {
         return m.format("YYYY-MM-DD");
     }
 
+    /**
+     * Get the unit of a relative date
+     * @param dateStr The date string to check
+     * @returns d, w, m, y or b, or null if the string is not a relative date
+     */
+    public static getRelativeDateUnit(
+        dateStr: string,
+    ): RelativeDateUnit | null {
+        return this.parseRelativeDate(dateStr)?.unit ?? null;
+    }
+
+    /**
+     * Split a relative date into its signed amount and unit
+     * @param dateStr The date string to parse, e.g. "+ 2 W"
+     * @returns The amount and lowercase unit, or null if the string is not a relative date
+     */
+    private static parseRelativeDate(
+        dateStr: string,
+    ): { amount: number; unit: RelativeDateUnit } | null {
+        // Allow formats: +1D, 1d, 0d, + 1 d, -2w, 3b, etc.
+        const relativeMatch = dateStr
+            .trim()
+            .match(/^([+-]?\s*\d+)\s*([dwmyb])$/i);
+        if (!relativeMatch) {
+            return null;
+        }
+
+        // Remove spaces and handle the case where no sign is provided (treat as positive)
+        return {
+            amount: parseInt(relativeMatch[1].replace(/\s+/g, "")),
+            unit: relativeMatch[2].toLowerCase() as RelativeDateUnit,
+        };
+    }
+
+    /**
+     * Parse a natural-language date locally, without asking Todoist. Understands
+     * today, tomorrow, yesterday, "day after tomorrow", weekday names ("friday" is the
+     * next one after today, "this friday" includes today, "next friday" is in next week),
+     * "next week/month/year", "in 2 weeks", "end of week/month/year" and YYYY-MM-DD,
+     * each optionally followed by a time such as "9am", "at 14:30" or "noon".
+     * @param dateStr The expression to parse
+     * @param now The moment relative expressions are resolved from
+     * @returns A date string in YYYY-MM-DD[THH:mm] format, or null if not recognized
+     */
+    public static parseNaturalLanguageDate(
+        dateStr: string,
+        now = window.moment(),
+    ): string | null {
+        let text = dateStr.trim().toLowerCase().replace(/\s+/g, " ");
+        if (!text) {
+            return null;
+        }
+
+        // Split off a trailing time of day
+        let time: { hours: number; minutes: number } | null = null;
+        const namedTimeMatch = text.match(
+            /^(.*?)\s*(?:\bat )?\b(noon|midnight)$/,
+        );
+        const timeMatch = text.match(
+            /^(.*?)\s*(\bat )?\b(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/,
+        );
+        if (namedTimeMatch) {
+            text = namedTimeMatch[1];
+            time = { hours: namedTimeMatch[2] === "noon" ? 12 : 0, minutes: 0 };
+        } else if (
+            timeMatch &&
+            (timeMatch[2] || timeMatch[4] !== undefined || timeMatch[5])
+        ) {
+            let hours = parseInt(timeMatch[3]);
+            const minutes = parseInt(timeMatch[4] ?? "0");
+            const meridiem = timeMatch[5];
+            if (meridiem) {
+                if (hours < 1 || hours > 12) return null;
+                hours = (hours % 12) + (meridiem === "pm" ? 12 : 0);
+            }
+            if (hours > 23 || minutes > 59) {
+                return null;
+            }
+            text = timeMatch[1];
+            time = { hours, minutes };
+        }
+
+        const date = this.parseNaturalLanguageDay(text, now.clone());
+        if (!date) {
+            return null;
+        }
+        if (!time) {
+            return date.format("YYYY-MM-DD");
+        }
+        return date
+            .hours(time.hours)
+            .minutes(time.minutes)
+            .format("YYYY-MM-DDTHH:mm");
+    }
+
+    /**
+     * Resolve the day part of a natural-language date
+     * @param text The lowercased expression without a time of day
+     * @param now The moment relative expressions are resolved from
+     * @returns The start of the day, or null if not recognized
+     */
+    private static parseNaturalLanguageDay(
+        text: string,
+        now: ReturnType<typeof window.moment>,
+    ): ReturnType<typeof window.moment> | null {
+        const today = now.startOf("day");
+
+        switch (text) {
+            // An expression with only a time of day is for today
+            case "":
+            case "today":
+                return today;
+            case "tomorrow":
+                return today.add(1, "days");
+            case "yesterday":
+                return today.subtract(1, "days");
+            case "day after tomorrow":
+                return today.add(2, "days");
+        }
+
+        // A date with a time of day, e.g. "2025-01-31 9am"
+        const isoDate = window.moment(text, "YYYY-MM-DD", true);
+        if (isoDate.isValid()) {
+            return isoDate;
+        }
+
+        const offsetMatch = text.match(
+            /^in (\d+|a|an|one) (day|week|month|year)s?$/,
+        );
+        if (offsetMatch) {
+            const amount = /^\d+$/.test(offsetMatch[1])
+                ? parseInt(offsetMatch[1])
+                : 1;
+            return today.add(amount, DATE_UNITS[offsetMatch[2]]);
+        }
+
+        const nextPeriodMatch = text.match(/^next (week|month|year)$/);
+        if (nextPeriodMatch) {
+            // Weeks start on Monday
+            const unit =
+                nextPeriodMatch[1] === "week" ? "isoWeek" : nextPeriodMatch[1];
+            return today
+                .add(1, DATE_UNITS[nextPeriodMatch[1]])
+                .startOf(unit as "isoWeek" | "month" | "year");
+        }
+
+        const endOfPeriodMatch = text.match(
+            /^end of (?:the )?(week|month|year)$/,
+        );
+        if (endOfPeriodMatch) {
+            const unit =
+                endOfPeriodMatch[1] === "week"
+                    ? "isoWeek"
+                    : endOfPeriodMatch[1];
+            return today
+                .endOf(unit as "isoWeek" | "month" | "year")
+                .startOf("day");
+        }
+
+        const weekdayMatch = text.match(/^(?:(this|next) )?([a-z]{3,})$/);
+        if (weekdayMatch) {
+            const weekday =
+                WEEKDAY_NAMES.findIndex((name) =>
+                    name.startsWith(weekdayMatch[2]),
+                ) + 1;
+            if (weekday === 0) {
+                return null;
+            }
+            switch (weekdayMatch[1]) {
+                case "next":
+                    // The weekday in next week
+                    return today.add(1, "weeks").isoWeekday(weekday);
+                case "this": {
+                    // The weekday from today on
+                    const days = (weekday - today.isoWeekday() + 7) % 7;
+                    return today.add(days, "days");
+                }
+                default: {
+                    // The weekday after today
+                    const days = (weekday - today.isoWeekday() + 7) % 7 || 7;
+                    return today.add(days, "days");
+                }
+            }
+        }
+
+        return null;
+    }
+
     /**
      * Format a date for Todoist API
      * @param date The date to format
@@ -75,6 +312,253 @@ export class DateProcessing {
         return m.format("YYYY-MM-DDTHH:mm");
     }
 
+    /**
+     * Convert a Todoist due date to the format used in Obsidian task lines.
+     * Floating datetimes keep their time; datetimes fixed to a time zone are
+     * shown in the vault's time zone.
+     * @param due The due date of a Todoist task
+     * @returns Date string in YYYY-MM-DD[THH:mm] format, or null if the task has no due date
+     */
+    public static formatTodoistDueDate(
+        due: {
+            date: string;
+            datetime?: string | null;
+            timezone?: string | null;
+        } | null,
+    ): string | null {
+        if (!due) {
+            return null;
+        }
+
+        const datetime = due.datetime || (due.date.includes("T") && due.date);
+        if (!datetime) {
+            return due.date;
+        }
+
+        if (due.timezone || this.hasUtcOffset(datetime)) {
+            return this.toVaultTime(
+                this.hasUtcOffset(datetime) ? datetime : `${datetime}Z`,
+            );
+        }
+        return window.moment(datetime).format("YYYY-MM-DDTHH:mm");
+    }
+
+    /**
+     * Convert a due date to the arguments that set it in Todoist. Datetimes with a time
+     * zone are sent as fixed-zone datetimes, anything else as a floating due string.
+     * @param dueDate Date string in YYYY-MM-DD[THH:mm[±HH:mm]] format, or null to remove the due date
+     * @returns The due arguments for creating or updating a task
+     */
+    public static toTodoistDue(
+        dueDate: string | null,
+    ): { dueString: string } | { dueDatetime: string } {
+        if (dueDate && this.hasUtcOffset(dueDate)) {
+            return {
+                dueDatetime: window.moment
+                    .parseZone(dueDate)
+                    .utc()
+                    .format("YYYY-MM-DDTHH:mm:ss[Z]"),
+            };
+        }
+        return { dueString: dueDate ?? "no date" };
+    }
+
+    /**
+     * Convert a due date with a time zone to the vault's time zone, for comparing it
+     * with Todoist due dates
+     * @param dueDate Date string in YYYY-MM-DD[THH:mm[±HH:mm]] format
+     * @returns The date in YYYY-MM-DD[THH:mm] format
+     */
+    public static normalizeDueDate(dueDate: string | null): string | null {
+        return dueDate && this.hasUtcOffset(dueDate)
+            ? this.toVaultTime(dueDate)
+            : dueDate;
+    }
+
+    /**
+     * Check whether a datetime ends with "Z" or a UTC offset
+     */
+    public static hasUtcOffset(dateStr: string): boolean {
+        return /T[\d:.]+(?:Z|[+-]\d{2}:?\d{2})$/.test(dateStr);
+    }
+
+    /**
+     * Check whether a time zone name is known, e.g. "Europe/Berlin"
+     */
+    public static isValidTimezone(timeZone: string): boolean {
+        try {
+            new Intl.DateTimeFormat("en-US", { timeZone });
+            return true;
+        } catch (error) {
+            return false;
+        }
+    }
+
+    /**
+     * Parse a datetime followed by a time zone, e.g. "2025-01-31T09:00+01:00",
+     * "2025-01-31T09:00Z" or "2025-01-31T09:00 Europe/Berlin"
+     * @param dateStr The datetime to parse
+     * @returns The datetime with its UTC offset (YYYY-MM-DDTHH:mm±HH:mm), or null if invalid
+     */
+    public static parseZonedDateTime(dateStr: string): string | null {
+        const match = dateStr
+            .trim()
+            .match(
+                /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2})(?:(Z|[+-]\d{2}:?\d{2})|\s+(\S+))$/,
+            );
+        if (!match) {
+            return null;
+        }
+
+        const localTime = window.moment.utc(match[1], "YYYY-MM-DDTHH:mm", true);
+        if (!localTime.isValid()) {
+            return null;
+        }
+
+        if (match[2]) {
+            return window.moment
+                .parseZone(`${match[1]}${match[2]}`)
+                .format("YYYY-MM-DDTHH:mmZ");
+        }
+
+        const timeZone = match[3];
+        if (!this.isValidTimezone(timeZone)) {
+            return null;
+        }
+        const instant = this.zonedTimeToInstant(timeZone, localTime.valueOf());
+        return window.moment
+            .utc(instant)
+            .utcOffset(this.getTimezoneOffset(timeZone, instant))
+            .format("YYYY-MM-DDTHH:mmZ");
+    }
+
+    /**
+     * Find the instant a wall-clock time has in a time zone. Around a DST change, a
+     * time that occurs twice resolves to the earlier instant, and a time skipped by
+     * the change moves forward by the length of the gap, e.g. 02:30 becomes 03:30.
+     * @param timeZone The time zone name
+     * @param wallClock The wall-clock time, as milliseconds since the epoch in UTC
+     * @returns The instant in milliseconds since the epoch
+     */
+    private static zonedTimeToInstant(
+        timeZone: string,
+        wallClock: number,
+    ): number {
+        const day = 24 * 60 * 60 * 1000;
+        // The offsets in force around the time, before and after a possible change
+        const offsetBefore = this.getTimezoneOffset(timeZone, wallClock - day);
+        const offsetAfter = this.getTimezoneOffset(timeZone, wallClock + day);
+
+        const matching = [offsetBefore, offsetAfter].filter(
+            (offset) =>
+                this.getTimezoneOffset(timeZone, wallClock - offset * 60000) ===
+                offset,
+        );
+        if (matching.length === 0) {
+            // Skipped time: read it with the offset before the change
+            return wallClock - offsetBefore * 60000;
+        }
+        // The larger offset gives the earlier instant
+        return wallClock - Math.max(...matching) * 60000;
+    }
+
+    /**
+     * Convert a datetime with a UTC offset to the wall-clock time of the vault's time
+     * zone, or the system time zone if none is set
+     * @param dateStr Datetime with "Z" or a UTC offset
+     * @returns Date string in YYYY-MM-DDTHH:mm format
+     */
+    private static toVaultTime(dateStr: string): string {
+        const instant = window.moment.parseZone(dateStr);
+        const timeZone = this.settings?.timezone?.trim();
+        if (!timeZone || !this.isValidTimezone(timeZone)) {
+            return instant.local().format("YYYY-MM-DDTHH:mm");
+        }
+        return instant
+            .utcOffset(this.getTimezoneOffset(timeZone, instant.valueOf()))
+            .format("YYYY-MM-DDTHH:mm");
+    }
+
+    /**
+     * Get the offset of a time zone from UTC at an instant
+     * @param timeZone The time zone name
+     * @param timestamp The instant in milliseconds since the epoch
+     * @returns The offset in minutes
+     */
+    private static getTimezoneOffset(
+        timeZone: string,
+        timestamp: number,
+    ): number {
+        const parts = new Intl.DateTimeFormat("en-US", {
+            timeZone,
+            hourCycle: "h23",
+            year: "numeric",
+            month: "2-digit",
+            day: "2-digit",
+            hour: "2-digit",
+            minute: "2-digit",
+            second: "2-digit",
+        }).formatToParts(new Date(timestamp));
+        const part = (type: Intl.DateTimeFormatPartTypes) =>
+            parseInt(parts.find((p) => p.type === type)?.value ?? "0");
+        const wallClock = Date.UTC(
+            part("year"),
+            part("month") - 1,
+            part("day"),
+            part("hour"),
+            part("minute"),
+            part("second"),
+        );
+        return Math.round(
+            (wallClock - Math.floor(timestamp / 1000) * 1000) / 60000,
+        );
+    }
+
+    /**
+     * Parse a task duration, e.g. 45m, 1h30m, 2d, or a number of minutes
+     * @param durationStr The duration string to parse
+     * @returns The duration in Todoist units, or null if invalid
+     */
+    public static parseDuration(durationStr: string): Duration | null {
+        const normalized = durationStr.trim().toLowerCase();
+        if (/^\d+$/.test(normalized)) {
+            const minutes = parseInt(normalized);
+            return minutes > 0 ? { amount: minutes, unit: "minute" } : null;
+        }
+
+        const match = normalized.match(
+            /^(?:(\d+)\s*d)?\s*(?:(\d+)\s*h)?\s*(?:(\d+)\s*m(?:in)?)?$/,
+        );
+        if (!match || !(match[1] || match[2] || match[3])) {
+            return null;
+        }
+
+        const [days, hours, minutes] = match
+            .slice(1)
+            .map((value) => parseInt(value ?? "0"));
+        // Whole days are kept as days; anything with hours or minutes is counted in minutes
+        if (!match[2] && !match[3]) {
+            return days > 0 ? { amount: days, unit: "day" } : null;
+        }
+        const amount = days * 24 * 60 + hours * 60 + minutes;
+        return amount > 0 ? { amount, unit: "minute" } : null;
+    }
+
+    /**
+     * Format a Todoist duration for Obsidian task lines
+     * @param duration The duration of a Todoist task
+     * @returns Duration string such as 45m, 1h30m or 2d
+     */
+    public static formatDuration(duration: Duration): string {
+        if (duration.unit === "day") {
+            return `${duration.amount}d`;
+        }
+
+        const hours = Math.floor(duration.amount / 60);
+        const minutes = duration.amount % 60;
+        return `${hours ? `${hours}h` : ""}${minutes || !hours ? `${minutes}m` : ""}`;
+    }
+
     /**
      * Validate date string format with optional time
      * @param dateStr The date string to validate (YYYY-MM-DD[THH:mm])
@@ -145,44 +629,46 @@ export class DateProcessing {
     }
 
     /**
-     * Check if a date string is a relative date (e.g., +1D, 1d, 0d)
+     * Check if a date string is a relative date (e.g., +1D, 1d, 0d, +2w, +3b)
      * @param dateStr The date string to check
      * @returns True if the string is a relative date, false otherwise
      */
     public static isRelativeDate(dateStr: string): boolean {
-        return /^[+-]?\s*\d+\s*[Dd]$/.test(dateStr.trim());
+        return this.parseRelativeDate(dateStr) !== null;
     }
 
     /**
      * Check if a relative date string represents a past date
-     * @param dateStr The relative date string (e.g., "-1d", "0d", "+1d")
+     * @param dateStr The relative date string (e.g., "-1d", "0d", "+1d", "-2w", "-3b")
+     * @param skipWeekends Whether days are counted as business days, as when the date is resolved
      * @returns true if the relative date represents a past date
      */
-    public static isRelativeDateInPast(dateStr: string): boolean {
-        // Allow formats: +1D, 1d, 0d, + 1 d, etc.
-        const relativeMatch = dateStr.trim().match(/^([+-]?\s*\d+)\s*[Dd]$/);
-        if (!relativeMatch) {
+    public static isRelativeDateInPast(
+        dateStr: string,
+        skipWeekends = false,
+    ): boolean {
+        const targetDate = this.processRelativeDate(dateStr, skipWeekends);
+        if (!targetDate) {
             return false;
         }
 
-        const [_, daysStr] = relativeMatch;
-        const normalizedDaysStr = daysStr.replace(/\s+/g, "");
-        const days = parseInt(normalizedDaysStr);
-
         // Compare at start of day in local timezone
-        const targetDate = window.moment().startOf("day").add(days, "days");
-        return targetDate.isBefore(window.moment().startOf("day"));
+        return window
+            .moment(targetDate)
+            .isBefore(window.moment().startOf("day"));
     }
 
     /**
      * Validate and format a date string for Todoist
      * @param dateStr The date string to process
      * @param skipWeekends Whether to skip weekends for relative dates
+     * @param showNotices Whether to show a notice for invalid dates
      * @returns Validation result containing formatted date and past date status, or null if invalid
      */
     public static validateAndFormatDate(
         dateStr: string,
         skipWeekends = false,
+        showNotices = true,
     ): DateValidationResult | null {
         if (!dateStr.trim()) {
             return null;
@@ -197,24 +683,47 @@ export class DateProcessing {
             if (formattedDate) {
                 return {
                     formattedDate,
-                    isInPast: this.isRelativeDateInPast(dateStr),
+                    isInPast: this.isRelativeDateInPast(dateStr, skipWeekends),
                 };
             }
         }
 
+        // Datetimes with a time zone keep their UTC offset
+        const zonedDateTime = this.parseZonedDateTime(dateStr);
+        if (zonedDateTime) {
+            return {
+                formattedDate: zonedDateTime,
+                isInPast: this.isDateInPast(zonedDateTime),
+            };
+        }
+
         // If not a relative date, validate the date-time format
         if (!this.isValidDateTimeFormat(dateStr)) {
-            new Notice(
-                "Invalid date format. Please use YYYY-MM-DD[THH:mm] or relative format (e.g., 1d, +2d)",
-            );
+            // Fall back to natural-language dates such as "next friday"
+            const naturalDate = this.parseNaturalLanguageDate(dateStr);
+            if (naturalDate) {
+                return {
+                    formattedDate: naturalDate,
+                    isInPast: this.isDateInPast(naturalDate),
+                };
+            }
+
+            if (showNotices) {
+                new Notice(
+                    'Invalid date format. Please use YYYY-MM-DD[THH:mm], a relative date (e.g., 1d, +2w, +3b) or an expression such as "tomorrow 9am" or "next friday"',
+                );
+            }
             return null;
         }
 
         // Parse using moment.js
         const m = window.moment(dateStr);
         if (!m.isValid()) {
+            if (!showNotices) {
+                return null;
+            }
             new Notice(
-                "Invalid date format. Please use YYYY-MM-DD[THH:mm] or relative format (e.g., 1d, +2d)",
+                'Invalid date format. Please use YYYY-MM-DD[THH:mm], a relative date (e.g., 1d, +2w, +3b) or an expression such as "tomorrow 9am" or "next friday"',
             );
             return null;
         }
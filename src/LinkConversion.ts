@@ -0,0 +1,216 @@
+import { App, TFile } from "obsidian";
+import { TodoistContextBridgeSettings } from "./Settings";
+
+// ![[target#subpath|alias]]
+const WIKILINK_PATTERN = /(!?)\[\[([^\[\]|]*?)(?:\|([^\[\]]*))?\]\]/;
+// ![text](target "title"), where the target may be wrapped in <>
+const MARKDOWN_LINK_PATTERN =
+    /(!?)\[([^\[\]]*)\]\((?:<([^<>]+)>|([^()\s]+))(?:\s+"[^"]*")?\)/;
+// Links created by toTodoist, followed by the embed marker for embeds
+const OBSIDIAN_URI_LINK_PATTERN =
+    /\[([^\[\]]*)\]\((obsidian:\/\/(?:open|adv-uri)\?[^()\s]+)\)( \(embedded\))?/g;
+
+/**
+ * Pattern for the links and embeds in task text that are converted for Todoist
+ */
+export const NOTE_LINK_PATTERN = new RegExp(
+    `${WIKILINK_PATTERN.source}|${MARKDOWN_LINK_PATTERN.source}`,
+    "g",
+);
+
+/**
+ * Converts wikilinks, Markdown links and embeds in task text to links Todoist can
+ * open, and converts those links back to wikilinks when Todoist content is synced
+ * to the note.
+ */
+export class LinkConversion {
+    private static app: App | null = null;
+    private static settings: TodoistContextBridgeSettings;
+
+    public static initialize(app: App, settings: TodoistContextBridgeSettings) {
+        this.app = app;
+        this.settings = settings;
+    }
+
+    /**
+     * Whether links in task text are converted for Todoist
+     */
+    public static isEnabled(): boolean {
+        return !!this.settings && this.settings.taskLinkConversion !== "off";
+    }
+
+    /**
+     * Converts a single link or embed matched by NOTE_LINK_PATTERN for Todoist
+     * @param link The link, e.g. "[[Q3 Budget]]" or "![[chart.png]]"
+     * @param sourcePath The path of the note containing the link, which relative
+     * links are resolved from
+     * @returns A Todoist Markdown link, the display text of the link, or an empty
+     * string for a removed embed
+     */
+    public static toTodoist(link: string, sourcePath = ""): string {
+        const wikilink = link.match(new RegExp(`^${WIKILINK_PATTERN.source}$`));
+        if (wikilink) {
+            const [, embed, target, alias] = wikilink;
+            const [linkpath, subpath = ""] = this.splitSubpath(target);
+            return this.convertLink(
+                embed === "!",
+                linkpath,
+                subpath,
+                sourcePath,
+                alias,
+            );
+        }
+
+        const markdownLink = link.match(
+            new RegExp(`^${MARKDOWN_LINK_PATTERN.source}$`),
+        );
+        if (!markdownLink) return link;
+
+        const [, embed, text, wrappedTarget, plainTarget] = markdownLink;
+        const target = wrappedTarget ?? plainTarget;
+
+        // External links already work in Todoist
+        if (/^[a-z][a-z0-9+.-]*:/i.test(target)) {
+            if (embed !== "!") return link;
+            if (this.settings.taskEmbedHandling === "strip") return "";
+            const name = text || target.split(/[/?#]/).filter(Boolean).pop();
+            return `[${this.escapeText(name ?? target)}](${target}) (embedded)`;
+        }
+
+        let decodedTarget = target;
+        try {
+            decodedTarget = decodeURI(target);
+        } catch (error) {
+            console.warn(`Invalid link target: ${target}`, error);
+        }
+        const [linkpath, subpath = ""] = this.splitSubpath(decodedTarget);
+        return this.convertLink(
+            embed === "!",
+            linkpath.replace(/^\.\//, ""),
+            subpath,
+            sourcePath,
+            text,
+        );
+    }
+
+    /**
+     * Converts the obsidian:// links created by toTodoist back to wikilinks
+     * @param content The Todoist task content
+     * @returns The content with links to notes in this vault as wikilinks
+     */
+    public static toObsidian(content: string): string {
+        if (!this.isEnabled() || !this.app) return content;
+        const app = this.app;
+
+        return content.replace(
+            OBSIDIAN_URI_LINK_PATTERN,
+            (match, text: string, uri: string, embedded?: string) => {
+                const params = new URLSearchParams(uri.split("?")[1]);
+                if (params.get("vault") !== app.vault.getName()) return match;
+
+                const [path, fileSubpath = ""] = this.splitSubpath(
+                    params.get("file") ?? params.get("filepath") ?? "",
+                );
+                const block = params.get("block");
+                const subpath =
+                    params.get("heading") ||
+                    (block ? `^${block}` : fileSubpath);
+
+                const file = app.vault.getAbstractFileByPath(path);
+                if (!(file instanceof TFile)) return match;
+
+                const linktext = app.metadataCache.fileToLinktext(
+                    file,
+                    "",
+                    true,
+                );
+                const target = subpath ? `${linktext}#${subpath}` : linktext;
+                if (embedded) {
+                    return `![[${target}]]`;
+                }
+                return text === this.getDisplayText(linktext, subpath)
+                    ? `[[${target}]]`
+                    : `[[${target}|${text}]]`;
+            },
+        );
+    }
+
+    private static convertLink(
+        isEmbed: boolean,
+        linkpath: string,
+        subpath: string,
+        sourcePath: string,
+        alias?: string,
+    ): string {
+        if (isEmbed && this.settings.taskEmbedHandling === "strip") {
+            return "";
+        }
+
+        const file = linkpath
+            ? (this.app?.metadataCache.getFirstLinkpathDest(
+                  linkpath,
+                  sourcePath,
+              ) ?? null)
+            : null;
+
+        let text: string;
+        if (isEmbed) {
+            // Embed aliases set the image size, e.g. ![[chart.png|300]]
+            text =
+                alias && !/^\d+(?:x\d+)?$/.test(alias)
+                    ? alias
+                    : (file?.name ?? linkpath);
+        } else {
+            text = alias || this.getDisplayText(linkpath, subpath);
+        }
+        text = this.escapeText(text);
+
+        const uri =
+            file && this.settings.taskLinkConversion !== "text"
+                ? this.buildUri(file, subpath)
+                : null;
+        const converted = uri ? `[${text}](${uri})` : text;
+        return isEmbed ? `${converted} (embedded)` : converted;
+    }
+
+    private static buildUri(file: TFile, subpath: string): string | null {
+        if (!this.app) return null;
+
+        const params = new URLSearchParams();
+        params.set("vault", this.app.vault.getName());
+        if (this.settings.taskLinkConversion === "advanced-uri") {
+            params.set("filepath", file.path);
+            if (subpath.startsWith("^")) {
+                params.set("block", subpath.slice(1));
+            } else if (subpath) {
+                params.set("heading", subpath);
+            }
+            // Convert + to %20 in the final URL
+            return `obsidian://adv-uri?${params.toString().replace(/\+/g, "%20")}`;
+        }
+
+        params.set("file", subpath ? `${file.path}#${subpath}` : file.path);
+        // Convert + to %20 in the final URL
+        return `obsidian://open?${params.toString().replace(/\+/g, "%20")}`;
+    }
+
+    /**
+     * The text Obsidian shows for a link without alias, e.g. "Note > Heading"
+     */
+    private static getDisplayText(linkpath: string, subpath: string): string {
+        if (!subpath) return linkpath;
+        return linkpath ? `${linkpath} > ${subpath}` : subpath;
+    }
+
+    private static splitSubpath(target: string): [string, string?] {
+        const index = target.indexOf("#");
+        return index < 0
+            ? [target.trim()]
+            : [target.slice(0, index).trim(), target.slice(index + 1).trim()];
+    }
+
+    // Brackets in the text would end the Todoist Markdown link early
+    private static escapeText(text: string): string {
+        return text.replace(/[[\]]/g, "");
+    }
+}
@@ -0,0 +1,490 @@
+import {
+    ItemView,
+    Notice,
+    TFile,
+    WorkspaceLeaf,
+    debounce,
+    setIcon,
+} from "obsidian";
+import { Task } from "@doist/todoist-api-typescript";
+import TodoistContextBridgePlugin from "./main";
+import { TextParsing } from "./TextParsing";
+import { DateProcessing } from "./DateProcessing";
+import { TODOIST_CONSTANTS } from "./constants";
+
+export const LINKED_TASKS_VIEW_TYPE = "todoist-linked-tasks";
+
+type LinkedTaskStatus =
+    | "open"
+    | "overdue"
+    | "completed"
+    | "deleted"
+    | "unknown";
+type GroupBy = "note" | "project";
+type SortBy = "position" | "dueDate" | "title" | "status";
+
+interface LinkedTaskItem {
+    file: TFile;
+    line: number;
+    taskId: string;
+    blockId: string | null;
+    title: string;
+    status: LinkedTaskStatus;
+    dueDate: string | null;
+    projectId: string | null;
+}
+
+// Statuses in the order they are sorted by
+const STATUS_LABELS: Record<LinkedTaskStatus, string> = {
+    overdue: "Overdue",
+    open: "Open",
+    completed: "Completed",
+    deleted: "Deleted",
+    unknown: "Unknown",
+};
+
+const STATUS_COLORS: Record<LinkedTaskStatus, string> = {
+    overdue: "var(--text-error)",
+    open: "var(--text-accent)",
+    completed: "var(--text-success)",
+    deleted: "var(--text-faint)",
+    unknown: "var(--text-muted)",
+};
+
+// Wait for a pause in typing before rescanning notes
+const RESCAN_DELAY_MS = 2000;
+
+/**
+ * Sidebar view listing every task in the vault that links to Todoist
+ */
+export class LinkedTasksView extends ItemView {
+    private TextParsing: TextParsing;
+    private items: LinkedTaskItem[] = [];
+    // Todoist state from the last lookup, reused when only notes changed
+    private tasks = new Map<string, Task>();
+    private notFound = new Set<string>();
+    private projectNames = new Map<string, string>();
+
+    private groupBy: GroupBy = "note";
+    private statusFilter: LinkedTaskStatus | "all" = "all";
+    private sortBy: SortBy = "position";
+    private searchText = "";
+
+    private summaryEl: HTMLElement;
+    private listEl: HTMLElement;
+    private isLoading = false;
+    /** A rescan requested while loading, and whether it looks up every task in Todoist */
+    private pendingRefresh: { fetchTodoist: boolean } | null = null;
+
+    private requestRescan = debounce(
+        () => this.refresh(false),
+        RESCAN_DELAY_MS,
+        true,
+    );
+
+    constructor(
+        leaf: WorkspaceLeaf,
+        private plugin: TodoistContextBridgePlugin,
+    ) {
+        super(leaf);
+        this.TextParsing = new TextParsing(plugin.settings);
+    }
+
+    getViewType(): string {
+        return LINKED_TASKS_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        return "Linked Todoist tasks";
+    }
+
+    getIcon(): string {
+        return "list-checks";
+    }
+
+    async onOpen() {
+        this.contentEl.empty();
+        this.renderToolbar();
+        this.summaryEl = this.contentEl.createDiv();
+        this.summaryEl.style.fontSize = "0.8em";
+        this.summaryEl.style.color = "var(--text-muted)";
+        this.summaryEl.style.margin = "0.5em 0";
+        this.listEl = this.contentEl.createDiv();
+
+        // Keep the list in step with edits, moves and deletions in the vault
+        const onVaultChange = (file: unknown) => {
+            if (file instanceof TFile && file.extension === "md") {
+                this.requestRescan();
+            }
+        };
+        this.registerEvent(this.app.vault.on("modify", onVaultChange));
+        this.registerEvent(this.app.vault.on("rename", onVaultChange));
+        this.registerEvent(this.app.vault.on("delete", onVaultChange));
+
+        await this.refresh(true);
+    }
+
+    async onClose() {
+        this.requestRescan.cancel();
+        this.pendingRefresh = null;
+        this.contentEl.empty();
+    }
+
+    /**
+     * Rescans the vault for linked tasks
+     * @param fetchTodoist Whether to look up every task in Todoist again, rather than only new ones
+     */
+    async refresh(fetchTodoist: boolean) {
+        // Run once more after the current load, so edits made meanwhile are picked up
+        if (this.isLoading) {
+            this.pendingRefresh = {
+                fetchTodoist:
+                    fetchTodoist || !!this.pendingRefresh?.fetchTodoist,
+            };
+            return;
+        }
+        this.isLoading = true;
+        this.summaryEl.setText("Loading linked tasks...");
+
+        try {
+            this.items = await this.loadItems(fetchTodoist);
+        } catch (error) {
+            console.error("Failed to load linked Todoist tasks:", error);
+            new Notice("Failed to load linked Todoist tasks");
+        } finally {
+            this.isLoading = false;
+        }
+        this.render();
+
+        const pending = this.pendingRefresh;
+        if (pending) {
+            this.pendingRefresh = null;
+            await this.refresh(pending.fetchTodoist);
+        }
+    }
+
+    private renderToolbar() {
+        const toolbar = this.contentEl.createDiv();
+        toolbar.style.display = "flex";
+        toolbar.style.flexWrap = "wrap";
+        toolbar.style.gap = "6px";
+        toolbar.style.alignItems = "center";
+
+        const searchInput = toolbar.createEl("input", {
+            type: "search",
+            placeholder: "Filter tasks",
+        });
+        searchInput.style.flexGrow = "1";
+        searchInput.addEventListener("input", () => {
+            this.searchText = searchInput.value.trim().toLowerCase();
+            this.render();
+        });
+
+        const addDropdown = <T extends string>(
+            options: Record<T, string>,
+            value: T,
+            onChange: (value: T) => void,
+        ) => {
+            const select = toolbar.createEl("select", { cls: "dropdown" });
+            (Object.keys(options) as T[]).forEach((key) => {
+                const option = select.createEl("option", {
+                    value: key,
+                    text: options[key],
+                });
+                option.selected = key === value;
+            });
+            select.addEventListener("change", () => {
+                onChange(select.value as T);
+                this.render();
+            });
+        };
+
+        addDropdown<GroupBy>(
+            { note: "Group by note", project: "Group by project" },
+            this.groupBy,
+            (value) => (this.groupBy = value),
+        );
+        addDropdown<LinkedTaskStatus | "all">(
+            { all: "All statuses", ...STATUS_LABELS },
+            this.statusFilter,
+            (value) => (this.statusFilter = value),
+        );
+        addDropdown<SortBy>(
+            {
+                position: "Sort by position",
+                dueDate: "Sort by due date",
+                title: "Sort by title",
+                status: "Sort by status",
+            },
+            this.sortBy,
+            (value) => (this.sortBy = value),
+        );
+
+        const refreshButton = toolbar.createDiv({
+            cls: "clickable-icon",
+            attr: { "aria-label": "Refresh from Todoist" },
+        });
+        setIcon(refreshButton, "refresh-cw");
+        refreshButton.addEventListener("click", () => this.refresh(true));
+    }
+
+    private async loadItems(fetchTodoist: boolean): Promise<LinkedTaskItem[]> {
+        const found: {
+            file: TFile;
+            line: number;
+            lineText: string;
+            linkLineText: string;
+            taskId: string;
+        }[] = [];
+
+        for (const file of this.app.vault.getMarkdownFiles()) {
+            const content = await this.app.vault.cachedRead(file);
+            if (!TODOIST_CONSTANTS.LINK_PATTERN.test(content)) continue;
+
+            const lines = content.split("\n");
+            for (const linkedTask of this.TextParsing.getLinkedTaskLines(
+                lines,
+            )) {
+                found.push({
+                    file,
+                    line: linkedTask.line,
+                    lineText: lines[linkedTask.line],
+                    linkLineText: lines[linkedTask.linkLine],
+                    taskId: linkedTask.taskId,
+                });
+            }
+        }
+
+        if (this.plugin.todoistApi) {
+            if (fetchTodoist) {
+                this.tasks.clear();
+                this.notFound.clear();
+                const projects = await this.plugin.fetchProjects();
+                this.projectNames = new Map(
+                    projects.map((project) => [project.id, project.name]),
+                );
+            }
+            const newTaskIds = Array.from(
+                new Set(found.map((item) => item.taskId)),
+            ).filter(
+                (taskId) =>
+                    !this.tasks.has(taskId) && !this.notFound.has(taskId),
+            );
+            if (newTaskIds.length > 0) {
+                const tasks = await this.plugin.fetchTasksById(
+                    newTaskIds,
+                    this.notFound,
+                );
+                tasks.forEach((task, taskId) => this.tasks.set(taskId, task));
+            }
+        }
+
+        return found.map((item) => {
+            const task = this.tasks.get(item.taskId) ?? null;
+            const taskDetails = this.TextParsing.extractTaskDetails(
+                item.lineText,
+                false,
+                item.file.path,
+            );
+            const dueDate = task
+                ? DateProcessing.formatTodoistDueDate(task.due)
+                : taskDetails.dueDate;
+
+            return {
+                file: item.file,
+                line: item.line,
+                taskId: item.taskId,
+                blockId: this.TextParsing.extractBlockId(item.lineText),
+                title: taskDetails.cleanText || item.file.basename,
+                status: this.getStatus(item.taskId, task, item.linkLineText),
+                dueDate,
+                projectId: task?.projectId ?? null,
+            };
+        });
+    }
+
+    private getStatus(
+        taskId: string,
+        task: Task | null,
+        linkLineText: string,
+    ): LinkedTaskStatus {
+        if (
+            this.TextParsing.isBrokenTodoistLink(linkLineText) ||
+            this.notFound.has(taskId) ||
+            task?.isDeleted
+        ) {
+            return "deleted";
+        }
+        if (!task) return "unknown";
+        if (task.checked) return "completed";
+
+        const dueDate = DateProcessing.formatTodoistDueDate(task.due);
+        if (dueDate) {
+            // Tasks due on a day are overdue from the next day, timed tasks right away
+            const hasTime = dueDate.includes("T");
+            if (
+                window
+                    .moment(dueDate)
+                    .isBefore(window.moment(), hasTime ? "minute" : "day")
+            ) {
+                return "overdue";
+            }
+        }
+        return "open";
+    }
+
+    private render() {
+        if (!this.listEl) return;
+        this.listEl.empty();
+
+        const items = this.items
+            .filter(
+                (item) =>
+                    (this.statusFilter === "all" ||
+                        item.status === this.statusFilter) &&
+                    (!this.searchText ||
+                        item.title.toLowerCase().includes(this.searchText) ||
+                        item.file.path.toLowerCase().includes(this.searchText)),
+            )
+            .sort((a, b) => this.compareItems(a, b));
+
+        this.summaryEl.setText(
+            items.length === this.items.length
+                ? `${this.items.length} linked task(s)`
+                : `${items.length} of ${this.items.length} linked task(s)`,
+        );
+
+        const groups = new Map<string, LinkedTaskItem[]>();
+        items.forEach((item) => {
+            const label = this.getGroupLabel(item);
+            groups.set(label, [...(groups.get(label) ?? []), item]);
+        });
+
+        Array.from(groups.keys())
+            .sort((a, b) => a.localeCompare(b))
+            .forEach((label) => {
+                const groupEl = this.listEl.createDiv();
+                groupEl.style.marginBottom = "1em";
+                const heading = groupEl.createDiv({ text: label });
+                heading.style.fontWeight = "600";
+                heading.style.padding = "4px 0";
+                heading.style.borderBottom =
+                    "1px solid var(--background-modifier-border)";
+
+                groups
+                    .get(label)
+                    ?.forEach((item) => this.renderItem(groupEl, item));
+            });
+    }
+
+    private renderItem(container: HTMLElement, item: LinkedTaskItem) {
+        const row = container.createDiv();
+        row.style.display = "flex";
+        row.style.alignItems = "center";
+        row.style.gap = "6px";
+        row.style.padding = "4px 0";
+
+        const status = row.createSpan({ text: STATUS_LABELS[item.status] });
+        status.style.fontSize = "0.75em";
+        status.style.minWidth = "5.5em";
+        status.style.color = STATUS_COLORS[item.status];
+
+        const details = row.createDiv();
+        details.style.flexGrow = "1";
+        details.style.minWidth = "0";
+
+        const title = details.createEl("a", { text: item.title });
+        title.style.display = "block";
+        if (item.status === "completed" || item.status === "deleted") {
+            title.style.textDecoration = "line-through";
+        }
+        title.addEventListener("click", (event) => {
+            event.preventDefault();
+            this.openInObsidian(item);
+        });
+
+        const metadata = [
+            item.dueDate ? `Due ${item.dueDate}` : null,
+            this.groupBy === "project"
+                ? `${item.file.basename}:${item.line + 1}`
+                : this.getProjectName(item),
+        ].filter((text): text is string => !!text);
+        if (metadata.length > 0) {
+            const metadataText = details.createDiv({
+                text: metadata.join(" · "),
+            });
+            metadataText.style.fontSize = "0.8em";
+            metadataText.style.color = "var(--text-muted)";
+        }
+
+        if (item.status !== "deleted") {
+            const todoistButton = row.createDiv({
+                cls: "clickable-icon",
+                attr: { "aria-label": "Open in Todoist" },
+            });
+            setIcon(todoistButton, "external-link");
+            todoistButton.addEventListener("click", () => {
+                window.open(this.getTodoistUrl(item.taskId));
+            });
+        }
+    }
+
+    private compareItems(a: LinkedTaskItem, b: LinkedTaskItem): number {
+        const byPosition =
+            a.file.path.localeCompare(b.file.path) || a.line - b.line;
+        const statusOrder = Object.keys(STATUS_LABELS);
+
+        switch (this.sortBy) {
+            case "dueDate":
+                // Tasks without a due date go last
+                if (a.dueDate !== b.dueDate) {
+                    if (!a.dueDate) return 1;
+                    if (!b.dueDate) return -1;
+                    return a.dueDate.localeCompare(b.dueDate);
+                }
+                return byPosition;
+            case "title":
+                return a.title.localeCompare(b.title) || byPosition;
+            case "status":
+                return (
+                    statusOrder.indexOf(a.status) -
+                        statusOrder.indexOf(b.status) || byPosition
+                );
+            case "position":
+            default:
+                return byPosition;
+        }
+    }
+
+    private getGroupLabel(item: LinkedTaskItem): string {
+        return this.groupBy === "project"
+            ? (this.getProjectName(item) ?? "Unknown project")
+            : item.file.path;
+    }
+
+    private getProjectName(item: LinkedTaskItem): string | null {
+        return item.projectId
+            ? (this.projectNames.get(item.projectId) ?? null)
+            : null;
+    }
+
+    private getTodoistUrl(taskId: string): string {
+        return this.plugin.settings.todoistLinkFormat === "app"
+            ? `todoist://task?id=${taskId}`
+            : `https://app.todoist.com/app/task/${taskId}`;
+    }
+
+    private async openInObsidian(item: LinkedTaskItem) {
+        if (item.blockId) {
+            await this.app.workspace.openLinkText(
+                `${item.file.path}#^${item.blockId}`,
+                "",
+                false,
+            );
+            return;
+        }
+        await this.app.workspace
+            .getLeaf(false)
+            .openFile(item.file, { eState: { line: item.line } });
+    }
+}
@@ -0,0 +1,173 @@
+import { App, TFile } from "obsidian";
+import TodoistContextBridgePlugin from "./main";
+import { ProjectRule, TodoistContextBridgeSettings } from "./Settings";
+import { TextParsing } from "./TextParsing";
+
+/**
+ * The defaults the first matching project rule sets for a new task
+ */
+export interface ProjectRuleMatch {
+    rule: ProjectRule;
+    /** Position of the rule in the settings, starting at 1 */
+    position: number;
+    projectId: string;
+    /** Section name to preselect, empty for none */
+    section: string;
+    labels: string[];
+}
+
+/**
+ * Converts a path glob to a regular expression. "*" matches within a folder,
+ * "**" across folders and a trailing "/**" also matches the folder itself.
+ */
+export function globToRegExp(glob: string): RegExp {
+    let pattern = glob.trim().replace(/^\/+|\/+$/g, "");
+    const includeFolder = pattern.endsWith("/**");
+    if (includeFolder) {
+        pattern = pattern.slice(0, -3);
+    }
+
+    const source = pattern
+        .split(/(\*\*|\*|\?)/)
+        .map((part) => {
+            switch (part) {
+                case "**":
+                    return ".*";
+                case "*":
+                    return "[^/]*";
+                case "?":
+                    return "[^/]";
+                default:
+                    return part.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+            }
+        })
+        .join("");
+    return new RegExp(`^${source}${includeFolder ? "(?:/.*)?" : ""}$`, "i");
+}
+
+/**
+ * Picks the default project, section and labels for a new task from the ordered
+ * project rules. The first rule that matches the note or task line wins.
+ */
+export class ProjectRuleEvaluator {
+    private TextParsing: TextParsing;
+
+    constructor(
+        private app: App,
+        private settings: TodoistContextBridgeSettings,
+        private plugin: TodoistContextBridgePlugin,
+    ) {
+        this.TextParsing = new TextParsing(settings);
+    }
+
+    /**
+     * Evaluates the rules for a task
+     * @param file The note the task is created from
+     * @param lineText The task line, or the selected text
+     * @returns The first match, or null to use the default project
+     */
+    async findMatch(
+        file: TFile | null,
+        lineText = "",
+    ): Promise<ProjectRuleMatch | null> {
+        for (const [index, rule] of this.settings.projectRules.entries()) {
+            if (!rule.pattern.trim()) continue;
+
+            let projectId: string | null = null;
+            try {
+                projectId = await this.matchRule(rule, file, lineText);
+            } catch (error) {
+                console.warn(
+                    `Failed to evaluate project rule ${index + 1}:`,
+                    error,
+                );
+            }
+            if (!projectId) continue;
+
+            return {
+                rule,
+                position: index + 1,
+                projectId,
+                section: rule.section.trim(),
+                labels: rule.labels
+                    .split(",")
+                    .map((label) => label.trim())
+                    .filter((label) =>
+                        this.TextParsing.isValidTodoistLabel(label),
+                    ),
+            };
+        }
+        return null;
+    }
+
+    /**
+     * @returns The project the rule selects, or null if it does not match
+     */
+    private async matchRule(
+        rule: ProjectRule,
+        file: TFile | null,
+        lineText: string,
+    ): Promise<string | null> {
+        const pattern = rule.pattern.trim();
+        switch (rule.type) {
+            case "frontmatter":
+                return file ? this.matchFrontmatter(rule, file) : null;
+            case "folder":
+                return file &&
+                    globToRegExp(pattern).test(file.parent?.path ?? "")
+                    ? rule.projectId || null
+                    : null;
+            case "tag": {
+                const tag = pattern.replace(/^#/, "").toLowerCase();
+                return this.TextParsing.extractTags(lineText).some(
+                    (lineTag) =>
+                        lineTag.toLowerCase() === tag ||
+                        lineTag.toLowerCase().startsWith(`${tag}/`),
+                )
+                    ? rule.projectId || null
+                    : null;
+            }
+            case "title":
+                return file && globToRegExp(pattern).test(file.basename)
+                    ? rule.projectId || null
+                    : null;
+        }
+    }
+
+    /**
+     * Matches "key" or "key=value" against the frontmatter of the note. Without a
+     * project in the rule, the frontmatter value names the project or is its ID.
+     */
+    private async matchFrontmatter(
+        rule: ProjectRule,
+        file: TFile,
+    ): Promise<string | null> {
+        const separator = rule.pattern.indexOf("=");
+        const key = (
+            separator < 0 ? rule.pattern : rule.pattern.slice(0, separator)
+        ).trim();
+        const expected =
+            separator < 0 ? null : rule.pattern.slice(separator + 1).trim();
+
+        const frontmatter =
+            this.app.metadataCache.getFileCache(file)?.frontmatter;
+        const rawValue = frontmatter?.[key];
+        const value = (Array.isArray(rawValue) ? rawValue[0] : rawValue)
+            ?.toString()
+            .trim();
+        if (!value) return null;
+        if (
+            expected !== null &&
+            value.toLowerCase() !== expected.toLowerCase()
+        ) {
+            return null;
+        }
+        if (rule.projectId) return rule.projectId;
+
+        const projects = await this.plugin.fetchProjects();
+        const project =
+            projects.find((p) => p.id === value) ??
+            projects.find((p) => p.name.toLowerCase() === value.toLowerCase());
+        return project?.id ?? null;
+    }
+}
@@ -0,0 +1,413 @@
+/**
+ * Converts between Tasks plugin recurrence rules (🔁, or a Dataview `[repeat::]` field)
+ * and Todoist recurring due strings.
+ *
+ * | Tasks plugin rule               | Todoist due string         |
+ * | ------------------------------- | -------------------------- |
+ * | every day / every 3 days        | every day / every 3 days   |
+ * | every weekday                   | every workday              |
+ * | every week / every 2 weeks      | every week / every 2 weeks |
+ * | every week on Monday, Friday    | every monday, friday       |
+ * | every 2 weeks on Monday         | every other monday         |
+ * | every month / every 6 months    | every month / every 6 months |
+ * | every month on the 15th         | every 15th                 |
+ * | every month on the last day     | every last day             |
+ * | every month on the 2nd Tuesday  | every 2nd tuesday          |
+ * | every month on the last Friday  | every last friday          |
+ * | every year / every 2 years      | every year / every 2 years |
+ * | every January on the 15th       | every january 15           |
+ * | ... when done                   | every! ...                 |
+ *
+ * Anything else, e.g. several weekdays every other week, an interval combined with a
+ * day of the month, or Todoist rules with an end date, cannot be expressed on the other
+ * side; callers fall back to the next due date only and warn the user.
+ */
+
+type RecurrenceUnit = "day" | "week" | "month" | "year";
+
+interface RecurrenceRule {
+    unit: RecurrenceUnit;
+    interval: number;
+    /** Monday to Friday, for "every weekday" */
+    workdays?: boolean;
+    weekdays?: string[];
+    monthDay?: number | "last";
+    nthWeekday?: { nth: number | "last"; weekday: string };
+    month?: string;
+    /** Repeat from the completion date instead of the due date */
+    whenDone: boolean;
+}
+
+const WEEKDAYS = [
+    "monday",
+    "tuesday",
+    "wednesday",
+    "thursday",
+    "friday",
+    "saturday",
+    "sunday",
+];
+
+const MONTHS = [
+    "january",
+    "february",
+    "march",
+    "april",
+    "may",
+    "june",
+    "july",
+    "august",
+    "september",
+    "october",
+    "november",
+    "december",
+];
+
+const ORDINAL_WORDS: Record<string, number> = {
+    first: 1,
+    second: 2,
+    third: 3,
+    fourth: 4,
+    fifth: 5,
+};
+
+const UNIT_ALIASES: Record<string, RecurrenceUnit> = {
+    daily: "day",
+    weekly: "week",
+    monthly: "month",
+    yearly: "year",
+    annually: "year",
+};
+
+export class RecurrenceProcessing {
+    /**
+     * Converts a Tasks plugin recurrence rule to a Todoist recurring due string
+     * @param rule The rule after the 🔁 marker, e.g. "every week on Monday"
+     * @returns The due string, or null if Todoist cannot express the rule
+     */
+    public static toTodoistRecurrence(rule: string): string | null {
+        const parsed = this.parseTasksRule(rule);
+        return parsed ? this.formatTodoistRule(parsed) : null;
+    }
+
+    /**
+     * Converts a Todoist recurring due string to a Tasks plugin recurrence rule
+     * @param dueString The `due.string` of a recurring Todoist task, e.g. "every monday"
+     * @returns The rule, or null if the Tasks plugin cannot express it
+     */
+    public static toTasksRecurrence(dueString: string): string | null {
+        const parsed = this.parseTodoistRule(dueString);
+        return parsed ? this.formatTasksRule(parsed) : null;
+    }
+
+    /**
+     * Builds the due string for creating a recurring task that starts on the given date
+     * @param recurrence A Todoist recurring due string
+     * @param dueDate The first due date in YYYY-MM-DD[THH:mm] format, if any
+     */
+    public static toTodoistDueString(
+        recurrence: string,
+        dueDate: string | null,
+    ): string {
+        if (!dueDate) {
+            return recurrence;
+        }
+        const [date, time] = dueDate.split("T");
+        return time
+            ? `${recurrence} at ${time} starting ${date}`
+            : `${recurrence} starting ${date}`;
+    }
+
+    private static parseTasksRule(rule: string): RecurrenceRule | null {
+        let text = this.normalize(rule);
+        const whenDone = /\s+when done$/.test(text);
+        text = text.replace(/\s+when done$/, "");
+
+        if (text === "every weekday") {
+            return { unit: "day", interval: 1, workdays: true, whenDone };
+        }
+
+        // "every January on the 15th"
+        const yearlyMatch = text.match(
+            /^every (\w+)(?: on the (\d{1,2})(?:st|nd|rd|th)?)?$/,
+        );
+        const month = yearlyMatch
+            ? this.findName(MONTHS, yearlyMatch[1])
+            : null;
+        if (yearlyMatch && month) {
+            return {
+                unit: "year",
+                interval: 1,
+                month,
+                monthDay: yearlyMatch[2] ? parseInt(yearlyMatch[2]) : undefined,
+                whenDone,
+            };
+        }
+
+        const match = text.match(
+            /^every (?:(\d+|other) )?(days?|weeks?|months?|years?)(?: on (.+))?$/,
+        );
+        if (!match) {
+            // "every Monday, Friday" without "week on"
+            const weekdays = text.startsWith("every ")
+                ? this.parseWeekdays(text.slice("every ".length))
+                : null;
+            return weekdays
+                ? { unit: "week", interval: 1, weekdays, whenDone }
+                : null;
+        }
+
+        const parsed: RecurrenceRule = {
+            unit: match[2].replace(/s$/, "") as RecurrenceUnit,
+            interval: this.parseInterval(match[1]),
+            whenDone,
+        };
+        const on = match[3];
+        if (!on) {
+            return parsed;
+        }
+
+        if (parsed.unit === "week") {
+            const weekdays = this.parseWeekdays(on);
+            return weekdays ? { ...parsed, weekdays } : null;
+        }
+        if (parsed.unit === "month") {
+            return this.parseMonthDay(on.replace(/^the /, ""), parsed);
+        }
+        return null;
+    }
+
+    private static parseTodoistRule(dueString: string): RecurrenceRule | null {
+        let text = this.normalize(dueString);
+
+        // Rules that end are not supported by the Tasks plugin
+        if (/\b(?:until|ending|for \d+)\b/.test(text)) {
+            return null;
+        }
+        // The start date and time are carried by the due date itself
+        text = text.replace(/\s+(?:starting|from) .*$/, "");
+        text = text.replace(/\s+at \d{1,2}(?::\d{2})?\s*(?:am|pm)?$/, "");
+
+        const alias = UNIT_ALIASES[text];
+        if (alias) {
+            return { unit: alias, interval: 1, whenDone: false };
+        }
+
+        const everyMatch = text.match(/^(?:every|ev)(!?)\s+(.+)$/);
+        if (!everyMatch) {
+            return null;
+        }
+        const whenDone = everyMatch[1] === "!";
+        const body = everyMatch[2];
+
+        if (/^(?:workday|weekday|work day)s?$/.test(body)) {
+            return { unit: "day", interval: 1, workdays: true, whenDone };
+        }
+
+        const unitMatch = body.match(
+            /^(?:(\d+|other) )?(days?|weeks?|months?|years?)$/,
+        );
+        if (unitMatch) {
+            return {
+                unit: unitMatch[2].replace(/s$/, "") as RecurrenceUnit,
+                interval: this.parseInterval(unitMatch[1]),
+                whenDone,
+            };
+        }
+
+        // "every monday, friday" and "every other monday"
+        const otherMatch = body.match(/^other (.+)$/);
+        const weekdays = this.parseWeekdays(otherMatch ? otherMatch[1] : body);
+        if (weekdays) {
+            return {
+                unit: "week",
+                interval: otherMatch ? 2 : 1,
+                weekdays,
+                whenDone,
+            };
+        }
+
+        // "every january 15" and "every 15 january"
+        const monthFirst = body.match(/^(\w+) (\d{1,2})(?:st|nd|rd|th)?$/);
+        const dayFirst = body.match(/^(\d{1,2})(?:st|nd|rd|th)? (\w+)$/);
+        const monthText = monthFirst?.[1] ?? dayFirst?.[2];
+        const dayText = monthFirst?.[2] ?? dayFirst?.[1];
+        const month = monthText ? this.findName(MONTHS, monthText) : null;
+        if (month && dayText) {
+            return {
+                unit: "year",
+                interval: 1,
+                month,
+                monthDay: parseInt(dayText),
+                whenDone,
+            };
+        }
+
+        return this.parseMonthDay(body, {
+            unit: "month",
+            interval: 1,
+            whenDone,
+        });
+    }
+
+    private static formatTodoistRule(rule: RecurrenceRule): string | null {
+        const every = rule.whenDone ? "every!" : "every";
+        const units = (unit: string) =>
+            rule.interval === 1
+                ? `${every} ${unit}`
+                : `${every} ${rule.interval} ${unit}s`;
+
+        switch (rule.unit) {
+            case "day":
+                return rule.workdays ? `${every} workday` : units("day");
+            case "week":
+                if (!rule.weekdays) return units("week");
+                if (rule.interval === 1) {
+                    return `${every} ${rule.weekdays.join(", ")}`;
+                }
+                if (rule.interval === 2 && rule.weekdays.length === 1) {
+                    return `${every} other ${rule.weekdays[0]}`;
+                }
+                return null;
+            case "month":
+                if (rule.monthDay === undefined && !rule.nthWeekday) {
+                    return units("month");
+                }
+                if (rule.interval !== 1) return null;
+                if (rule.monthDay === "last") return `${every} last day`;
+                if (rule.monthDay !== undefined) {
+                    return `${every} ${this.ordinal(rule.monthDay)}`;
+                }
+                return rule.nthWeekday
+                    ? `${every} ${this.formatNth(rule.nthWeekday.nth)} ${rule.nthWeekday.weekday}`
+                    : null;
+            case "year":
+                if (!rule.month) return units("year");
+                return typeof rule.monthDay === "number"
+                    ? `${every} ${rule.month} ${rule.monthDay}`
+                    : null;
+        }
+    }
+
+    private static formatTasksRule(rule: RecurrenceRule): string | null {
+        const units = (unit: string) =>
+            rule.interval === 1
+                ? `every ${unit}`
+                : `every ${rule.interval} ${unit}s`;
+        let text: string | null = null;
+
+        switch (rule.unit) {
+            case "day":
+                text = rule.workdays ? "every weekday" : units("day");
+                break;
+            case "week":
+                text = units("week");
+                if (rule.weekdays) {
+                    text += ` on ${rule.weekdays.map(this.capitalize).join(", ")}`;
+                }
+                break;
+            case "month":
+                text = units("month");
+                if (rule.monthDay === "last") {
+                    text += " on the last day";
+                } else if (rule.monthDay !== undefined) {
+                    text += ` on the ${this.ordinal(rule.monthDay)}`;
+                } else if (rule.nthWeekday) {
+                    text += ` on the ${this.formatNth(rule.nthWeekday.nth)} ${this.capitalize(rule.nthWeekday.weekday)}`;
+                }
+                break;
+            case "year":
+                if (!rule.month) {
+                    text = units("year");
+                } else if (typeof rule.monthDay === "number") {
+                    text = `every ${this.capitalize(rule.month)} on the ${this.ordinal(rule.monthDay)}`;
+                }
+                break;
+        }
+
+        return text && rule.whenDone ? `${text} when done` : text;
+    }
+
+    /**
+     * Parses "15th", "last day", "2nd tuesday" or "last friday" into a monthly rule
+     */
+    private static parseMonthDay(
+        text: string,
+        rule: RecurrenceRule,
+    ): RecurrenceRule | null {
+        if (text === "last day" || text === "last") {
+            return { ...rule, monthDay: "last" };
+        }
+
+        const dayMatch = text.match(/^(\d{1,2})(?:st|nd|rd|th)$/);
+        if (dayMatch) {
+            return { ...rule, monthDay: parseInt(dayMatch[1]) };
+        }
+
+        const nthMatch = text.match(
+            /^(\d)(?:st|nd|rd|th)? (\w+)$|^(first|second|third|fourth|fifth|last) (\w+)$/,
+        );
+        if (!nthMatch) {
+            return null;
+        }
+        const nthText = nthMatch[1] ?? nthMatch[3];
+        const weekday = this.findName(WEEKDAYS, nthMatch[2] ?? nthMatch[4]);
+        if (!weekday) {
+            return null;
+        }
+        const nth =
+            nthText === "last"
+                ? "last"
+                : (ORDINAL_WORDS[nthText] ?? parseInt(nthText));
+        return { ...rule, nthWeekday: { nth, weekday } };
+    }
+
+    /**
+     * Parses a list such as "monday, wednesday and friday"
+     * @returns Full weekday names, or null if any item is not a weekday
+     */
+    private static parseWeekdays(text: string): string[] | null {
+        const names = text
+            .split(/\s*,\s*|\s+and\s+/)
+            .map((name) => this.findName(WEEKDAYS, name));
+        return names.length > 0 && names.every((name) => name !== null)
+            ? (names as string[])
+            : null;
+    }
+
+    /**
+     * Matches a full or abbreviated (at least three letters) weekday or month name
+     */
+    private static findName(names: string[], text: string): string | null {
+        if (text.length < 3) return null;
+        return names.find((name) => name.startsWith(text)) ?? null;
+    }
+
+    private static parseInterval(text: string | undefined): number {
+        if (!text) return 1;
+        return text === "other" ? 2 : parseInt(text);
+    }
+
+    private static normalize(text: string): string {
+        return text
+            .toLowerCase()
+            .replace(/\s+/g, " ")
+            .replace(/[.;]+$/, "")
+            .trim();
+    }
+
+    private static formatNth(nth: number | "last"): string {
+        return nth === "last" ? "last" : this.ordinal(nth);
+    }
+
+    private static ordinal(value: number): string {
+        const lastTwo = value % 100;
+        if (lastTwo >= 11 && lastTwo <= 13) return `${value}th`;
+        const suffixes: Record<number, string> = { 1: "st", 2: "nd", 3: "rd" };
+        return `${value}${suffixes[value % 10] ?? "th"}`;
+    }
+
+    private static capitalize(text: string): string {
+        return text.charAt(0).toUpperCase() + text.slice(1);
+    }
+}
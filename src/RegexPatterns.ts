@@ -2,6 +2,15 @@
  * Regular expression patterns used across the plugin
  */
 export class RegexPatterns {
+    /**
+     * Escape special regex characters, so that user-supplied text matches literally
+     * @param text The text to place in a pattern
+     * @returns The escaped text
+     */
+    public static escape(text: string): string {
+        return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    }
+
     /**
      * Create a regex pattern for matching Tasks plugin date markers
      * @param markers Comma-separated list of emoji markers
@@ -5,9 +5,13 @@ import {
     Setting,
     DropdownComponent,
     Notice,
+    TFile,
 } from "obsidian";
 import { TextParsing } from "./TextParsing";
 import { fetchAllPages } from "./TodoistPaginationHelper";
+import { CheckboxStatusMapping, ProjectRule } from "./Settings";
+import { ProjectRuleEvaluator } from "./ProjectRules";
+import { DateProcessing } from "./DateProcessing";
 
 export class TodoistContextBridgeSettingTab extends PluginSettingTab {
     plugin: TodoistContextBridgePlugin;
@@ -49,12 +53,9 @@ export class TodoistContextBridgeSettingTab extends PluginSettingTab {
         // Initialize dropdown with current projects if API is available
         const initializeDropdown = async () => {
             if (!this.plugin.todoistApi || !this.projectsDropdown) return;
-            const api = this.plugin.todoistApi;
 
             try {
-                const projects = await fetchAllPages((args) =>
-                    api.getProjects(args),
-                );
+                const projects = await this.plugin.fetchProjects();
                 if (projects && this.projectsDropdown) {
                     this.projectsDropdown.selectEl.empty();
                     // this.projectsDropdown.addOption('', 'Inbox (Default)');
@@ -114,6 +115,8 @@ export class TodoistContextBridgeSettingTab extends PluginSettingTab {
                             result.projects,
                         );
                     }
+                    // Start from a full sync in case the token belongs to another account
+                    await this.plugin.syncClient.reset();
                     // Initialize Todoist services
                     await this.plugin.initializeTodoistServices();
                     new Notice("Todoist token verified successfully!");
@@ -125,6 +128,102 @@ export class TodoistContextBridgeSettingTab extends PluginSettingTab {
             }),
         );
 
+        // Project Rules Subsection
+        new Setting(this.containerEl)
+            .setName("Project rules")
+            .setDesc(
+                "Rules that pick the project, section and labels of new tasks before the task modal opens. The first matching rule wins; without a match the default project is used.",
+            )
+            .setClass("setting-subsection-heading");
+
+        const projectRulesEl = this.containerEl.createDiv();
+        this.renderProjectRules(projectRulesEl);
+
+        new Setting(this.containerEl).addButton((button) =>
+            button.setButtonText("Add rule").onClick(async () => {
+                this.plugin.settings.projectRules = [
+                    ...this.plugin.settings.projectRules,
+                    {
+                        type: "folder",
+                        pattern: "",
+                        projectId: "",
+                        section: "",
+                        labels: "",
+                    },
+                ];
+                await this.plugin.saveSettings();
+                this.renderProjectRules(projectRulesEl);
+            }),
+        );
+
+        // Rule tester
+        let testNotePath = "";
+        let testTaskLine = "";
+        const ruleTestSetting = new Setting(this.containerEl)
+            .setName("Test project rules")
+            .setDesc(
+                "Enter a note path and a task line to see which rule matches",
+            )
+            .addText((text) =>
+                text
+                    .setPlaceholder("Projects/Work/Plan.md")
+                    .onChange((value) => {
+                        testNotePath = value.trim();
+                    }),
+            )
+            .addText((text) =>
+                text.setPlaceholder("- [ ] Task #work").onChange((value) => {
+                    testTaskLine = value;
+                }),
+            )
+            .addButton((button) =>
+                button.setButtonText("Test").onClick(async () => {
+                    const abstractFile = testNotePath
+                        ? this.app.vault.getAbstractFileByPath(testNotePath)
+                        : null;
+                    const file =
+                        abstractFile instanceof TFile ? abstractFile : null;
+                    if (testNotePath && !file) {
+                        ruleTestSetting.setDesc(
+                            `No note found at "${testNotePath}"`,
+                        );
+                        return;
+                    }
+
+                    try {
+                        const match = await new ProjectRuleEvaluator(
+                            this.app,
+                            this.plugin.settings,
+                            this.plugin,
+                        ).findMatch(file, testTaskLine);
+                        if (!match) {
+                            ruleTestSetting.setDesc(
+                                "No rule matches, the default project is used",
+                            );
+                            return;
+                        }
+
+                        const projects = await this.plugin.fetchProjects();
+                        const projectName =
+                            projects.find((p) => p.id === match.projectId)
+                                ?.name ?? match.projectId;
+                        const details = [`project "${projectName}"`];
+                        if (match.section) {
+                            details.push(`section "${match.section}"`);
+                        }
+                        if (match.labels.length > 0) {
+                            details.push(`labels ${match.labels.join(", ")}`);
+                        }
+                        ruleTestSetting.setDesc(
+                            `Rule ${match.position} matches: ${details.join(", ")}`,
+                        );
+                    } catch (error) {
+                        console.error("Failed to test project rules:", error);
+                        ruleTestSetting.setDesc("Failed to test the rules");
+                    }
+                }),
+            );
+
         // Allow Syncing Duplicate Tasks Setting
         new Setting(this.containerEl)
             .setName("Allow syncing duplicate tasks")
@@ -153,6 +252,103 @@ export class TodoistContextBridgeSettingTab extends PluginSettingTab {
                     }),
             );
 
+        // Subtask Sync Setting
+        new Setting(this.containerEl)
+            .setName("Sync subtasks")
+            .setDesc(
+                "When syncing a task to Todoist, also create its open indented child tasks as Todoist subtasks. When syncing a task from Todoist, also add its open subtasks as indented child tasks.",
+            )
+            .addToggle((toggle) =>
+                toggle
+                    .setValue(this.plugin.settings.syncSubtasks)
+                    .onChange(async (value) => {
+                        this.plugin.settings.syncSubtasks = value;
+                        await this.plugin.saveSettings();
+                    }),
+            );
+
+        // Sections Subsection
+        new Setting(this.containerEl)
+            .setName("Sections")
+            .setClass("setting-subsection-heading");
+
+        new Setting(this.containerEl)
+            .setName("Map headings to sections")
+            .setDesc(
+                "When syncing a task to Todoist, preselect the section named like the nearest heading above the task",
+            )
+            .addToggle((toggle) =>
+                toggle
+                    .setValue(this.plugin.settings.mapHeadingsToSections)
+                    .onChange(async (value) => {
+                        this.plugin.settings.mapHeadingsToSections = value;
+                        await this.plugin.saveSettings();
+                    }),
+            );
+
+        new Setting(this.containerEl)
+            .setName("Create missing sections")
+            .setDesc(
+                "Create the section in the selected project if none is named like the heading",
+            )
+            .addToggle((toggle) =>
+                toggle
+                    .setValue(this.plugin.settings.createMissingSections)
+                    .onChange(async (value) => {
+                        this.plugin.settings.createMissingSections = value;
+                        await this.plugin.saveSettings();
+                    }),
+            );
+
+        new Setting(this.containerEl)
+            .setName("Dataview section key")
+            .setDesc(
+                "Key for the Todoist section added to tasks synced from Todoist, e.g. [section::Planning]. Leave empty to leave the section out.",
+            )
+            .addText((text) =>
+                text
+                    .setPlaceholder("section")
+                    .setValue(this.plugin.settings.dataviewSectionKey)
+                    .onChange(async (value) => {
+                        this.plugin.settings.dataviewSectionKey = value;
+                        await this.plugin.saveSettings();
+                    }),
+            );
+
+        // Assignees Subsection
+        new Setting(this.containerEl)
+            .setName("Assignees")
+            .setClass("setting-subsection-heading");
+
+        new Setting(this.containerEl)
+            .setName("Dataview assignee key")
+            .setDesc(
+                "Key for the assignee of tasks in shared projects, e.g. [assignee::Alex]. Tasks with this field are assigned in Todoist, and tasks synced from Todoist get it. Leave empty to leave the assignee out.",
+            )
+            .addText((text) =>
+                text
+                    .setPlaceholder("assignee")
+                    .setValue(this.plugin.settings.dataviewAssigneeKey)
+                    .onChange(async (value) => {
+                        this.plugin.settings.dataviewAssigneeKey = value;
+                        await this.plugin.saveSettings();
+                    }),
+            );
+
+        new Setting(this.containerEl)
+            .setName("Assign with @mentions")
+            .setDesc(
+                "Treat @name in the task text as the assignee, e.g. @alex. Turn this off if you use @ for other purposes.",
+            )
+            .addToggle((toggle) =>
+                toggle
+                    .setValue(this.plugin.settings.parseAssigneeMentions)
+                    .onChange(async (value) => {
+                        this.plugin.settings.parseAssigneeMentions = value;
+                        await this.plugin.saveSettings();
+                    }),
+            );
+
         // Task Due Date Section
         new Setting(this.containerEl).setName("Task due date").setHeading();
 
@@ -196,6 +392,29 @@ export class TodoistContextBridgeSettingTab extends PluginSettingTab {
                     }),
             );
 
+        new Setting(this.containerEl)
+            .setName("Time zone")
+            .setDesc(
+                'Time zone for the times of Todoist tasks fixed to a time zone, e.g. "Europe/Berlin". Leave empty for the system time zone. In task lines, add a zone or offset to a time to fix it, e.g. 2025-01-31T09:00 America/New_York or 2025-01-31T09:00+01:00; times without one are floating.',
+            )
+            .addText((text) =>
+                text
+                    .setPlaceholder("Europe/Berlin")
+                    .setValue(this.plugin.settings.timezone)
+                    .onChange(async (value) => {
+                        const timezone = value.trim();
+                        const isValid =
+                            !timezone ||
+                            DateProcessing.isValidTimezone(timezone);
+                        text.inputEl.style.borderColor = isValid
+                            ? ""
+                            : "var(--text-error)";
+                        if (!isValid) return;
+                        this.plugin.settings.timezone = timezone;
+                        await this.plugin.saveSettings();
+                    }),
+            );
+
         // Dataview Due Date Settings
         const dataviewDueDateHeading = new Setting(this.containerEl)
             .setName("Due date for Dataview")
@@ -216,6 +435,21 @@ export class TodoistContextBridgeSettingTab extends PluginSettingTab {
                     }),
             );
 
+        new Setting(this.containerEl)
+            .setName("Dataview recurrence key")
+            .setDesc(
+                'Key for recurrence rules in Dataview format (e.g., "repeat" for [repeat::every week]). Rules use the same wording as the Tasks plugin 🔁 marker.',
+            )
+            .addText((text) =>
+                text
+                    .setPlaceholder("repeat")
+                    .setValue(this.plugin.settings.dataviewRecurrenceKey)
+                    .onChange(async (value) => {
+                        this.plugin.settings.dataviewRecurrenceKey = value;
+                        await this.plugin.saveSettings();
+                    }),
+            );
+
         // Tasks Plugin Due Date Settings
         const tasksPluginDueDateHeading = new Setting(this.containerEl)
             .setName("Due date for Tasks plugin")
@@ -263,6 +497,145 @@ export class TodoistContextBridgeSettingTab extends PluginSettingTab {
             ? "flex"
             : "none";
 
+        // Scheduled and Start Date Settings
+        new Setting(this.containerEl)
+            .setName("Scheduled and start dates")
+            .setClass("setting-subsection-heading");
+
+        new Setting(this.containerEl)
+            .setName("Dataview scheduled date key")
+            .setDesc(
+                'Key for scheduled dates in Dataview format (e.g., "scheduled" for [scheduled::YYYY-MM-DD]). Tasks plugin scheduled dates use ⏳.',
+            )
+            .addText((text) =>
+                text
+                    .setPlaceholder("scheduled")
+                    .setValue(this.plugin.settings.dataviewScheduledDateKey)
+                    .onChange(async (value) => {
+                        this.plugin.settings.dataviewScheduledDateKey = value;
+                        await this.plugin.saveSettings();
+                    }),
+            );
+
+        new Setting(this.containerEl)
+            .setName("Dataview start date key")
+            .setDesc(
+                'Key for start dates in Dataview format (e.g., "start" for [start::YYYY-MM-DD]). Tasks plugin start dates use 🛫.',
+            )
+            .addText((text) =>
+                text
+                    .setPlaceholder("start")
+                    .setValue(this.plugin.settings.dataviewStartDateKey)
+                    .onChange(async (value) => {
+                        this.plugin.settings.dataviewStartDateKey = value;
+                        await this.plugin.saveSettings();
+                    }),
+            );
+
+        const dateTargets: {
+            key: "dueDateTarget" | "scheduledDateTarget" | "startDateTarget";
+            name: string;
+        }[] = [
+            { key: "dueDateTarget", name: "Sync due date to" },
+            { key: "scheduledDateTarget", name: "Sync scheduled date to" },
+            { key: "startDateTarget", name: "Sync start date to" },
+        ];
+        for (const { key, name } of dateTargets) {
+            new Setting(this.containerEl)
+                .setName(name)
+                .setDesc(
+                    "Todoist field this date is written to when creating tasks, and read back from when syncing tasks to Obsidian",
+                )
+                .addDropdown((dropdown) =>
+                    dropdown
+                        .addOption("due", "Todoist due date")
+                        .addOption("deadline", "Todoist deadline")
+                        .addOption("none", "Don't sync")
+                        .setValue(this.plugin.settings[key])
+                        .onChange(
+                            async (value: "due" | "deadline" | "none") => {
+                                this.plugin.settings[key] = value;
+                                await this.plugin.saveSettings();
+                            },
+                        ),
+                );
+        }
+
+        new Setting(this.containerEl)
+            .setName("Date precedence")
+            .setDesc(
+                "Which date wins when several dates of a task are synced to the same Todoist field",
+            )
+            .addDropdown((dropdown) =>
+                dropdown
+                    .addOption("due,scheduled,start", "Due, scheduled, start")
+                    .addOption("due,start,scheduled", "Due, start, scheduled")
+                    .addOption("scheduled,due,start", "Scheduled, due, start")
+                    .addOption("scheduled,start,due", "Scheduled, start, due")
+                    .addOption("start,due,scheduled", "Start, due, scheduled")
+                    .addOption("start,scheduled,due", "Start, scheduled, due")
+                    .setValue(this.plugin.settings.datePrecedence)
+                    .onChange(async (value) => {
+                        this.plugin.settings.datePrecedence = value;
+                        await this.plugin.saveSettings();
+                    }),
+            );
+
+        // Deadline Settings
+        new Setting(this.containerEl)
+            .setName("Deadline")
+            .setClass("setting-subsection-heading");
+
+        new Setting(this.containerEl)
+            .setName("Dataview deadline key")
+            .setDesc(
+                'Key for Todoist deadlines in Dataview format (e.g., "deadline" for [deadline::YYYY-MM-DD]). Used when no other date is synced to the Todoist deadline.',
+            )
+            .addText((text) =>
+                text
+                    .setPlaceholder("deadline")
+                    .setValue(this.plugin.settings.dataviewDeadlineKey)
+                    .onChange(async (value) => {
+                        this.plugin.settings.dataviewDeadlineKey = value;
+                        await this.plugin.saveSettings();
+                    }),
+            );
+
+        new Setting(this.containerEl)
+            .setName("Tasks plugin deadline marker")
+            .setDesc(
+                "Emoji marking Todoist deadlines in Tasks plugin format (e.g., 🎯 for 🎯 YYYY-MM-DD). Leave empty to use the Dataview key only.",
+            )
+            .addText((text) =>
+                text
+                    .setPlaceholder("🎯")
+                    .setValue(this.plugin.settings.tasksPluginDeadlineEmoji)
+                    .onChange(async (value) => {
+                        this.plugin.settings.tasksPluginDeadlineEmoji = value;
+                        await this.plugin.saveSettings();
+                    }),
+            );
+
+        // Duration Settings
+        new Setting(this.containerEl)
+            .setName("Duration")
+            .setClass("setting-subsection-heading");
+
+        new Setting(this.containerEl)
+            .setName("Dataview duration key")
+            .setDesc(
+                'Key for task durations in Dataview format (e.g., "duration" for [duration::45m], [duration::1h30m] or [duration::2d]). Durations are synced to Todoist for tasks with a due date.',
+            )
+            .addText((text) =>
+                text
+                    .setPlaceholder("duration")
+                    .setValue(this.plugin.settings.dataviewDurationKey)
+                    .onChange(async (value) => {
+                        this.plugin.settings.dataviewDurationKey = value;
+                        await this.plugin.saveSettings();
+                    }),
+            );
+
         // Task Priority Section
         new Setting(this.containerEl).setName("Task priority").setHeading();
 
@@ -592,6 +965,49 @@ export class TodoistContextBridgeSettingTab extends PluginSettingTab {
                     }),
             );
 
+        // Links in Task Text Settings
+        new Setting(this.containerEl)
+            .setName("Links in task text")
+            .setClass("setting-subsection-heading");
+
+        new Setting(this.containerEl)
+            .setName("Link conversion")
+            .setDesc(
+                "How wikilinks and Markdown links to notes in the task text are sent to Todoist. Links that do not resolve to a note in the vault always become plain text.",
+            )
+            .addDropdown((dropdown) =>
+                dropdown
+                    .addOption("obsidian", "Obsidian links")
+                    .addOption("advanced-uri", "Advanced URI links")
+                    .addOption("text", "Plain text")
+                    .addOption("off", "Keep unchanged")
+                    .setValue(this.plugin.settings.taskLinkConversion)
+                    .onChange(
+                        async (
+                            value: "obsidian" | "advanced-uri" | "text" | "off",
+                        ) => {
+                            this.plugin.settings.taskLinkConversion = value;
+                            await this.plugin.saveSettings();
+                        },
+                    ),
+            );
+
+        new Setting(this.containerEl)
+            .setName("Embeds")
+            .setDesc(
+                "Describe embeds in the task text, e.g. ![[chart.png]] as chart.png (embedded), or remove them.",
+            )
+            .addDropdown((dropdown) =>
+                dropdown
+                    .addOption("describe", "Describe")
+                    .addOption("strip", "Remove")
+                    .setValue(this.plugin.settings.taskEmbedHandling)
+                    .onChange(async (value: "describe" | "strip") => {
+                        this.plugin.settings.taskEmbedHandling = value;
+                        await this.plugin.saveSettings();
+                    }),
+            );
+
         // Task Tagging Settings
         new Setting(this.containerEl).setName("Task tagging").setHeading();
 
@@ -764,6 +1180,96 @@ export class TodoistContextBridgeSettingTab extends PluginSettingTab {
             ? "flex"
             : "none";
 
+        new Setting(this.containerEl)
+            .setName("Sync tags as Todoist labels")
+            .setDesc(
+                "Convert tags on the task line, including nested tags like #area/work, to Todoist labels when creating tasks. Missing labels are created in Todoist. Labels of imported tasks are added back as tags.",
+            )
+            .addToggle((toggle) =>
+                toggle
+                    .setValue(this.plugin.settings.enableTagLabelSync)
+                    .onChange(async (value) => {
+                        this.plugin.settings.enableTagLabelSync = value;
+                        tagLabelSettings.forEach((setting) => {
+                            setting.settingEl.style.display = value
+                                ? "flex"
+                                : "none";
+                        });
+                        await this.plugin.saveSettings();
+                    }),
+            );
+
+        const tagLabelSettings = [
+            new Setting(this.containerEl)
+                .setName("Tag to label mapping")
+                .setDesc(
+                    'One mapping per line as "tag: label", e.g. "area/work: Work". Other tags keep their name as label.',
+                )
+                .addTextArea((text) => {
+                    text.setPlaceholder("area/work: Work")
+                        .setValue(
+                            Object.entries(this.plugin.settings.tagLabelMapping)
+                                .map(([tag, label]) => `${tag}: ${label}`)
+                                .join("\n"),
+                        )
+                        .onChange(async (value) => {
+                            const mapping: { [tag: string]: string } = {};
+                            value.split("\n").forEach((line) => {
+                                const separator = line.indexOf(":");
+                                if (separator < 0) return;
+                                const tag = line
+                                    .slice(0, separator)
+                                    .trim()
+                                    .replace(/^#/, "");
+                                const label = line.slice(separator + 1).trim();
+                                if (tag && label) {
+                                    mapping[tag] = label;
+                                }
+                            });
+                            this.plugin.settings.tagLabelMapping = mapping;
+                            await this.plugin.saveSettings();
+                        });
+                    text.inputEl.rows = 4;
+                    text.inputEl.cols = 50;
+                    return text;
+                }),
+            new Setting(this.containerEl)
+                .setName("Tags to convert")
+                .setDesc(
+                    "Comma-separated tags to convert to labels. Leave empty to convert all tags. Parent tags include their nested tags.",
+                )
+                .addText((text) =>
+                    text
+                        .setPlaceholder("area, project")
+                        .setValue(this.plugin.settings.tagLabelAllowList)
+                        .onChange(async (value) => {
+                            this.plugin.settings.tagLabelAllowList = value;
+                            await this.plugin.saveSettings();
+                        }),
+                ),
+            new Setting(this.containerEl)
+                .setName("Tags to skip")
+                .setDesc(
+                    "Comma-separated tags never converted to labels. Parent tags include their nested tags.",
+                )
+                .addText((text) =>
+                    text
+                        .setPlaceholder("status, daily")
+                        .setValue(this.plugin.settings.tagLabelDenyList)
+                        .onChange(async (value) => {
+                            this.plugin.settings.tagLabelDenyList = value;
+                            await this.plugin.saveSettings();
+                        }),
+                ),
+        ];
+
+        tagLabelSettings.forEach((setting) => {
+            setting.settingEl.style.display = this.plugin.settings
+                .enableTagLabelSync
+                ? "flex"
+                : "none";
+        });
+
         // Text Cleanup Section
         new Setting(this.containerEl)
             .setName("Text cleanup")
@@ -918,6 +1424,153 @@ export class TodoistContextBridgeSettingTab extends PluginSettingTab {
                 return text;
             });
 
+        // Completion Status Sync Section
+        new Setting(this.containerEl)
+            .setName("Completion status sync")
+            .setHeading();
+
+        new Setting(this.containerEl)
+            .setName("Source of truth")
+            .setDesc(
+                "Choose which side wins when an Obsidian checkbox and its linked Todoist task have different completion status. 'Obsidian' closes or reopens the Todoist task. 'Todoist' checks or unchecks the Obsidian task. 'Completed wins' completes whichever side is still open and never reopens a task.",
+            )
+            .addDropdown((dropdown) =>
+                dropdown
+                    .addOption("completed", "Completed wins")
+                    .addOption("obsidian", "Obsidian")
+                    .addOption("todoist", "Todoist")
+                    .setValue(this.plugin.settings.completionSyncSourceOfTruth)
+                    .onChange(
+                        async (value: "obsidian" | "todoist" | "completed") => {
+                            this.plugin.settings.completionSyncSourceOfTruth =
+                                value;
+                            await this.plugin.saveSettings();
+                        },
+                    ),
+            );
+
+        // Checkbox Statuses Subsection
+        new Setting(this.containerEl)
+            .setName("Checkbox statuses")
+            .setDesc(
+                "Sync custom checkbox statuses such as [/] or [-]. 'Label' and 'Project' keep the Todoist task open with a label or in a project, and a label or project added in Todoist sets the checkbox. 'Close' completes and 'Delete' deletes the linked Todoist task; deleting asks for confirmation and is left out of background sync. Other statuses are not synced.",
+            )
+            .setClass("setting-subsection-heading");
+
+        const statusMappingsEl = this.containerEl.createDiv();
+        this.renderStatusMappings(statusMappingsEl);
+
+        new Setting(this.containerEl).addButton((button) =>
+            button.setButtonText("Add status").onClick(async () => {
+                this.plugin.settings.checkboxStatusMappings = [
+                    ...this.plugin.settings.checkboxStatusMappings,
+                    { symbol: "", action: "label", value: "" },
+                ];
+                await this.plugin.saveSettings();
+                this.renderStatusMappings(statusMappingsEl);
+            }),
+        );
+
+        // Conflict Resolution Section
+        new Setting(this.containerEl)
+            .setName("Conflict resolution")
+            .setHeading();
+
+        new Setting(this.containerEl)
+            .setName("When both sides changed")
+            .setDesc(
+                "Choose what happens when a task's title, due date, priority or completion status was changed in both Obsidian and Todoist since the last sync. 'Ask' shows both versions side by side; background sync leaves such tasks untouched until you update or refresh them.",
+            )
+            .addDropdown((dropdown) =>
+                dropdown
+                    .addOption("ask", "Ask")
+                    .addOption("newest", "Newest change wins")
+                    .addOption("obsidian", "Obsidian wins")
+                    .addOption("todoist", "Todoist wins")
+                    .setValue(this.plugin.settings.conflictResolutionPolicy)
+                    .onChange(
+                        async (
+                            value: "obsidian" | "todoist" | "newest" | "ask",
+                        ) => {
+                            this.plugin.settings.conflictResolutionPolicy =
+                                value;
+                            await this.plugin.saveSettings();
+                        },
+                    ),
+            );
+
+        // Background Sync Section
+        new Setting(this.containerEl).setName("Background sync").setHeading();
+
+        new Setting(this.containerEl)
+            .setName("Enable background sync")
+            .setDesc(
+                "Periodically reconcile all linked tasks in the vault with Todoist without opening the notes. Changes made on either side since the last sync are copied to the other; tasks that were never synced take their title, due date and priority from Todoist.",
+            )
+            .addToggle((toggle) =>
+                toggle
+                    .setValue(this.plugin.settings.enableBackgroundSync)
+                    .onChange(async (value) => {
+                        this.plugin.settings.enableBackgroundSync = value;
+                        await this.plugin.saveSettings();
+                    }),
+            );
+
+        new Setting(this.containerEl)
+            .setName("Sync interval")
+            .setDesc("Minutes between background sync runs (minimum 1)")
+            .addText((text) =>
+                text
+                    .setPlaceholder("15")
+                    .setValue(
+                        this.plugin.settings.backgroundSyncInterval.toString(),
+                    )
+                    .onChange(async (value) => {
+                        const minutes = parseInt(value, 10);
+                        if (isNaN(minutes) || minutes < 1) return;
+                        this.plugin.settings.backgroundSyncInterval = minutes;
+                        await this.plugin.saveSettings();
+                    }),
+            );
+
+        new Setting(this.containerEl)
+            .setName("Sync on startup")
+            .setDesc("Run a background sync once Obsidian has finished loading")
+            .addToggle((toggle) =>
+                toggle
+                    .setValue(this.plugin.settings.backgroundSyncOnStartup)
+                    .onChange(async (value) => {
+                        this.plugin.settings.backgroundSyncOnStartup = value;
+                        await this.plugin.saveSettings();
+                    }),
+            );
+
+        new Setting(this.containerEl)
+            .setName("Sync on file open")
+            .setDesc("Reconcile the linked tasks of a note when it is opened")
+            .addToggle((toggle) =>
+                toggle
+                    .setValue(this.plugin.settings.backgroundSyncOnFileOpen)
+                    .onChange(async (value) => {
+                        this.plugin.settings.backgroundSyncOnFileOpen = value;
+                        await this.plugin.saveSettings();
+                    }),
+            );
+
+        new Setting(this.containerEl)
+            .setName("Pause background sync")
+            .setDesc(
+                "Temporarily stop background sync without turning it off. You can also click the status bar item.",
+            )
+            .addToggle((toggle) =>
+                toggle
+                    .setValue(this.plugin.settings.backgroundSyncPaused)
+                    .onChange(async (value) => {
+                        this.plugin.settings.backgroundSyncPaused = value;
+                        await this.plugin.saveSettings();
+                    }),
+            );
+
         // Notification
         new Setting(this.containerEl).setName("Notifications").setHeading();
 
@@ -965,6 +1618,267 @@ export class TodoistContextBridgeSettingTab extends PluginSettingTab {
             );
     }
 
+    /**
+     * Lists the project rules, one setting per rule, in the order they are evaluated
+     */
+    private renderProjectRules(containerEl: HTMLElement) {
+        containerEl.empty();
+
+        const updateRule = async (
+            index: number,
+            changes: Partial<ProjectRule>,
+        ) => {
+            this.plugin.settings.projectRules =
+                this.plugin.settings.projectRules.map((rule, i) =>
+                    i === index ? { ...rule, ...changes } : rule,
+                );
+            await this.plugin.saveSettings();
+        };
+
+        const moveRule = async (index: number, offset: number) => {
+            const rules = [...this.plugin.settings.projectRules];
+            const target = index + offset;
+            if (target < 0 || target >= rules.length) return;
+            [rules[index], rules[target]] = [rules[target], rules[index]];
+            this.plugin.settings.projectRules = rules;
+            await this.plugin.saveSettings();
+            this.renderProjectRules(containerEl);
+        };
+
+        const placeholders: Record<ProjectRule["type"], string> = {
+            frontmatter: "todoist_project",
+            folder: "Projects/Work/**",
+            tag: "work",
+            title: "Meeting *",
+        };
+
+        const projectDropdowns: {
+            dropdown: DropdownComponent;
+            rule: ProjectRule;
+        }[] = [];
+
+        this.plugin.settings.projectRules.forEach((rule, index) => {
+            new Setting(containerEl)
+                .setName(`Rule ${index + 1}`)
+                .addDropdown((dropdown) =>
+                    dropdown
+                        .addOption("frontmatter", "Frontmatter key")
+                        .addOption("folder", "Folder")
+                        .addOption("tag", "Tag")
+                        .addOption("title", "Note title")
+                        .setValue(rule.type)
+                        .onChange(async (value: ProjectRule["type"]) => {
+                            await updateRule(index, { type: value });
+                            this.renderProjectRules(containerEl);
+                        }),
+                )
+                .addText((text) =>
+                    text
+                        .setPlaceholder(placeholders[rule.type])
+                        .setValue(rule.pattern)
+                        .onChange(async (value) => {
+                            await updateRule(index, { pattern: value });
+                        }),
+                )
+                .addDropdown((dropdown) => {
+                    dropdown.selectEl.style.width = "160px";
+                    dropdown.addOption(rule.projectId, "Loading projects...");
+                    dropdown.onChange(async (value) => {
+                        await updateRule(index, { projectId: value });
+                    });
+                    projectDropdowns.push({ dropdown, rule });
+                })
+                .addText((text) =>
+                    text
+                        .setPlaceholder("Section")
+                        .setValue(rule.section)
+                        .onChange(async (value) => {
+                            await updateRule(index, { section: value });
+                        }),
+                )
+                .addText((text) =>
+                    text
+                        .setPlaceholder("Labels")
+                        .setValue(rule.labels)
+                        .onChange(async (value) => {
+                            await updateRule(index, { labels: value });
+                        }),
+                )
+                .addExtraButton((button) =>
+                    button
+                        .setIcon("arrow-up")
+                        .setTooltip("Move up")
+                        .onClick(() => moveRule(index, -1)),
+                )
+                .addExtraButton((button) =>
+                    button
+                        .setIcon("arrow-down")
+                        .setTooltip("Move down")
+                        .onClick(() => moveRule(index, 1)),
+                )
+                .addExtraButton((button) =>
+                    button
+                        .setIcon("trash")
+                        .setTooltip("Delete rule")
+                        .onClick(async () => {
+                            this.plugin.settings.projectRules =
+                                this.plugin.settings.projectRules.filter(
+                                    (_, i) => i !== index,
+                                );
+                            await this.plugin.saveSettings();
+                            this.renderProjectRules(containerEl);
+                        }),
+                );
+        });
+
+        if (projectDropdowns.length === 0) return;
+
+        this.plugin
+            .fetchProjects()
+            .then((projects) => {
+                projectDropdowns.forEach(({ dropdown, rule }) => {
+                    dropdown.selectEl.empty();
+                    dropdown.addOption(
+                        "",
+                        rule.type === "frontmatter"
+                            ? "Project from frontmatter"
+                            : "Select project",
+                    );
+                    projects.forEach((project) => {
+                        dropdown.addOption(project.id, project.name);
+                    });
+                    dropdown.setValue(rule.projectId);
+                });
+            })
+            .catch((error) => {
+                console.error("Failed to load projects for rules:", error);
+            });
+    }
+
+    private renderStatusMappings(containerEl: HTMLElement) {
+        containerEl.empty();
+
+        const updateMapping = async (
+            index: number,
+            changes: Partial<CheckboxStatusMapping>,
+        ) => {
+            this.plugin.settings.checkboxStatusMappings =
+                this.plugin.settings.checkboxStatusMappings.map((mapping, i) =>
+                    i === index ? { ...mapping, ...changes } : mapping,
+                );
+            await this.plugin.saveSettings();
+        };
+
+        const projectDropdowns: {
+            dropdown: DropdownComponent;
+            mapping: CheckboxStatusMapping;
+        }[] = [];
+
+        this.plugin.settings.checkboxStatusMappings.forEach(
+            (mapping, index) => {
+                const setting = new Setting(containerEl)
+                    .setName(`Status [${mapping.symbol || " "}]`)
+                    .addText((text) => {
+                        text.setPlaceholder("/")
+                            .setValue(mapping.symbol)
+                            .onChange(async (value) => {
+                                const symbol = value.trim();
+                                // [ ] and [x] are always synced as open and completed
+                                const isValid =
+                                    symbol.length === 1 &&
+                                    symbol.toLowerCase() !== "x" &&
+                                    symbol !== "]";
+                                text.inputEl.style.borderColor = isValid
+                                    ? ""
+                                    : "var(--text-error)";
+                                if (isValid) {
+                                    await updateMapping(index, { symbol });
+                                    setting.setName(`Status [${symbol}]`);
+                                }
+                            });
+                        text.inputEl.maxLength = 1;
+                        text.inputEl.style.width = "3em";
+                    })
+                    .addDropdown((dropdown) =>
+                        dropdown
+                            .addOption("label", "Label")
+                            .addOption("project", "Project")
+                            .addOption("close", "Close")
+                            .addOption("delete", "Delete")
+                            .setValue(mapping.action)
+                            .onChange(
+                                async (
+                                    value: CheckboxStatusMapping["action"],
+                                ) => {
+                                    await updateMapping(index, {
+                                        action: value,
+                                        value: "",
+                                    });
+                                    this.renderStatusMappings(containerEl);
+                                },
+                            ),
+                    );
+
+                if (mapping.action === "label") {
+                    setting.addText((text) =>
+                        text
+                            .setPlaceholder("in-progress")
+                            .setValue(mapping.value)
+                            .onChange(async (value) => {
+                                await updateMapping(index, {
+                                    value: value.trim(),
+                                });
+                            }),
+                    );
+                } else if (mapping.action === "project") {
+                    setting.addDropdown((dropdown) => {
+                        dropdown.selectEl.style.width = "160px";
+                        dropdown.addOption(
+                            mapping.value,
+                            "Loading projects...",
+                        );
+                        dropdown.onChange(async (value) => {
+                            await updateMapping(index, { value });
+                        });
+                        projectDropdowns.push({ dropdown, mapping });
+                    });
+                }
+
+                setting.addExtraButton((button) =>
+                    button
+                        .setIcon("trash")
+                        .setTooltip("Delete status")
+                        .onClick(async () => {
+                            this.plugin.settings.checkboxStatusMappings =
+                                this.plugin.settings.checkboxStatusMappings.filter(
+                                    (_, i) => i !== index,
+                                );
+                            await this.plugin.saveSettings();
+                            this.renderStatusMappings(containerEl);
+                        }),
+                );
+            },
+        );
+
+        if (projectDropdowns.length === 0) return;
+
+        this.plugin
+            .fetchProjects()
+            .then((projects) => {
+                projectDropdowns.forEach(({ dropdown, mapping }) => {
+                    dropdown.selectEl.empty();
+                    dropdown.addOption("", "Select project");
+                    projects.forEach((project) => {
+                        dropdown.addOption(project.id, project.name);
+                    });
+                    dropdown.setValue(mapping.value);
+                });
+            })
+            .catch((error) => {
+                console.error("Failed to load projects for statuses:", error);
+            });
+    }
+
     private async updateProjectsDropdown(
         dropdown: DropdownComponent,
         projects?: Array<{ id: string; name: string }>,
@@ -1,3 +1,46 @@
+/**
+ * A rule that picks the default project for new tasks, evaluated in order.
+ */
+export interface ProjectRule {
+    type: "frontmatter" | "folder" | "tag" | "title";
+    /**
+     * Frontmatter key or "key=value", folder path glob, tag without "#", or note title glob.
+     */
+    pattern: string;
+    /**
+     * Project to select. Frontmatter rules without a project use the frontmatter
+     * value as project name or ID.
+     */
+    projectId: string;
+    /**
+     * Section name to preselect; empty for none.
+     */
+    section: string;
+    /**
+     * Comma-separated labels to add to the task.
+     */
+    labels: string;
+}
+
+/**
+ * How a custom checkbox status, e.g. [/] or [-], is synced to Todoist.
+ */
+export interface CheckboxStatusMapping {
+    /**
+     * The checkbox character, e.g. "/" for [/].
+     */
+    symbol: string;
+    /**
+     * "label" and "project" keep the Todoist task open with a label or in a project,
+     * "close" completes the Todoist task and "delete" deletes it.
+     */
+    action: "label" | "project" | "close" | "delete";
+    /**
+     * The label for "label", or the project ID for "project".
+     */
+    value: string;
+}
+
 /**
  * Interface for Todoist Context Bridge settings.
  */
@@ -10,6 +53,11 @@ export interface TodoistContextBridgeSettings {
      * Default project for tasks without a specified project.
      */
     todoistDefaultProject: string;
+    /**
+     * Rules that pick the default project, section and labels before a task modal
+     * opens. The first matching rule wins; without a match the default project is used.
+     */
+    projectRules: ProjectRule[];
     /**
      * Default priority for tasks without a specified priority.
      */
@@ -54,10 +102,39 @@ export interface TodoistContextBridgeSettings {
      * Use default task text cleanup patterns.
      */
     useDefaultTaskTextCleanupPatterns: boolean;
+    /**
+     * How wikilinks and Markdown links to notes in task text are sent to Todoist:
+     * as obsidian:// links, as Advanced URI links, as plain text or unchanged.
+     */
+    taskLinkConversion: "obsidian" | "advanced-uri" | "text" | "off";
+    /**
+     * Whether embeds in task text are described, e.g. "chart.png (embed)", or removed.
+     */
+    taskEmbedHandling: "describe" | "strip";
     /**
      * Key for due dates in Dataview.
      */
     dataviewDueDateKey: string;
+    /**
+     * Key for recurrence rules in Dataview, e.g. [repeat::every week].
+     */
+    dataviewRecurrenceKey: string;
+    /**
+     * Key for scheduled dates in Dataview, e.g. [scheduled::YYYY-MM-DD].
+     */
+    dataviewScheduledDateKey: string;
+    /**
+     * Key for start dates in Dataview, e.g. [start::YYYY-MM-DD].
+     */
+    dataviewStartDateKey: string;
+    /**
+     * Key for Todoist deadlines in Dataview, e.g. [deadline::YYYY-MM-DD].
+     */
+    dataviewDeadlineKey: string;
+    /**
+     * Key for task durations in Dataview, e.g. [duration::1h30m].
+     */
+    dataviewDurationKey: string;
     /**
      * Key for priority in Dataview.
      */
@@ -82,6 +159,11 @@ export interface TodoistContextBridgeSettings {
      * Skip weekends when calculating relative dates.
      */
     skipWeekends: boolean;
+    /**
+     * Time zone name, e.g. "Europe/Berlin", that times of Todoist tasks with a fixed
+     * time zone are shown in; empty for the system time zone.
+     */
+    timezone: string;
     /**
      * Show warning for past due dates.
      */
@@ -111,6 +193,51 @@ export interface TodoistContextBridgeSettings {
      * Label to add to tasks synced from Obsidian to Todoist.
      */
     todoistSyncLabel: string;
+    /**
+     * Convert tags on task lines to Todoist labels, and labels back to tags on import.
+     */
+    enableTagLabelSync: boolean;
+    /**
+     * Sync the indented child tasks of a task as Todoist subtasks, and import
+     * the subtasks of a Todoist task as indented child tasks.
+     */
+    syncSubtasks: boolean;
+    /**
+     * Preselect the Todoist section named like the nearest heading above a task
+     * when syncing it to Todoist.
+     */
+    mapHeadingsToSections: boolean;
+    /**
+     * Create the section in the Todoist project if no section matches the heading.
+     */
+    createMissingSections: boolean;
+    /**
+     * Dataview key for the Todoist section name added to imported tasks; empty to leave it out.
+     */
+    dataviewSectionKey: string;
+    /**
+     * Dataview key for the collaborator a task in a shared project is assigned to,
+     * e.g. [assignee::Jane]. Also added to imported tasks; empty to turn it off.
+     */
+    dataviewAssigneeKey: string;
+    /**
+     * Read "@name" on a task line as the collaborator to assign the task to.
+     */
+    parseAssigneeMentions: boolean;
+    /**
+     * Labels for tags that are not converted as-is, keyed by tag without "#",
+     * e.g. { "area/work": "Work" }. Imported labels are converted back to the mapped tag.
+     */
+    tagLabelMapping: { [tag: string]: string };
+    /**
+     * Comma-separated tags to convert to labels; empty converts all tags.
+     * Parent tags include their nested tags, e.g. "area" includes "area/work".
+     */
+    tagLabelAllowList: string;
+    /**
+     * Comma-separated tags never converted to labels, matched like the allow list.
+     */
+    tagLabelDenyList: string;
     /**
      * Enable Tasks plugin priority support
      */
@@ -125,6 +252,23 @@ export interface TodoistContextBridgeSettings {
      */
     enableTasksPluginDueDate: boolean;
     preferredDueDateFormat: "tasks" | "dataview";
+    /**
+     * Todoist field each task date is synced to. Dates mapped to "none" are
+     * not synced and are only cleaned from the task text.
+     */
+    dueDateTarget: "due" | "deadline" | "none";
+    scheduledDateTarget: "due" | "deadline" | "none";
+    startDateTarget: "due" | "deadline" | "none";
+    /**
+     * Order in which task dates win when several are mapped to the same
+     * Todoist field, as comma-separated date names, e.g. "start,scheduled,due".
+     */
+    datePrecedence: string;
+    /**
+     * Tasks plugin marker for Todoist deadlines, e.g. 🎯. The Tasks plugin has no
+     * deadline marker of its own; leave empty to only use the Dataview key.
+     */
+    tasksPluginDeadlineEmoji: string;
     /**
      * Tasks plugin emoji cleanup patterns.
      *
@@ -170,6 +314,47 @@ export interface TodoistContextBridgeSettings {
      * Options: "all" (show all notifications), "errors" (errors only), "none" (no notifications)
      */
     mobileNotificationPreference: "all" | "errors" | "none" | null;
+
+    /**
+     * Which side decides the completion status when an Obsidian checkbox and its linked Todoist task disagree.
+     * Options: "obsidian" (the checkbox wins), "todoist" (the Todoist task wins),
+     * "completed" (whichever side is completed wins, so tasks are never reopened)
+     */
+    completionSyncSourceOfTruth: "obsidian" | "todoist" | "completed";
+
+    /**
+     * Custom checkbox statuses that are synced to Todoist. Tasks with other
+     * statuses besides [ ] and [x] are not synced.
+     */
+    checkboxStatusMappings: CheckboxStatusMapping[];
+
+    /**
+     * How to resolve a field that was changed in both Obsidian and Todoist since the last sync.
+     * Options: "obsidian", "todoist", "newest" (the most recently modified side wins),
+     * "ask" (show a three-way diff; background sync skips the task instead)
+     */
+    conflictResolutionPolicy: "obsidian" | "todoist" | "newest" | "ask";
+
+    /**
+     * Enable periodic background reconciliation of all linked tasks in the vault.
+     */
+    enableBackgroundSync: boolean;
+    /**
+     * Minutes between background reconciliation runs.
+     */
+    backgroundSyncInterval: number;
+    /**
+     * Run a reconciliation of the whole vault when Obsidian starts.
+     */
+    backgroundSyncOnStartup: boolean;
+    /**
+     * Reconcile the linked tasks of a file when it is opened.
+     */
+    backgroundSyncOnFileOpen: boolean;
+    /**
+     * Temporarily pause background reconciliation without disabling it.
+     */
+    backgroundSyncPaused: boolean;
 }
 
 /**
@@ -178,6 +363,7 @@ export interface TodoistContextBridgeSettings {
 export const DEFAULT_SETTINGS: TodoistContextBridgeSettings = {
     todoistAPIToken: "",
     todoistDefaultProject: "",
+    projectRules: [],
     todoistDefaultPriority: 4,
     uidField: "uuid",
     blockIDFormat: "YYYY-MM-DDTHH-mm-ss",
@@ -188,7 +374,14 @@ export const DEFAULT_SETTINGS: TodoistContextBridgeSettings = {
     includeSelectedTextInDescription: false,
     taskTextCleanupPatterns: [],
     useDefaultTaskTextCleanupPatterns: true,
+    taskLinkConversion: "obsidian",
+    taskEmbedHandling: "describe",
     dataviewDueDateKey: "due",
+    dataviewRecurrenceKey: "repeat",
+    dataviewScheduledDateKey: "scheduled",
+    dataviewStartDateKey: "start",
+    dataviewDeadlineKey: "deadline",
+    dataviewDurationKey: "duration",
     dataviewPriorityKey: "p",
     // Priority mapping for Dataview values to Todoist priorities
     // In Todoist UI: p1 = highest (maps to API 4), p4 = lowest (maps to API 1)
@@ -210,6 +403,7 @@ export const DEFAULT_SETTINGS: TodoistContextBridgeSettings = {
     momentFormatCleanupPatterns: "",
     setTodayAsDefaultDueDate: false,
     skipWeekends: false,
+    timezone: "",
     warnPastDueDate: true,
     enableAutoTagInsertion: false,
     autoTagName: "ToDoTodoist",
@@ -217,6 +411,16 @@ export const DEFAULT_SETTINGS: TodoistContextBridgeSettings = {
     todoistLinkFormat: "website",
     enableTodoistLabel: false,
     todoistSyncLabel: "ToDoObsidian",
+    enableTagLabelSync: false,
+    syncSubtasks: false,
+    mapHeadingsToSections: false,
+    createMissingSections: false,
+    dataviewSectionKey: "section",
+    dataviewAssigneeKey: "assignee",
+    parseAssigneeMentions: false,
+    tagLabelMapping: {},
+    tagLabelAllowList: "",
+    tagLabelDenyList: "",
     enableTasksPluginPriority: false,
     preferredPriorityFormat: "dataview",
     tasksPluginPriorityMapping: {
@@ -229,9 +433,22 @@ export const DEFAULT_SETTINGS: TodoistContextBridgeSettings = {
     },
     enableTasksPluginDueDate: false,
     preferredDueDateFormat: "dataview",
+    dueDateTarget: "due",
+    scheduledDateTarget: "none",
+    startDateTarget: "none",
+    datePrecedence: "due,scheduled,start",
+    tasksPluginDeadlineEmoji: "",
     tasksPluginEmojiCleanupPatterns:
         "📅,➕,⏳,🛫,✅,❌,🔺,⏫,🔼,🔽,⏬,🔁,🏁,🆔,⛔",
     useMdLinkFormat: false,
     notificationPreference: "all",
     mobileNotificationPreference: null,
+    completionSyncSourceOfTruth: "completed",
+    checkboxStatusMappings: [],
+    conflictResolutionPolicy: "ask",
+    enableBackgroundSync: false,
+    backgroundSyncInterval: 15,
+    backgroundSyncOnStartup: true,
+    backgroundSyncOnFileOpen: false,
+    backgroundSyncPaused: false,
 };
@@ -0,0 +1,438 @@
+import { App, Editor, Notice, TFile } from "obsidian";
+import { Task } from "@doist/todoist-api-typescript";
+import TodoistContextBridgePlugin from "./main";
+import { TodoistContextBridgeSettings } from "./Settings";
+import { TextParsing } from "./TextParsing";
+import { TodoistTaskSync } from "./TodoistTaskSync";
+import { URILinkProcessing } from "./URILinkProcessing";
+import { TodoistV2IDs } from "./TodoistV2IDs";
+import { fetchAllPages } from "./TodoistPaginationHelper";
+import { TODOIST_CONSTANTS } from "./constants";
+import { LinkConversion } from "./LinkConversion";
+import { getTodoistStatus } from "./CheckboxStatus";
+
+/**
+ * A task line nested below a synced task
+ */
+interface SubtaskLine {
+    line: number;
+    lineText: string;
+    /** Line number of the nearest task line it is nested under */
+    parentLine: number;
+}
+
+interface SubtaskLink {
+    line: number;
+    original: string;
+    updated: string;
+    taskId: string;
+    blockId: string;
+}
+
+/**
+ * Syncs the indented child tasks of a task line with the subtasks of its Todoist task
+ */
+export class SubtaskSync {
+    private TextParsing: TextParsing;
+
+    constructor(
+        private app: App,
+        private settings: TodoistContextBridgeSettings,
+        private plugin: TodoistContextBridgePlugin,
+        private TodoistTaskSync: TodoistTaskSync,
+        private URILinkProcessing: URILinkProcessing,
+        private todoistV2IDs: TodoistV2IDs,
+    ) {
+        this.TextParsing = new TextParsing(settings);
+    }
+
+    /**
+     * Creates the open, unlinked child tasks of a synced task line as Todoist subtasks
+     * and adds a link below each of them
+     * @param editor The editor of the active note
+     * @param parentBlockId The block ID of the synced task line
+     * @param parentTaskId The ID of its Todoist task
+     * @param projectId The project of its Todoist task
+     */
+    async syncSubtasksToTodoist(
+        editor: Editor,
+        parentBlockId: string,
+        parentTaskId: string,
+        projectId: string,
+    ) {
+        const file = this.app.workspace.getActiveFile();
+        if (!file) return;
+
+        const lines = editor.getValue().split("\n");
+        const parentLine = lines.findIndex(
+            (line) => this.TextParsing.extractBlockId(line) === parentBlockId,
+        );
+        if (parentLine < 0) return;
+
+        const subtasks = this.collectSubtaskLines(lines, parentLine);
+        if (subtasks.length === 0) return;
+
+        const usedBlockIds = new Set(
+            lines
+                .map((line) => this.TextParsing.extractBlockId(line))
+                .filter((blockId): blockId is string => blockId !== null),
+        );
+        const isIndentedWithTabs = this.TodoistTaskSync.detectIndentWithTabs(
+            lines.join("\n"),
+        );
+
+        // The Todoist task each line's children are created under
+        const taskIds = new Map<number, string>([[parentLine, parentTaskId]]);
+        const links: SubtaskLink[] = [];
+        let failed = 0;
+
+        for (const subtask of subtasks) {
+            const ancestorTaskId =
+                taskIds.get(subtask.parentLine) ?? parentTaskId;
+
+            // Linked children keep their task; completed ones pass their ancestor on
+            const linkedTaskId = this.findOwnLinkedTaskId(lines, subtask.line);
+            const taskDetails = this.TextParsing.extractTaskDetails(
+                subtask.lineText,
+                false,
+                file.path,
+            );
+            if (
+                linkedTaskId ||
+                this.TextParsing.getTaskStatus(subtask.lineText) !== "open" ||
+                !taskDetails.cleanText
+            ) {
+                taskIds.set(subtask.line, linkedTaskId ?? ancestorTaskId);
+                continue;
+            }
+
+            try {
+                const existingBlockId = this.TextParsing.extractBlockId(
+                    subtask.lineText,
+                );
+                const blockId =
+                    existingBlockId ??
+                    this.URILinkProcessing.generateUniqueBlockId(usedBlockIds);
+                const advancedUri =
+                    await this.URILinkProcessing.generateAdvancedUriToBlockInFile(
+                        blockId,
+                        file,
+                    );
+
+                const taskId = await this.TodoistTaskSync.createTodoistTask(
+                    taskDetails.cleanText,
+                    TODOIST_CONSTANTS.FORMAT_STRINGS.ORIGINAL_TASK(
+                        advancedUri,
+                        window.moment().format(this.settings.timestampFormat),
+                        this.settings.useMdLinkFormat,
+                    ),
+                    taskDetails.dueDate ?? "",
+                    taskDetails.priority?.toString() ||
+                        this.settings.todoistDefaultPriority.toString(),
+                    projectId,
+                    { taskDetails, parentId: ancestorTaskId },
+                );
+                taskIds.set(subtask.line, taskId);
+
+                const v2Id = await this.todoistV2IDs.getV2Id(taskId);
+                const lineWithBlockId = existingBlockId
+                    ? subtask.lineText
+                    : `${subtask.lineText.trimEnd()} ^${blockId}`;
+                links.push({
+                    line: subtask.line,
+                    original: subtask.lineText,
+                    updated:
+                        lineWithBlockId +
+                        this.TodoistTaskSync.formatTodoistLink(
+                            subtask.lineText,
+                            `https://app.todoist.com/app/task/${v2Id}`,
+                            true,
+                            isIndentedWithTabs,
+                        ),
+                    taskId: v2Id,
+                    blockId,
+                });
+            } catch (error) {
+                console.error("Failed to create Todoist subtask:", error);
+                failed++;
+                // Nested tasks still belong below the synced ancestor
+                taskIds.set(subtask.line, ancestorTaskId);
+            }
+        }
+
+        const created = await this.applyLinks(editor, links, file, projectId);
+        if (created > 0 || failed > 0) {
+            new Notice(
+                failed > 0
+                    ? `Created ${created} subtask(s) in Todoist. ${failed} subtask(s) failed; see the console for details.`
+                    : `Created ${created} subtask(s) in Todoist`,
+            );
+        }
+    }
+
+    /**
+     * Adds the open subtasks of an imported Todoist task below its task line,
+     * nested like in Todoist, and links them
+     * @param editor The editor of the active note
+     * @param parentBlockId The block ID of the imported task line
+     * @param parentTask The imported Todoist task
+     */
+    async importSubtasks(
+        editor: Editor,
+        parentBlockId: string,
+        parentTask: Task,
+    ) {
+        const file = this.app.workspace.getActiveFile();
+        if (!file || !this.plugin.todoistApi) return;
+
+        let subtasks: { task: Task; depth: number }[];
+        try {
+            subtasks = await this.fetchSubtaskTree(parentTask.id);
+        } catch (error) {
+            console.error("Failed to fetch Todoist subtasks:", error);
+            new Notice("Failed to fetch the subtasks of the Todoist task.");
+            return;
+        }
+        if (subtasks.length === 0) return;
+
+        const v2Ids: string[] = [];
+        for (const { task } of subtasks) {
+            v2Ids.push(await this.todoistV2IDs.getV2Id(task.id));
+        }
+
+        // Lines may have moved while the Todoist IDs were looked up
+        const content = editor.getValue();
+        const lines = content.split("\n");
+        const parentLine = lines.findIndex(
+            (line) => this.TextParsing.extractBlockId(line) === parentBlockId,
+        );
+        if (parentLine < 0) {
+            console.error(
+                `Imported Todoist task ${parentTask.id}, but its line changed before the subtasks could be added`,
+            );
+            new Notice(
+                "Could not add the subtasks because the task line was changed.",
+            );
+            return;
+        }
+
+        const usedBlockIds = new Set(
+            lines
+                .map((line) => this.TextParsing.extractBlockId(line))
+                .filter((blockId): blockId is string => blockId !== null),
+        );
+        const isIndentedWithTabs =
+            this.TodoistTaskSync.detectIndentWithTabs(content);
+        const indentChar = isIndentedWithTabs ? "\t" : " ".repeat(4);
+        const baseIndentation = this.TextParsing.getExtendedLineIndentation(
+            lines[parentLine],
+        );
+
+        const subtaskLines: string[] = [];
+        const imported: { task: Task; blockId: string; v2Id: string }[] = [];
+        const warnings = new Set<string>();
+        subtasks.forEach(({ task, depth }, index) => {
+            const blockId =
+                this.URILinkProcessing.generateUniqueBlockId(usedBlockIds);
+            const v2Id = v2Ids[index];
+            const lineText = `${baseIndentation}${indentChar.repeat(depth)}- [${getTodoistStatus(task, this.settings.checkboxStatusMappings) || " "}] ${LinkConversion.toObsidian(task.content)}${this.TodoistTaskSync.formatTaskFields(task, warnings)} ^${blockId}`;
+            subtaskLines.push(
+                lineText +
+                    this.TodoistTaskSync.formatTodoistLink(
+                        lineText,
+                        `https://app.todoist.com/app/task/${v2Id}`,
+                        true,
+                        isIndentedWithTabs,
+                    ),
+            );
+            imported.push({ task, blockId, v2Id });
+        });
+        if (warnings.size > 0) {
+            new Notice(`Subtasks:\n${Array.from(warnings).join("\n")}`);
+        }
+
+        // Add the subtasks after the sub-items already below the task, such as its link
+        const parentIndentation = this.TextParsing.getLineIndentation(
+            lines[parentLine],
+        );
+        let lastLine = parentLine;
+        while (
+            lines[lastLine + 1] &&
+            this.TextParsing.getLineIndentation(lines[lastLine + 1]).length >
+                parentIndentation.length
+        ) {
+            lastLine++;
+        }
+        editor.replaceRange(`\n${subtaskLines.join("\n")}`, {
+            line: lastLine,
+            ch: lines[lastLine].length,
+        });
+
+        for (const { task, blockId, v2Id } of imported) {
+            await this.TodoistTaskSync.recordLink(
+                v2Id,
+                blockId,
+                task.projectId,
+                undefined,
+                file,
+            );
+
+            // Link the subtask back to its line, like the imported task
+            try {
+                const advancedUri =
+                    await this.URILinkProcessing.generateAdvancedUriToBlockInFile(
+                        blockId,
+                        file,
+                    );
+                const obsidianReference =
+                    TODOIST_CONSTANTS.FORMAT_STRINGS.ORIGINAL_TASK(
+                        advancedUri,
+                        window.moment().format(this.settings.timestampFormat),
+                        this.settings.useMdLinkFormat,
+                    );
+                await this.plugin.todoistApi.updateTask(task.id, {
+                    description: task.description.trim()
+                        ? `${obsidianReference}\n\n${task.description}`
+                        : obsidianReference,
+                });
+            } catch (error) {
+                console.error(
+                    "Failed to update Todoist subtask description:",
+                    error,
+                );
+            }
+        }
+    }
+
+    /**
+     * Lists the task lines nested below a task line, up to the first line that is not indented below it
+     */
+    private collectSubtaskLines(
+        lines: string[],
+        parentLine: number,
+    ): SubtaskLine[] {
+        const parentIndentation = this.TextParsing.getLineIndentation(
+            lines[parentLine],
+        ).length;
+        const ancestors = [
+            { line: parentLine, indentation: parentIndentation },
+        ];
+        const subtasks: SubtaskLine[] = [];
+
+        for (let line = parentLine + 1; line < lines.length; line++) {
+            const lineText = lines[line];
+            const indentation =
+                this.TextParsing.getLineIndentation(lineText).length;
+            if (!lineText.trim() || indentation <= parentIndentation) break;
+            if (!this.TextParsing.isTaskLine(lineText)) continue;
+
+            while (
+                ancestors.length > 1 &&
+                ancestors[ancestors.length - 1].indentation >= indentation
+            ) {
+                ancestors.pop();
+            }
+            subtasks.push({
+                line,
+                lineText,
+                parentLine: ancestors[ancestors.length - 1].line,
+            });
+            ancestors.push({ line, indentation });
+        }
+        return subtasks;
+    }
+
+    /**
+     * Finds the task linked by a task line's own link, ignoring the links of nested tasks
+     */
+    private findOwnLinkedTaskId(lines: string[], line: number): string | null {
+        const linkLine = this.TextParsing.findTodoistLinkLine(
+            (n) => lines[n],
+            line,
+        );
+        if (linkLine === null) return null;
+        for (let n = line + 1; n < linkLine; n++) {
+            if (this.TextParsing.isTaskLine(lines[n])) return null;
+        }
+        return (
+            lines[linkLine].match(TODOIST_CONSTANTS.LINK_PATTERN)?.[1] ?? null
+        );
+    }
+
+    /**
+     * Fetches the open subtasks of a task and their subtasks, depth first
+     * @returns The subtasks with their depth below the task, starting at 1
+     */
+    private async fetchSubtaskTree(
+        parentId: string,
+        depth = 1,
+    ): Promise<{ task: Task; depth: number }[]> {
+        const api = this.plugin.todoistApi;
+        if (!api) return [];
+
+        const children = (
+            await fetchAllPages((args) => api.getTasks(args), { parentId })
+        ).sort((a, b) => a.childOrder - b.childOrder);
+
+        const tree: { task: Task; depth: number }[] = [];
+        for (const task of children) {
+            if (task.checked || task.isDeleted) continue;
+            tree.push({ task, depth });
+            tree.push(...(await this.fetchSubtaskTree(task.id, depth + 1)));
+        }
+        return tree;
+    }
+
+    /**
+     * Writes the links of the created subtasks in one edit and records them
+     * @returns The number of subtasks linked
+     */
+    private async applyLinks(
+        editor: Editor,
+        links: SubtaskLink[],
+        file: TFile,
+        projectId: string,
+    ): Promise<number> {
+        if (links.length === 0) return 0;
+
+        // Lines may have moved while the subtasks were created
+        const lines = editor.getValue().split("\n");
+        const taken = new Set<number>();
+        const located: { line: number; link: SubtaskLink }[] = [];
+        for (const link of links) {
+            const line = this.TextParsing.findNearestLine(
+                lines,
+                link.original,
+                link.line,
+                taken,
+            );
+            if (line < 0) {
+                console.error(
+                    `Created Todoist subtask ${link.taskId}, but its line changed before the link could be added`,
+                );
+                continue;
+            }
+            taken.add(line);
+            located.push({ line, link });
+        }
+
+        editor.transaction({
+            changes: located.map(({ line, link }) => ({
+                from: { line, ch: 0 },
+                to: { line, ch: lines[line].length },
+                text: link.updated,
+            })),
+        });
+
+        for (const { link } of located) {
+            await this.TodoistTaskSync.recordLink(
+                link.taskId,
+                link.blockId,
+                projectId,
+                undefined,
+                file,
+            );
+        }
+        return located.length;
+    }
+}
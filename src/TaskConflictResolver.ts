@@ -0,0 +1,232 @@
+import { App } from "obsidian";
+import { Task } from "@doist/todoist-api-typescript";
+import {
+    CheckboxStatusMapping,
+    TodoistContextBridgeSettings,
+} from "./Settings";
+import { TaskDetails } from "./TextParsing";
+import { DateProcessing } from "./DateProcessing";
+import { ConflictResolutionModal } from "./TodoistModal";
+import { getTodoistStatus } from "./CheckboxStatus";
+
+// Todoist's "no priority" level, expressed as a UI priority (1=highest, 4=lowest)
+const DEFAULT_UI_PRIORITY = 4;
+
+/**
+ * The synced fields of a task, as seen on one side or at the last sync
+ */
+export interface TaskSnapshot {
+    content: string;
+    dueDate: string | null;
+    /** UI priority (1=highest, 4=lowest) */
+    priority: number;
+    checked: boolean;
+    /** Custom checkbox status synced as a Todoist label or project, empty for none */
+    status: string;
+}
+
+export type ConflictSide = "obsidian" | "todoist";
+
+/**
+ * A field that was changed differently on both sides since the last sync
+ */
+export interface FieldConflict {
+    field: keyof TaskSnapshot;
+    /** The value at the last sync, undefined for a field that was never synced */
+    base: TaskSnapshot[keyof TaskSnapshot] | undefined;
+    obsidian: TaskSnapshot[keyof TaskSnapshot];
+    todoist: TaskSnapshot[keyof TaskSnapshot];
+}
+
+const SNAPSHOT_FIELDS: (keyof TaskSnapshot)[] = [
+    "content",
+    "dueDate",
+    "priority",
+    "checked",
+    "status",
+];
+
+export function createTodoistSnapshot(
+    task: Task,
+    statusMappings: CheckboxStatusMapping[],
+): TaskSnapshot {
+    return {
+        content: task.content,
+        dueDate: DateProcessing.formatTodoistDueDate(task.due),
+        // Convert from Todoist API priority (4=highest) to UI priority (1=highest)
+        priority: 5 - task.priority,
+        checked: task.checked ?? false,
+        status: getTodoistStatus(task, statusMappings),
+    };
+}
+
+export function createObsidianSnapshot(
+    taskDetails: TaskDetails,
+    completed: boolean,
+): TaskSnapshot {
+    return {
+        content: taskDetails.cleanText,
+        // Compare datetimes with a time zone in the vault's time zone, as Todoist's
+        dueDate: DateProcessing.normalizeDueDate(taskDetails.dueDate),
+        priority: taskDetails.priority ?? DEFAULT_UI_PRIORITY,
+        checked: completed,
+        status: taskDetails.status,
+    };
+}
+
+/**
+ * Records the fields both sides agree on after a sync. Fields that still differ keep
+ * their previously agreed value, or are left out if they never agreed.
+ */
+export function createSyncedSnapshot(
+    previous: Partial<TaskSnapshot> | undefined,
+    obsidian: TaskSnapshot,
+    todoist: TaskSnapshot,
+): Partial<TaskSnapshot> {
+    const snapshot: Partial<TaskSnapshot> = {};
+    const record = <K extends keyof TaskSnapshot>(field: K) => {
+        const value =
+            obsidian[field] === todoist[field]
+                ? obsidian[field]
+                : previous?.[field];
+        if (value !== undefined) {
+            snapshot[field] = value;
+        }
+    };
+    SNAPSHOT_FIELDS.forEach(record);
+    return snapshot;
+}
+
+/**
+ * Lists the fields that both sides changed to different values since the last sync
+ */
+export function findConflicts(
+    base: Partial<TaskSnapshot>,
+    obsidian: TaskSnapshot,
+    todoist: TaskSnapshot,
+    fields: (keyof TaskSnapshot)[] = SNAPSHOT_FIELDS,
+): FieldConflict[] {
+    return fields
+        .filter(
+            (field) =>
+                base[field] !== undefined &&
+                obsidian[field] !== base[field] &&
+                todoist[field] !== base[field] &&
+                obsidian[field] !== todoist[field],
+        )
+        .map((field) => ({
+            field,
+            base: base[field],
+            obsidian: obsidian[field],
+            todoist: todoist[field],
+        }));
+}
+
+/**
+ * Lists the fields that differ between both sides without a synced value, e.g. for
+ * links created before synced values were recorded. Neither side is known to have
+ * changed them, so they cannot be merged without a conflict policy.
+ */
+export function findUnsyncedDifferences(
+    base: Partial<TaskSnapshot>,
+    obsidian: TaskSnapshot,
+    todoist: TaskSnapshot,
+    fields: (keyof TaskSnapshot)[] = SNAPSHOT_FIELDS,
+): FieldConflict[] {
+    return fields
+        .filter(
+            (field) =>
+                base[field] === undefined && obsidian[field] !== todoist[field],
+        )
+        .map((field) => ({
+            field,
+            base: undefined,
+            obsidian: obsidian[field],
+            todoist: todoist[field],
+        }));
+}
+
+/**
+ * Three-way merge of both sides against the last synced snapshot. Each field takes the
+ * side that changed it; fields changed on both sides take the conflict winner, and
+ * fields without a synced value take the side chosen by `fallback`.
+ */
+export function mergeTaskSnapshots(
+    base: Partial<TaskSnapshot>,
+    obsidian: TaskSnapshot,
+    todoist: TaskSnapshot,
+    conflictWinner: ConflictSide,
+    fallback: (field: keyof TaskSnapshot) => ConflictSide,
+): TaskSnapshot {
+    const pick = <K extends keyof TaskSnapshot>(field: K): TaskSnapshot[K] => {
+        const side = (winner: ConflictSide) =>
+            winner === "obsidian" ? obsidian[field] : todoist[field];
+
+        if (obsidian[field] === todoist[field]) return obsidian[field];
+        if (base[field] === undefined) return side(fallback(field));
+        if (obsidian[field] === base[field]) return todoist[field];
+        if (todoist[field] === base[field]) return obsidian[field];
+        return side(conflictWinner);
+    };
+
+    return {
+        content: pick("content"),
+        dueDate: pick("dueDate"),
+        priority: pick("priority"),
+        checked: pick("checked"),
+        status: pick("status"),
+    };
+}
+
+/**
+ * Applies the configured conflict policy when a task changed on both sides
+ */
+export class TaskConflictResolver {
+    constructor(
+        private app: App,
+        private settings: TodoistContextBridgeSettings,
+    ) {}
+
+    /**
+     * Decides which side wins the given conflicts
+     * @param conflicts The conflicting fields
+     * @param taskTitle Title shown when asking the user
+     * @param obsidianModified Modification time of the note in milliseconds
+     * @param todoistModified The task's `updatedAt` timestamp
+     * @param interactive Whether the user can be asked; "ask" skips the task otherwise
+     * @returns The winning side, or null to leave the task untouched
+     */
+    async resolve(
+        conflicts: FieldConflict[],
+        taskTitle: string,
+        obsidianModified: number,
+        todoistModified: string | null,
+        interactive: boolean,
+    ): Promise<ConflictSide | null> {
+        switch (this.settings.conflictResolutionPolicy) {
+            case "obsidian":
+                return "obsidian";
+            case "todoist":
+                return "todoist";
+            case "newest": {
+                const todoistTime = todoistModified
+                    ? Date.parse(todoistModified)
+                    : 0;
+                return obsidianModified >= todoistTime ? "obsidian" : "todoist";
+            }
+            case "ask":
+            default:
+                if (!interactive) {
+                    return null;
+                }
+                return new Promise((resolve) => {
+                    new ConflictResolutionModal(
+                        this.app,
+                        taskTitle,
+                        conflicts,
+                        resolve,
+                    ).open();
+                });
+        }
+    }
+}
@@ -1,12 +1,65 @@
 import { Notice } from "obsidian";
-import { TodoistContextBridgeSettings } from "./Settings";
-import { DateProcessing } from "./DateProcessing";
+import { Duration } from "@doist/todoist-api-typescript";
+import {
+    CheckboxStatusMapping,
+    TodoistContextBridgeSettings,
+} from "./Settings";
+import { DateProcessing, TIMEZONE_SUFFIX_PATTERN } from "./DateProcessing";
 import { RegexPatterns } from "./RegexPatterns";
+import { TODOIST_CONSTANTS } from "./constants";
+import { TaskSnapshot } from "./TaskConflictResolver";
+import { RecurrenceProcessing } from "./RecurrenceProcessing";
+import { LinkConversion, NOTE_LINK_PATTERN } from "./LinkConversion";
 
 export interface TaskDetails {
     cleanText: string;
     dueDate: string | null;
     priority: number | null;
+    /** Todoist recurring due string, e.g. "every monday" */
+    recurrence: string | null;
+    /** Todoist deadline (YYYY-MM-DD) */
+    deadline: string | null;
+    duration: Duration | null;
+    /** Todoist labels converted from the tags on the task line */
+    labels: string[];
+    /** Name of the Todoist section from the Dataview section field */
+    section: string | null;
+    /** Checkbox status synced as a Todoist label or project, empty for none */
+    status: string;
+    /** Name of the collaborator to assign the task to, from "@name" or the Dataview field */
+    assignee: string | null;
+}
+
+/**
+ * A task date that can be synced to a Todoist field. The deadline date is
+ * always synced to the Todoist deadline.
+ */
+export type TaskDateField = "due" | "scheduled" | "start" | "deadline";
+
+// The deadline date comes last, so dates mapped to the Todoist deadline win
+const TASK_DATE_FIELDS: TaskDateField[] = [
+    "due",
+    "scheduled",
+    "start",
+    "deadline",
+];
+
+// Tasks plugin markers of the task dates; the deadline marker is configurable
+const TASK_DATE_EMOJIS: Record<Exclude<TaskDateField, "deadline">, string> = {
+    due: "📅",
+    scheduled: "⏳",
+    start: "🛫",
+};
+
+// "@name" assignee mention at the start of the text or after a space
+const ASSIGNEE_MENTION_PATTERN =
+    /(^|\s)@([\p{L}\p{N}_-]+(?:\.[\p{L}\p{N}_-]+)*)/u;
+
+export interface LinkedTaskLine {
+    line: number;
+    taskId: string;
+    /** Line number of the Todoist link sub-item */
+    linkLine: number;
 }
 
 export class TextParsing {
@@ -14,16 +67,35 @@ export class TextParsing {
 
     public readonly blockIdRegex = /\^([a-zA-Z0-9-]+)$/;
 
+    // Matches the indentation, callout markers and bullet at the start of a list item
+    private readonly listItemPrefixRegex =
+        /^(?:[\t ]*(?:>\s*(?:\[!.*?\])?[\s]*>?[\s]*)?)?[-*+]\s+/;
+
+    // Matches a link sub-item struck through by markBrokenTodoistLink
+    private readonly brokenLinkRegex = new RegExp(
+        `^(.*?)~~(.*)~~ ${TODOIST_CONSTANTS.BROKEN_LINK_NOTE}$`,
+    );
+
+    // Matches the indentation, callout markers and checkbox at the start of a task line
+    private readonly taskPrefixRegex =
+        /^(?:[\t ]*(?:>\s*(?:\[!.*?\])?[\s]*>?[\s]*)?)?[-*]\s*\[([^\]])\]\s*/;
+
     public isTaskLine(line: string): boolean {
         // Check for Markdown task format: "- [ ]" or "* [ ]" with any indentation
         // Also check for Markdown task in Obsidian callouts: "> - [ ]", "> [!NOTE]
         // > - [ ]", or "* [ ]"
         // Support both indented subtasks and tasks in callouts
-        return /^(?:[\t ]*(?:>\s*(?:\[!.*?\])?[\s]*>?[\s]*)?)?[-*]\s*\[[ x?/-]\]/.test(
-            line,
+        return (
+            /^(?:[\t ]*(?:>\s*(?:\[!.*?\])?[\s]*>?[\s]*)?)?[-*]\s*\[[ x?/-]\]/.test(
+                line,
+            ) || this.getStatusMapping(line) !== null
         );
     }
 
+    /**
+     * Classifies the checkbox of a task line. Custom statuses mapped to a Todoist
+     * label or project count as open, statuses that close the Todoist task as completed.
+     */
     public getTaskStatus(line: string): "open" | "completed" | "other" {
         if (!this.isTaskLine(line)) {
             return "other";
@@ -43,10 +115,73 @@ export class TextParsing {
             )
         ) {
             return "open";
-        } else {
-            // Matches tasks with other statuses like [?], [/], [-]
-            return "other";
         }
+
+        switch (this.getStatusMapping(line)?.action) {
+            case "label":
+            case "project":
+                return "open";
+            case "close":
+                return "completed";
+            default:
+                // Matches tasks with other statuses like [?], [/], [-]
+                return "other";
+        }
+    }
+
+    /**
+     * Finds the status mapping for the checkbox of a task line
+     * @returns The mapping, or null for [ ], [x] and statuses without a mapping
+     */
+    public getStatusMapping(line: string): CheckboxStatusMapping | null {
+        const symbol = line.match(this.taskPrefixRegex)?.[1];
+        if (!symbol || symbol === " " || symbol.toLowerCase() === "x") {
+            return null;
+        }
+        return (
+            this.settings.checkboxStatusMappings.find(
+                (mapping) => mapping.symbol === symbol,
+            ) ?? null
+        );
+    }
+
+    /**
+     * Sets the checkbox of an open or completed task line
+     * @param line The task line to update
+     * @param completed Whether the checkbox should be checked
+     * @returns The updated line, or the original line if it is not an open or completed
+     * task or already has that status
+     */
+    public setTaskStatus(line: string, completed: boolean): string {
+        const status = this.getTaskStatus(line);
+        if (
+            status === "other" ||
+            status === (completed ? "completed" : "open")
+        ) {
+            return line;
+        }
+
+        return line.replace(
+            /^((?:[\t ]*(?:>\s*(?:\[!.*?\])?[\s]*>?[\s]*)?)?[-*]\s*\[)[^\]](\])/,
+            `$1${completed ? "x" : " "}$2`,
+        );
+    }
+
+    /**
+     * Sets the checkbox of an open task line to a status synced as a Todoist label or project
+     * @param line The task line to update
+     * @param status The checkbox character, or an empty string for [ ]
+     * @returns The updated line, or the original line if the task is not open
+     */
+    public setOpenTaskStatus(line: string, status: string): string {
+        if (this.getTaskStatus(line) !== "open") {
+            return line;
+        }
+
+        return line.replace(
+            /^((?:[\t ]*(?:>\s*(?:\[!.*?\])?[\s]*>?[\s]*)?)?[-*]\s*\[)[^\]](\])/,
+            `$1${status || " "}$2`,
+        );
     }
 
     public isNonEmptyTextLine(line: string): boolean {
@@ -86,13 +221,600 @@ export class TextParsing {
         return match ? match[1] : null;
     }
 
-    public extractTaskDetails(taskText: string): TaskDetails {
+    /**
+     * Finds the Todoist task ID linked in the sub-items of a task
+     * @param getLine Returns the text of a line, or undefined past the end of the document
+     * @param taskLine Line number of the task
+     * @returns The linked Todoist task ID, or null if the task has no link
+     */
+    public findLinkedTodoistTaskId(
+        getLine: (line: number) => string | undefined,
+        taskLine: number,
+    ): string | null {
+        const linkLine = this.findTodoistLinkLine(getLine, taskLine);
+        if (linkLine === null) {
+            return null;
+        }
+        return (
+            getLine(linkLine)?.match(TODOIST_CONSTANTS.LINK_PATTERN)?.[1] ??
+            null
+        );
+    }
+
+    /**
+     * Finds the sub-item of a task that holds its Todoist link
+     * @param getLine Returns the text of a line, or undefined past the end of the document
+     * @param taskLine Line number of the task
+     * @returns The line number of the link, or null if the task has no link
+     */
+    public findTodoistLinkLine(
+        getLine: (line: number) => string | undefined,
+        taskLine: number,
+    ): number | null {
+        const taskIndentation = this.getLineIndentation(
+            getLine(taskLine) ?? "",
+        );
+        let nextLine = taskLine + 1;
+        let nextLineText = getLine(nextLine);
+
+        // Check subsequent lines with deeper indentation
+        while (
+            nextLineText &&
+            this.getLineIndentation(nextLineText).length >
+                taskIndentation.length
+        ) {
+            if (TODOIST_CONSTANTS.LINK_PATTERN.test(nextLineText)) {
+                return nextLine;
+            }
+            nextLine++;
+            nextLineText = getLine(nextLine);
+        }
+        return null;
+    }
+
+    /**
+     * Strikes through a Todoist link sub-item and notes that its task is gone
+     * @returns The marked line, or the line unchanged if it is already marked
+     */
+    public markBrokenTodoistLink(line: string): string {
+        if (this.isBrokenTodoistLink(line)) {
+            return line;
+        }
+        const match = line.match(this.listItemPrefixRegex);
+        if (!match) {
+            return line;
+        }
+        return `${match[0]}~~${line.slice(match[0].length).trim()}~~ ${TODOIST_CONSTANTS.BROKEN_LINK_NOTE}`;
+    }
+
+    /**
+     * Reverts markBrokenTodoistLink, e.g. when the task turned out to still exist
+     */
+    public unmarkBrokenTodoistLink(line: string): string {
+        const match = line.match(this.brokenLinkRegex);
+        return match ? `${match[1]}${match[2]}` : line;
+    }
+
+    public isBrokenTodoistLink(line: string): boolean {
+        return this.brokenLinkRegex.test(line);
+    }
+
+    /**
+     * Finds the line with the given text closest to where it was last seen.
+     * Lines may move while a note is edited, e.g. when a UID is added to the frontmatter.
+     * @param lines The current lines of the note
+     * @param text The text of the line
+     * @param hint The line number it was last seen at
+     * @param exclude Line numbers already claimed by other edits
+     * @returns The line number, or -1 if no line has that text
+     */
+    public findNearestLine(
+        lines: string[],
+        text: string,
+        hint: number,
+        exclude: Set<number> = new Set(),
+    ): number {
+        for (let offset = 0; offset < lines.length; offset++) {
+            for (const line of [hint - offset, hint + offset]) {
+                if (lines[line] === text && !exclude.has(line)) {
+                    return line;
+                }
+            }
+        }
+        return -1;
+    }
+
+    /**
+     * Finds the nearest heading above a line, skipping fenced code blocks
+     * @param lines The lines of the note
+     * @param line The line number to look above
+     * @returns The heading text without the markup, or null if there is none
+     */
+    public findNearestHeading(lines: string[], line: number): string | null {
+        let heading: string | null = null;
+        let inCodeBlock = false;
+        for (let i = 0; i < line && i < lines.length; i++) {
+            if (/^\s*(```|~~~)/.test(lines[i])) {
+                inCodeBlock = !inCodeBlock;
+                continue;
+            }
+            const headingMatch = !inCodeBlock
+                ? lines[i].match(/^#{1,6}\s+(.*?)(?:\s+#+)?\s*$/)
+                : null;
+            if (headingMatch && headingMatch[1]) {
+                heading = headingMatch[1];
+            }
+        }
+        return heading;
+    }
+
+    /**
+     * Collects every task line in a document that links to a Todoist task
+     * @param lines The lines of the document
+     * @returns Line numbers and linked Todoist task IDs
+     */
+    public getLinkedTaskLines(lines: string[]): LinkedTaskLine[] {
+        const linkedTasks: LinkedTaskLine[] = [];
+        for (let i = 0; i < lines.length; i++) {
+            if (!this.isTaskLine(lines[i])) continue;
+
+            const linkLine = this.findTodoistLinkLine((n) => lines[n], i);
+            const taskId =
+                linkLine !== null
+                    ? lines[linkLine].match(TODOIST_CONSTANTS.LINK_PATTERN)?.[1]
+                    : null;
+            if (linkLine !== null && taskId) {
+                linkedTasks.push({ line: i, taskId, linkLine });
+            }
+        }
+        return linkedTasks;
+    }
+
+    /**
+     * Replaces the title of a task line while keeping its checkbox, metadata, tags and block ID
+     * @param line The task line to update
+     * @param content The new task title
+     * @returns The updated line, or the original line if it is not a task
+     */
+    public replaceTaskContent(line: string, content: string): string {
+        const prefixMatch = line.match(this.taskPrefixRegex);
+        if (!prefixMatch) {
+            return line;
+        }
+
+        let rest = line.slice(prefixMatch[0].length);
+        const preserved: string[] = [];
+
+        const blockIdMatch = rest.match(/\s*(\^[a-zA-Z0-9-]+)$/);
+        if (blockIdMatch) {
+            rest = rest.slice(0, blockIdMatch.index);
+        }
+
+        const preserve = (regex: RegExp) => {
+            rest = rest.replace(regex, (match) => {
+                preserved.push(match.trim());
+                return " ";
+            });
+        };
+
+        // Keep Tasks plugin markers with their values
+        if (this.settings.tasksPluginEmojiCleanupPatterns) {
+            this.settings.tasksPluginEmojiCleanupPatterns
+                .split(",")
+                .map((marker) => marker.trim())
+                .filter((marker) => marker.length > 0)
+                .forEach((marker) =>
+                    preserve(RegexPatterns.createEmojiCleanupPattern(marker)),
+                );
+        }
+
+        // Keep Dataview inline fields, timestamps and tags
+        preserve(/\[[^\[\]]+?::[^\]]*\]/g);
+        preserve(/\([^()]+?::[^)]*\)/g);
+        preserve(/📝\s*\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2})?/g);
+        preserve(/(?:^|\s)#[^\s#]+/g);
+
+        // Keep the assignee mention, which is not part of the Todoist title
+        if (this.settings.parseAssigneeMentions) {
+            preserve(ASSIGNEE_MENTION_PATTERN);
+        }
+
+        return [
+            prefixMatch[0].trimEnd(),
+            content.trim(),
+            ...preserved,
+            blockIdMatch ? blockIdMatch[1] : "",
+        ]
+            .filter((part) => part.length > 0)
+            .join(" ");
+    }
+
+    /**
+     * Sets, replaces or removes the Todoist due date of a task line, in the task
+     * date synced to the Todoist due date.
+     * @param line The task line to update
+     * @param dueDate The new due date (YYYY-MM-DD[THH:mm]), or null to remove it
+     * @returns The updated line
+     */
+    public setDueDate(line: string, dueDate: string | null): string {
+        return this.setTaskDate(
+            line,
+            this.getDateFieldFor("due") ?? "due",
+            dueDate,
+        );
+    }
+
+    /**
+     * Sets, replaces or removes a date of a task line.
+     * Existing Dataview or Tasks plugin dates are updated in place;
+     * otherwise the date is added in the preferred format before the block ID.
+     * @param line The task line to update
+     * @param field The task date to set
+     * @param date The new date (YYYY-MM-DD[THH:mm]), or null to remove it
+     * @returns The updated line
+     */
+    public setTaskDate(
+        line: string,
+        field: TaskDateField,
+        date: string | null,
+    ): string {
+        const dataviewKey = this.getDataviewDateKey(field);
+        const emoji = this.getTaskDateEmoji(field);
+        const dataviewPattern = new RegExp(
+            `\\[\\s*${dataviewKey}\\s*::\\s*[^\\]]*\\]`,
+        );
+        const tasksPattern = emoji
+            ? new RegExp(
+                  `${emoji}\\s*\\d{4}-\\d{2}-\\d{2}(?:T\\d{2}:\\d{2}${TIMEZONE_SUFFIX_PATTERN}?)?`,
+                  "u",
+              )
+            : null;
+
+        let updated = line;
+        let found = false;
+
+        if (dataviewPattern.test(updated)) {
+            found = true;
+            updated = updated.replace(
+                dataviewPattern,
+                date ? `[${dataviewKey}::${date}]` : "",
+            );
+        }
+
+        if (tasksPattern && tasksPattern.test(updated)) {
+            found = true;
+            updated = updated.replace(
+                tasksPattern,
+                date ? `${emoji} ${date}` : "",
+            );
+        }
+
+        if (!found && date) {
+            updated = this.insertBeforeBlockId(
+                updated,
+                this.formatTaskDate(field, date),
+            );
+        }
+
+        return this.collapseSpaces(updated);
+    }
+
+    /**
+     * Writes the given task fields into a task line, leaving the other fields untouched
+     * @param line The task line to update
+     * @param fields The fields to write; priority is a UI priority (1=highest)
+     * @returns The updated line
+     */
+    public applyTaskFields(
+        line: string,
+        fields: Partial<TaskSnapshot>,
+    ): string {
+        let updated = line;
+        if (fields.checked !== undefined) {
+            updated = this.setTaskStatus(updated, fields.checked);
+        }
+        if (fields.status !== undefined) {
+            updated = this.setOpenTaskStatus(updated, fields.status);
+        }
+        if (fields.content !== undefined) {
+            updated = this.replaceTaskContent(
+                updated,
+                LinkConversion.toObsidian(fields.content),
+            );
+        }
+        if (fields.dueDate !== undefined) {
+            updated = this.setDueDate(updated, fields.dueDate);
+        }
+        if (fields.priority !== undefined) {
+            updated = this.setPriority(updated, fields.priority);
+        }
+        return updated;
+    }
+
+    /**
+     * Formats a Todoist due date as the task date synced to it
+     * @param dueDate The due date (YYYY-MM-DD[THH:mm])
+     * @returns The date as a Tasks plugin marker or a Dataview field
+     */
+    public formatDueDate(dueDate: string): string {
+        return this.formatTaskDate(
+            this.getDateFieldFor("due") ?? "due",
+            dueDate,
+        );
+    }
+
+    /**
+     * Formats a task date according to the preferred due date format
+     * @param field The task date
+     * @param date The date (YYYY-MM-DD[THH:mm])
+     * @returns The date as a Tasks plugin marker or a Dataview field
+     */
+    public formatTaskDate(field: TaskDateField, date: string): string {
+        const emoji = this.getTaskDateEmoji(field);
+        if (
+            emoji &&
+            this.settings.preferredDueDateFormat === "tasks" &&
+            this.settings.enableTasksPluginDueDate
+        ) {
+            return `${emoji} ${date}`;
+        }
+        return `[${this.getDataviewDateKey(field)}::${date}]`;
+    }
+
+    /**
+     * Finds the task date synced to a Todoist field
+     * @param target The Todoist field
+     * @returns The task date that wins by precedence, or null if none is synced to it
+     */
+    public getDateFieldFor(target: "due" | "deadline"): TaskDateField | null {
+        return (
+            this.getDatePrecedence().find(
+                (field) => this.getDateTarget(field) === target,
+            ) ?? null
+        );
+    }
+
+    private getDateTarget(field: TaskDateField): "due" | "deadline" | "none" {
+        switch (field) {
+            case "due":
+                return this.settings.dueDateTarget;
+            case "scheduled":
+                return this.settings.scheduledDateTarget;
+            case "start":
+                return this.settings.startDateTarget;
+            case "deadline":
+                return "deadline";
+        }
+    }
+
+    /**
+     * The Tasks plugin marker of a task date, or null if it has none
+     */
+    private getTaskDateEmoji(field: TaskDateField): string | null {
+        if (field === "deadline") {
+            return this.settings.tasksPluginDeadlineEmoji.trim() || null;
+        }
+        return TASK_DATE_EMOJIS[field];
+    }
+
+    private getDataviewDateKey(field: TaskDateField): string {
+        switch (field) {
+            case "due":
+                return this.settings.dataviewDueDateKey;
+            case "scheduled":
+                return this.settings.dataviewScheduledDateKey;
+            case "start":
+                return this.settings.dataviewStartDateKey;
+            case "deadline":
+                return this.settings.dataviewDeadlineKey;
+        }
+    }
+
+    /**
+     * The task dates in order of precedence. Dates missing from the setting come last.
+     */
+    private getDatePrecedence(): TaskDateField[] {
+        const configured = this.settings.datePrecedence
+            .split(",")
+            .map((field) => field.trim())
+            .filter((field): field is TaskDateField =>
+                TASK_DATE_FIELDS.includes(field as TaskDateField),
+            );
+        return [
+            ...new Set([...configured, ...TASK_DATE_FIELDS]),
+        ] as TaskDateField[];
+    }
+
+    /**
+     * Extracts a task date in Tasks plugin and Dataview format and removes it from the text
+     * @returns The date (YYYY-MM-DD[THH:mm]) in the preferred format if both are present
+     */
+    private extractTaskDate(
+        text: string,
+        field: TaskDateField,
+        showWarnings: boolean,
+    ): { text: string; date: string | null } {
+        let tasksPluginDate: string | null = null;
+        let dataviewDate: string | null = null;
+
+        const emoji = this.getTaskDateEmoji(field);
+        if (this.settings.enableTasksPluginDueDate && emoji) {
+            const tasksPluginMatch = text.match(
+                new RegExp(
+                    `(${emoji})\\s*(\\d{4}-\\d{2}-\\d{2}(?:T\\d{2}:\\d{2}${TIMEZONE_SUFFIX_PATTERN}?)?)`,
+                    "u",
+                ),
+            );
+            if (tasksPluginMatch) {
+                tasksPluginDate =
+                    DateProcessing.validateAndFormatDate(
+                        tasksPluginMatch[2].trim(),
+                        false,
+                        showWarnings,
+                    )?.formattedDate ?? null;
+                text = text.replace(tasksPluginMatch[0], "");
+            }
+        }
+
+        const dataviewMatch = text.match(
+            new RegExp(
+                `\\[\\s*${this.getDataviewDateKey(field)}\\s*::\\s*(\\d{4}-\\d{2}-\\d{2}(?:T\\d{2}:\\d{2}${TIMEZONE_SUFFIX_PATTERN}?)?)\\s*\\]`,
+            ),
+        );
+        if (dataviewMatch) {
+            dataviewDate =
+                DateProcessing.validateAndFormatDate(
+                    dataviewMatch[1].trim(),
+                    false,
+                    showWarnings,
+                )?.formattedDate ?? null;
+            text = text.replace(dataviewMatch[0], "");
+        }
+
+        const date =
+            tasksPluginDate && dataviewDate
+                ? this.settings.preferredDueDateFormat === "tasks"
+                    ? tasksPluginDate
+                    : dataviewDate
+                : tasksPluginDate || dataviewDate;
+        return { text, date };
+    }
+
+    /**
+     * Sets, replaces or removes the priority of a task line.
+     * Existing Dataview fields or Tasks plugin emoji are updated in place;
+     * otherwise the priority is added in the preferred format before the block ID.
+     * @param line The task line to update
+     * @param priority The new UI priority (1=highest, 4=lowest), or null to remove it
+     * @returns The updated line
+     */
+    public setPriority(line: string, priority: number | null): string {
+        const dataviewKey = this.settings.dataviewPriorityKey;
+        const dataviewPattern = new RegExp(
+            `\\[\\s*${dataviewKey}\\s*::\\s*[^\\]]*\\]`,
+        );
+        const tasksPattern = /[🔺⏫🔼🔽⏬]️?/u;
+
+        let updated = line;
+        let found = false;
+
+        if (dataviewPattern.test(updated)) {
+            found = true;
+            updated = updated.replace(
+                dataviewPattern,
+                priority ? `[${dataviewKey}::${priority}]` : "",
+            );
+        }
+
+        if (
+            this.settings.enableTasksPluginPriority &&
+            tasksPattern.test(updated)
+        ) {
+            found = true;
+            updated = updated.replace(
+                tasksPattern,
+                (priority && this.getPriorityEmoji(priority)) || "",
+            );
+        }
+
+        if (!found && priority) {
+            updated = this.insertBeforeBlockId(
+                updated,
+                this.formatPriority(priority),
+            );
+        }
+
+        return this.collapseSpaces(updated);
+    }
+
+    /**
+     * Formats a priority according to the preferred priority format
+     * @param priority The UI priority (1=highest, 4=lowest)
+     * @returns The priority as a Tasks plugin emoji or a Dataview field
+     */
+    public formatPriority(priority: number): string {
+        if (
+            this.settings.preferredPriorityFormat === "tasks" &&
+            this.settings.enableTasksPluginPriority
+        ) {
+            const emoji = this.getPriorityEmoji(priority);
+            if (emoji) {
+                return emoji;
+            }
+        }
+        return `[${this.settings.dataviewPriorityKey}::${priority}]`;
+    }
+
+    /**
+     * Finds the first Tasks plugin emoji mapped to a UI priority
+     */
+    private getPriorityEmoji(priority: number): string | null {
+        for (const [emoji, value] of Object.entries(
+            this.settings.tasksPluginPriorityMapping,
+        )) {
+            // Skip named mappings such as "highest"
+            if (value === priority && !/^[a-z]+$/i.test(emoji)) {
+                return emoji;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Inserts text before the block ID of a line, or at the end if it has none
+     * @param line The line to update
+     * @param text The text to insert
+     * @returns The updated line
+     */
+    public insertBeforeBlockId(line: string, text: string): string {
+        const blockIdMatch = line.match(/\s\^[a-zA-Z0-9-]+$/);
+        if (blockIdMatch) {
+            const blockIdIndex = line.lastIndexOf(blockIdMatch[0]);
+            return (
+                line.slice(0, blockIdIndex).trimEnd() +
+                ` ${text}` +
+                line.slice(blockIdIndex)
+            );
+        }
+        return `${line.trimEnd()} ${text}`;
+    }
+
+    /**
+     * Collapses repeated spaces left behind by removed metadata, keeping the indentation
+     */
+    private collapseSpaces(line: string): string {
+        const indentation = this.getExtendedLineIndentation(line);
+        return (
+            indentation +
+            line.slice(indentation.length).replace(/ {2,}/g, " ").trimEnd()
+        );
+    }
+
+    /**
+     * Extracts the Todoist fields of a task line
+     * @param taskText The task line
+     * @param showWarnings Whether to show a notice for dates in the past
+     * @param sourcePath The path of the note containing the line, which links in
+     * the task text are resolved from
+     */
+    public extractTaskDetails(
+        taskText: string,
+        showWarnings = true,
+        sourcePath = "",
+    ): TaskDetails {
         let text = taskText;
 
+        // Set links and embeds aside so the cleanup below leaves them intact
+        const links: string[] = [];
+        if (LinkConversion.isEnabled()) {
+            text = text.replace(NOTE_LINK_PATTERN, (link) => {
+                links.push(link);
+                return `\uE000${links.length - 1}\uE000`;
+            });
+        }
+
         // Initialize due date as null
         let dueDate: string | null = null;
-        let tasksPluginDate: string | null = null;
-        let dataviewDate: string | null = null;
 
         // Initialize priority as null
         const priority: number | null = null;
@@ -180,58 +902,124 @@ export class TextParsing {
             finalPriority = tasksPluginPriority ?? dataviewPriority;
         }
 
-        // Extract and remove due date in Tasks plugin format if enabled
-        if (this.settings.enableTasksPluginDueDate) {
-            const tasksPluginDueMatch = text.match(
-                /(📅)\s*(\d{4}-\d{2}-\d{2})/,
-            );
+        // Extract and remove the task dates synced to Todoist
+        const taskDates: Partial<Record<TaskDateField, string>> = {};
+        for (const field of TASK_DATE_FIELDS) {
+            if (this.getDateTarget(field) === "none") continue;
 
-            if (tasksPluginDueMatch) {
-                const rawDate = tasksPluginDueMatch[2].trim();
-                const validationResult =
-                    DateProcessing.validateAndFormatDate(rawDate);
-
-                if (validationResult) {
-                    tasksPluginDate = validationResult.formattedDate;
-
-                    if (
-                        validationResult.isInPast &&
-                        this.settings.warnPastDueDate
-                    ) {
-                        new Notice(
-                            "Task due date is in the past. Consider updating it before syncing.",
-                        );
-                    }
-                }
-                text = text.replace(tasksPluginDueMatch[0], "");
+            const extracted = this.extractTaskDate(text, field, showWarnings);
+            text = extracted.text;
+            if (extracted.date) {
+                taskDates[field] = extracted.date;
             }
         }
 
-        // Check for DataView format due date
-        const dataviewDueMatch = text.match(
+        // Extract and remove recurrence rules in Tasks plugin and Dataview format.
+        // The Tasks plugin rule runs until the next marker, tag, field or block ID.
+        let tasksPluginRecurrence: string | null = null;
+        let dataviewRecurrence: string | null = null;
+        const tasksPluginRecurrenceMatch = text.match(
+            /🔁\s*([^\u{2300}-\u{23FF}\u{2600}-\u{27BF}\u{1F100}-\u{1FAFF}\[#^]*)/u,
+        );
+        if (tasksPluginRecurrenceMatch) {
+            tasksPluginRecurrence = tasksPluginRecurrenceMatch[1].trim();
+            text = text.replace(tasksPluginRecurrenceMatch[0], "");
+        }
+        const dataviewRecurrenceMatch = text.match(
             new RegExp(
-                `\\[\\s*${this.settings.dataviewDueDateKey}\\s*::\\s*(\\d{4}-\\d{2}-\\d{2}(?:T\\d{2}:\\d{2})?)\\s*\\]`,
+                `\\[\\s*${this.settings.dataviewRecurrenceKey}\\s*::\\s*([^\\]]+)\\s*\\]`,
             ),
         );
+        if (dataviewRecurrenceMatch) {
+            dataviewRecurrence = dataviewRecurrenceMatch[1].trim();
+            text = text.replace(dataviewRecurrenceMatch[0], "");
+        }
 
-        if (dataviewDueMatch) {
-            const rawDate = dataviewDueMatch[1].trim();
-            const validationResult =
-                DateProcessing.validateAndFormatDate(rawDate);
+        const recurrenceRule =
+            tasksPluginRecurrence && dataviewRecurrence
+                ? this.settings.preferredDueDateFormat === "tasks"
+                    ? tasksPluginRecurrence
+                    : dataviewRecurrence
+                : tasksPluginRecurrence || dataviewRecurrence;
+        const recurrence = recurrenceRule
+            ? RecurrenceProcessing.toTodoistRecurrence(recurrenceRule)
+            : null;
+        if (recurrenceRule && !recurrence && showWarnings) {
+            new Notice(
+                `Recurrence "${recurrenceRule}" cannot be expressed in Todoist. The task will be synced with its due date only.`,
+            );
+        }
+
+        // Extract and remove the Dataview duration
+        let duration: Duration | null = null;
+        const durationMatch = text.match(
+            new RegExp(
+                `\\[\\s*${this.settings.dataviewDurationKey}\\s*::\\s*([^\\]]+)\\s*\\]`,
+            ),
+        );
+        if (durationMatch) {
+            duration = DateProcessing.parseDuration(durationMatch[1]);
+            if (!duration && showWarnings) {
+                new Notice(
+                    `Duration "${durationMatch[1].trim()}" is not valid. Use e.g. 45m, 1h30m or 2d.`,
+                );
+            }
+            text = text.replace(durationMatch[0], "");
+        }
 
-            if (validationResult) {
-                dataviewDate = validationResult.formattedDate;
+        // Extract and remove the Dataview section
+        let section: string | null = null;
+        const sectionKey = this.settings.dataviewSectionKey.trim();
+        if (sectionKey) {
+            const sectionMatch = text.match(
+                new RegExp(
+                    `\\[\\s*${RegexPatterns.escape(sectionKey)}\\s*::\\s*([^\\]]+)\\s*\\]`,
+                ),
+            );
+            if (sectionMatch) {
+                section = sectionMatch[1].trim();
+                text = text.replace(sectionMatch[0], "");
+            }
+        }
 
-                if (
-                    validationResult.isInPast &&
-                    this.settings.warnPastDueDate
-                ) {
-                    new Notice(
-                        "Task due date is in the past. Consider updating it before syncing.",
-                    );
-                }
+        // Extract and remove the assignee, from the Dataview field or "@name"
+        let assignee: string | null = null;
+        const assigneeKey = this.settings.dataviewAssigneeKey.trim();
+        if (assigneeKey) {
+            const assigneeMatch = text.match(
+                new RegExp(
+                    `\\[\\s*${RegexPatterns.escape(assigneeKey)}\\s*::\\s*([^\\]]+)\\s*\\]`,
+                ),
+            );
+            if (assigneeMatch) {
+                assignee = assigneeMatch[1].trim();
+                text = text.replace(assigneeMatch[0], "");
+            }
+        }
+        if (this.settings.parseAssigneeMentions) {
+            const mentionMatch = text.match(ASSIGNEE_MENTION_PATTERN);
+            if (mentionMatch) {
+                assignee = assignee || mentionMatch[2];
+                text = text.replace(mentionMatch[0], mentionMatch[1]);
             }
-            text = text.replace(dataviewDueMatch[0], "");
+        }
+
+        // Convert tags to Todoist labels before they are cleaned up
+        const labels = this.settings.enableTagLabelSync
+            ? this.extractTags(text)
+                  .filter((tag) => this.isTagSynced(tag))
+                  .map((tag) => this.tagToLabel(tag))
+            : [];
+
+        // Custom checkbox statuses can be synced as a label or project
+        const statusMapping = this.getStatusMapping(taskText);
+        const status =
+            statusMapping?.action === "label" ||
+            statusMapping?.action === "project"
+                ? statusMapping.symbol
+                : "";
+        if (statusMapping?.action === "label" && statusMapping.value.trim()) {
+            labels.push(statusMapping.value.trim());
         }
 
         // Set today as default due date if enabled and no due date found in either format
@@ -363,25 +1151,46 @@ export class TextParsing {
             );
         }
 
+        // Convert the links and embeds for Todoist
+        text = text.replace(/\uE000(\d+)\uE000/g, (_, index: string) =>
+            LinkConversion.toTodoist(links[Number(index)], sourcePath),
+        );
+
         // Clean up extra spaces and trim
         text = text.replace(/\s+/g, " ").trim();
 
-        // Determine which date to use based on settings and availability
-        if (tasksPluginDate && dataviewDate) {
-            // Both formats present, use preferred format
-            dueDate =
-                this.settings.preferredDueDateFormat === "tasks"
-                    ? tasksPluginDate
-                    : dataviewDate;
-        } else {
-            // Use whichever format is available
-            dueDate = tasksPluginDate || dataviewDate;
+        // Determine the Todoist due date and deadline by date precedence
+        const resolveDate = (target: "due" | "deadline") =>
+            this.getDatePrecedence()
+                .filter((field) => this.getDateTarget(field) === target)
+                .map((field) => taskDates[field])
+                .find((date) => date) ?? null;
+        dueDate = resolveDate("due");
+        // Todoist deadlines have no time
+        const deadline = resolveDate("deadline")?.split("T")[0] ?? null;
+
+        if (
+            dueDate &&
+            this.settings.warnPastDueDate &&
+            showWarnings &&
+            DateProcessing.isDateInPast(dueDate)
+        ) {
+            new Notice(
+                "Task due date is in the past. Consider updating it before syncing.",
+            );
         }
 
         return {
             cleanText: text,
             dueDate: dueDate,
             priority: finalPriority,
+            recurrence,
+            deadline,
+            duration,
+            labels: [...new Set(labels)],
+            section,
+            status,
+            assignee,
         };
     }
 
@@ -474,6 +1283,64 @@ export class TextParsing {
         return { isValid: true, errorMessage: "" };
     }
 
+    /**
+     * Finds the tags in a text
+     * @returns The tags without "#", e.g. "area/work"
+     */
+    public extractTags(text: string): string[] {
+        return Array.from(text.matchAll(/(?:^|\s)#([\p{L}\p{N}_/-]+)/gu))
+            .map((match) => match[1])
+            .filter((tag) => /[^\d/]/.test(tag)); // Tags cannot be purely numeric
+    }
+
+    /**
+     * Whether a tag is converted to a Todoist label by the allow and deny lists.
+     * The tag inserted on synced tasks is never converted.
+     */
+    public isTagSynced(tag: string): boolean {
+        const matches = (list: string) =>
+            list
+                .split(",")
+                .map((entry) => entry.trim().replace(/^#/, "").toLowerCase())
+                .filter((entry) => entry.length > 0)
+                .some(
+                    (entry) =>
+                        tag.toLowerCase() === entry ||
+                        tag.toLowerCase().startsWith(`${entry}/`),
+                );
+
+        const autoTag = this.settings.autoTagName.trim().replace(/^#/, "");
+        if (this.settings.enableAutoTagInsertion && tag === autoTag) {
+            return false;
+        }
+        if (
+            this.settings.tagLabelAllowList.trim() &&
+            !matches(this.settings.tagLabelAllowList)
+        ) {
+            return false;
+        }
+        return !matches(this.settings.tagLabelDenyList);
+    }
+
+    /**
+     * Converts a tag to its Todoist label using the mapping, or its own name
+     */
+    public tagToLabel(tag: string): string {
+        return this.settings.tagLabelMapping[tag] ?? tag;
+    }
+
+    /**
+     * Converts a Todoist label back to a tag, reversing the mapping
+     * @returns The tag without "#"; spaces become underscores
+     */
+    public labelToTag(label: string): string {
+        const mapped = Object.entries(this.settings.tagLabelMapping).find(
+            ([, mappedLabel]) =>
+                mappedLabel.toLowerCase() === label.toLowerCase(),
+        );
+        return mapped ? mapped[0] : label.trim().replace(/\s+/g, "_");
+    }
+
     /**
      * Validates if a string is a valid Todoist label
      * @param label The label to validate
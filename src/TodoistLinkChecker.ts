@@ -0,0 +1,393 @@
+import { App, Notice, TFile } from "obsidian";
+import { Task, TodoistRequestError } from "@doist/todoist-api-typescript";
+import TodoistContextBridgePlugin from "./main";
+import { TodoistContextBridgeSettings } from "./Settings";
+import { LinkedTaskLine, TextParsing } from "./TextParsing";
+import { TodoistTaskSync } from "./TodoistTaskSync";
+import { URILinkProcessing } from "./URILinkProcessing";
+import { TodoistV2IDs } from "./TodoistV2IDs";
+import { BrokenTodoistLinksModal } from "./TodoistModal";
+import { TodoistToObsidianModal } from "./TodoistToObsidianModal";
+import { TODOIST_CONSTANTS } from "./constants";
+
+/**
+ * A link sub-item whose Todoist task no longer exists, as marked in the note
+ */
+export interface BrokenTodoistLink extends LinkedTaskLine {
+    file: TFile;
+    lineText: string;
+    linkLineText: string;
+    title: string;
+}
+
+/**
+ * Whether a Todoist API error means the task does not exist (any more)
+ */
+export function isTodoistNotFoundError(error: unknown): boolean {
+    return error instanceof TodoistRequestError && error.httpStatusCode === 404;
+}
+
+/**
+ * Finds Todoist links in notes whose task was deleted, marks them and offers to repair them
+ */
+export class TodoistLinkChecker {
+    private TextParsing: TextParsing;
+
+    constructor(
+        private app: App,
+        private settings: TodoistContextBridgeSettings,
+        private plugin: TodoistContextBridgePlugin,
+        private TodoistTaskSync: TodoistTaskSync,
+        private URILinkProcessing: URILinkProcessing,
+        private todoistV2IDs: TodoistV2IDs,
+    ) {
+        this.TextParsing = new TextParsing(settings);
+    }
+
+    /**
+     * Checks every Todoist link in the given files. Links to missing tasks are struck
+     * through, links marked earlier whose task is back are restored.
+     */
+    async checkFiles(files: TFile[]) {
+        if (!this.plugin.todoistApi) return;
+
+        new Notice("Checking Todoist links...");
+
+        const linksByFile = new Map<TFile, LinkedTaskLine[]>();
+        for (const file of files) {
+            const content = await this.app.vault.cachedRead(file);
+            if (!TODOIST_CONSTANTS.LINK_PATTERN.test(content)) continue;
+
+            const linkedTasks = this.TextParsing.getLinkedTaskLines(
+                content.split("\n"),
+            );
+            if (linkedTasks.length > 0) {
+                linksByFile.set(file, linkedTasks);
+            }
+        }
+
+        const taskIds = new Set(
+            Array.from(linksByFile.values()).flatMap((linkedTasks) =>
+                linkedTasks.map((linkedTask) => linkedTask.taskId),
+            ),
+        );
+        if (taskIds.size === 0) {
+            new Notice("No Todoist links found");
+            return;
+        }
+
+        let missingTaskIds: Set<string>;
+        try {
+            missingTaskIds = await this.findMissingTaskIds(Array.from(taskIds));
+        } catch (error) {
+            console.error("Failed to look up linked Todoist tasks:", error);
+            new Notice(
+                "Failed to check Todoist links. Please check your connection and try again.",
+            );
+            return;
+        }
+
+        const brokenLinks: BrokenTodoistLink[] = [];
+        for (const [file, linkedTasks] of linksByFile) {
+            try {
+                brokenLinks.push(
+                    ...(await this.markLinks(
+                        file,
+                        linkedTasks,
+                        missingTaskIds,
+                    )),
+                );
+            } catch (error) {
+                console.error(
+                    `Failed to mark Todoist links in ${file.path}:`,
+                    error,
+                );
+            }
+        }
+
+        if (brokenLinks.length === 0) {
+            new Notice(`All ${taskIds.size} linked Todoist task(s) exist`);
+            return;
+        }
+
+        new BrokenTodoistLinksModal(this.app, brokenLinks, {
+            recreate: (link) => this.recreateTask(link),
+            relink: (link) => this.relinkTask(link),
+            remove: (link) => this.removeLink(link),
+        }).open();
+    }
+
+    /**
+     * Looks up the given task IDs, preferring the sync cache
+     * @returns The IDs Todoist reports as not found or deleted
+     */
+    private async findMissingTaskIds(taskIds: string[]): Promise<Set<string>> {
+        const missing = new Set<string>();
+        const tasks = await this.plugin.fetchTasksById(taskIds, missing);
+        tasks.forEach((task, taskId) => {
+            if (task.isDeleted) {
+                missing.add(taskId);
+            }
+        });
+        return missing;
+    }
+
+    /**
+     * Marks the links of missing tasks in a file and unmarks the others
+     * @returns The broken links, with their lines as written
+     */
+    private async markLinks(
+        file: TFile,
+        linkedTasks: LinkedTaskLine[],
+        missingTaskIds: Set<string>,
+    ): Promise<BrokenTodoistLink[]> {
+        const brokenLinks: BrokenTodoistLink[] = [];
+
+        await this.app.vault.process(file, (content) => {
+            const lines = content.split("\n");
+            // Read the links again, in case the note changed since it was scanned
+            const currentLinks = this.TextParsing.getLinkedTaskLines(lines);
+
+            for (const linkedTask of currentLinks) {
+                if (
+                    !linkedTasks.some(
+                        (link) => link.taskId === linkedTask.taskId,
+                    )
+                ) {
+                    continue;
+                }
+
+                const linkLineText = missingTaskIds.has(linkedTask.taskId)
+                    ? this.TextParsing.markBrokenTodoistLink(
+                          lines[linkedTask.linkLine],
+                      )
+                    : this.TextParsing.unmarkBrokenTodoistLink(
+                          lines[linkedTask.linkLine],
+                      );
+                lines[linkedTask.linkLine] = linkLineText;
+
+                if (missingTaskIds.has(linkedTask.taskId)) {
+                    brokenLinks.push({
+                        ...linkedTask,
+                        file,
+                        lineText: lines[linkedTask.line],
+                        linkLineText,
+                        title:
+                            this.TextParsing.extractTaskDetails(
+                                lines[linkedTask.line],
+                                false,
+                                file.path,
+                            ).cleanText || file.basename,
+                    });
+                }
+            }
+            return lines.join("\n");
+        });
+
+        return brokenLinks;
+    }
+
+    /**
+     * Creates a new Todoist task from the task line and points the link at it
+     */
+    private async recreateTask(link: BrokenTodoistLink): Promise<boolean> {
+        try {
+            const content = await this.app.vault.read(link.file);
+            const lines = content.split("\n");
+            const line = this.TextParsing.findNearestLine(
+                lines,
+                link.lineText,
+                link.line,
+            );
+            if (line < 0) {
+                new Notice(
+                    "The task line changed since the check. Please check the links again.",
+                );
+                return false;
+            }
+
+            const blockId =
+                this.TextParsing.extractBlockId(link.lineText) ??
+                this.URILinkProcessing.generateUniqueBlockId(
+                    this.collectBlockIds(lines),
+                );
+            const advancedUri =
+                await this.URILinkProcessing.generateAdvancedUriToBlockInFile(
+                    blockId,
+                    link.file,
+                );
+
+            const taskDetails = this.TextParsing.extractTaskDetails(
+                link.lineText,
+                false,
+                link.file.path,
+            );
+            const projectId =
+                this.plugin.linkIndex.findByTaskId(link.taskId)?.projectId ||
+                this.settings.todoistDefaultProject;
+            const taskId = await this.TodoistTaskSync.createTodoistTask(
+                link.title,
+                TODOIST_CONSTANTS.FORMAT_STRINGS.ORIGINAL_TASK(
+                    advancedUri,
+                    window.moment().format(this.settings.timestampFormat),
+                    this.settings.useMdLinkFormat,
+                ),
+                taskDetails.dueDate ?? "",
+                taskDetails.priority?.toString() ||
+                    this.settings.todoistDefaultPriority.toString(),
+                projectId,
+                { taskDetails },
+            );
+
+            return await this.replaceLink(
+                link,
+                await this.todoistV2IDs.getV2Id(taskId),
+                blockId,
+                projectId,
+            );
+        } catch (error) {
+            console.error("Failed to recreate Todoist task:", error);
+            new Notice(
+                "Failed to recreate the task in Todoist. Please try again.",
+            );
+            return false;
+        }
+    }
+
+    /**
+     * Asks for another Todoist task and points the link at it
+     */
+    private relinkTask(link: BrokenTodoistLink): Promise<boolean> {
+        return new Promise((resolve) => {
+            const modal = new TodoistToObsidianModal(
+                this.app,
+                this.plugin,
+                async (task: Task) => {
+                    resolve(
+                        await this.replaceLink(
+                            link,
+                            await this.todoistV2IDs.getV2Id(task.id),
+                            null,
+                            task.projectId,
+                        ),
+                    );
+                },
+                this.todoistV2IDs,
+                "Relink Todoist task",
+                "Relink task",
+            );
+            modal.open();
+        });
+    }
+
+    /**
+     * Deletes the broken link sub-item and forgets the task
+     */
+    private async removeLink(link: BrokenTodoistLink): Promise<boolean> {
+        let removed = false;
+        try {
+            await this.app.vault.process(link.file, (content) => {
+                const lines = content.split("\n");
+                const linkLine = this.TextParsing.findNearestLine(
+                    lines,
+                    link.linkLineText,
+                    link.linkLine,
+                );
+                if (linkLine >= 0) {
+                    lines.splice(linkLine, 1);
+                    removed = true;
+                }
+                return lines.join("\n");
+            });
+        } catch (error) {
+            console.error("Failed to remove Todoist link:", error);
+        }
+
+        if (!removed) {
+            new Notice(
+                "The link changed since the check. Please check the links again.",
+            );
+            return false;
+        }
+        await this.plugin.linkIndex.remove(link.taskId);
+        return true;
+    }
+
+    /**
+     * Rewrites the broken link sub-item to point at another task and updates the index
+     * @param blockId Block ID to add to the task line if it has none, or null to generate one
+     */
+    private async replaceLink(
+        link: BrokenTodoistLink,
+        taskId: string,
+        blockId: string | null,
+        projectId: string | null,
+    ): Promise<boolean> {
+        let replaced = false;
+        let linkedBlockId = blockId;
+        try {
+            await this.app.vault.process(link.file, (content) => {
+                const lines = content.split("\n");
+                const line = this.TextParsing.findNearestLine(
+                    lines,
+                    link.lineText,
+                    link.line,
+                );
+                const linkLine = this.TextParsing.findNearestLine(
+                    lines,
+                    link.linkLineText,
+                    link.linkLine,
+                );
+                if (line < 0 || linkLine < 0) {
+                    return content;
+                }
+
+                linkedBlockId = this.TextParsing.extractBlockId(lines[line]);
+                if (!linkedBlockId) {
+                    linkedBlockId =
+                        blockId ??
+                        this.URILinkProcessing.generateUniqueBlockId(
+                            this.collectBlockIds(lines),
+                        );
+                    lines[line] = `${lines[line].trimEnd()} ^${linkedBlockId}`;
+                }
+                // The formatted link starts with a line break to append it after the task
+                lines[linkLine] = this.TodoistTaskSync.formatTodoistLink(
+                    lines[line],
+                    `https://app.todoist.com/app/task/${taskId}`,
+                    this.TextParsing.isListItem(lines[line]),
+                    this.TodoistTaskSync.detectIndentWithTabs(content),
+                ).slice(1);
+                replaced = true;
+                return lines.join("\n");
+            });
+        } catch (error) {
+            console.error("Failed to update Todoist link:", error);
+        }
+
+        if (!replaced) {
+            new Notice(
+                "The task changed since the check. Please check the links again.",
+            );
+            return false;
+        }
+
+        await this.plugin.linkIndex.remove(link.taskId);
+        await this.TodoistTaskSync.recordLink(
+            taskId,
+            linkedBlockId,
+            projectId,
+            undefined,
+            link.file,
+        );
+        return true;
+    }
+
+    private collectBlockIds(lines: string[]): Set<string> {
+        return new Set(
+            lines
+                .map((line) => this.TextParsing.extractBlockId(line))
+                .filter((blockId): blockId is string => blockId !== null),
+        );
+    }
+}
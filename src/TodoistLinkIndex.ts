@@ -0,0 +1,201 @@
+import { TaskSnapshot } from "./TaskConflictResolver";
+
+/**
+ * A link between an Obsidian note (or a block within it) and a Todoist task
+ */
+export interface TodoistLinkEntry {
+    /** Todoist task ID as written in the note's task link */
+    taskId: string;
+    /** Vault path of the note containing the link */
+    filePath: string;
+    /** Frontmatter UID of the note, if it has one */
+    noteUid: string | null;
+    /** Block ID of the linked line; null for tasks linked to the whole note */
+    blockId: string | null;
+    /** Todoist project of the task when it was last synced */
+    projectId: string | null;
+    /** ISO timestamp of the last create, link, import or sync */
+    lastSynced: string;
+    /** Field values both sides agreed on at the last sync, used to detect conflicts */
+    snapshot?: Partial<TaskSnapshot>;
+}
+
+/**
+ * Persisted index of Obsidian ↔ Todoist task links for constant-time lookups
+ * in both directions without scanning the vault or paging through Todoist
+ */
+export class TodoistLinkIndex {
+    private entriesByTaskId = new Map<string, TodoistLinkEntry>();
+    private taskIdsByBlock = new Map<string, string>();
+    private taskIdsByNoteBlock = new Map<string, string>();
+
+    constructor(
+        entries: TodoistLinkEntry[] | undefined,
+        private persist: () => Promise<void>,
+    ) {
+        (entries ?? []).forEach((entry) => this.addEntry(entry));
+    }
+
+    findByTaskId(taskId: string): TodoistLinkEntry | null {
+        return this.entriesByTaskId.get(taskId) ?? null;
+    }
+
+    /**
+     * Finds the task linked to a block, or to the note itself when blockId is null.
+     * Falls back to the note's UID, which still matches after the note was moved
+     * while the plugin was not running.
+     */
+    findByBlock(
+        filePath: string,
+        blockId: string | null,
+        noteUid: string | null = null,
+    ): TodoistLinkEntry | null {
+        const taskId =
+            this.taskIdsByBlock.get(this.blockKey(filePath, blockId)) ??
+            (noteUid
+                ? this.taskIdsByNoteBlock.get(this.blockKey(noteUid, blockId))
+                : undefined);
+        return taskId ? this.findByTaskId(taskId) : null;
+    }
+
+    findByFile(filePath: string): TodoistLinkEntry[] {
+        return this.getEntries().filter((entry) => entry.filePath === filePath);
+    }
+
+    getEntries(): TodoistLinkEntry[] {
+        return Array.from(this.entriesByTaskId.values());
+    }
+
+    /**
+     * Adds or replaces the entry for a task. An entry without a snapshot keeps the
+     * snapshot of the entry it replaces.
+     * @param save Whether to save the index right away
+     */
+    async upsert(
+        entry: Omit<TodoistLinkEntry, "lastSynced"> &
+            Partial<Pick<TodoistLinkEntry, "lastSynced">>,
+        save = true,
+    ) {
+        const snapshot =
+            entry.snapshot ?? this.entriesByTaskId.get(entry.taskId)?.snapshot;
+        this.removeEntry(entry.taskId);
+        this.addEntry({
+            ...entry,
+            lastSynced: entry.lastSynced ?? new Date().toISOString(),
+            ...(snapshot ? { snapshot } : {}),
+        });
+        if (save) {
+            await this.persist();
+        }
+    }
+
+    async remove(taskId: string) {
+        if (this.removeEntry(taskId)) {
+            await this.persist();
+        }
+    }
+
+    /**
+     * Stores the snapshot of a completed sync and updates the last-synced timestamp
+     * @param save Whether to save the index right away
+     * @returns Whether the task has an entry in the index
+     */
+    async recordSync(
+        taskId: string,
+        snapshot: Partial<TaskSnapshot>,
+        save = true,
+    ): Promise<boolean> {
+        const entry = this.entriesByTaskId.get(taskId);
+        if (!entry) return false;
+
+        entry.snapshot = snapshot;
+        entry.lastSynced = new Date().toISOString();
+        if (save) {
+            await this.persist();
+        }
+        return true;
+    }
+
+    /**
+     * Saves the index, e.g. after a batch of unsaved updates
+     */
+    async save() {
+        await this.persist();
+    }
+
+    /**
+     * Moves entries of a renamed file, or of every file in a renamed folder
+     */
+    async handleRename(oldPath: string, newPath: string) {
+        const moved = this.getEntries().filter((entry) =>
+            this.isWithin(entry.filePath, oldPath),
+        );
+        if (moved.length === 0) return;
+
+        for (const entry of moved) {
+            this.removeEntry(entry.taskId);
+            this.addEntry({
+                ...entry,
+                filePath: newPath + entry.filePath.slice(oldPath.length),
+            });
+        }
+        await this.persist();
+    }
+
+    /**
+     * Drops entries of a deleted file, or of every file in a deleted folder
+     */
+    async handleDelete(path: string) {
+        const deleted = this.getEntries().filter((entry) =>
+            this.isWithin(entry.filePath, path),
+        );
+        if (deleted.length === 0) return;
+
+        deleted.forEach((entry) => this.removeEntry(entry.taskId));
+        await this.persist();
+    }
+
+    toJSON(): TodoistLinkEntry[] {
+        return this.getEntries();
+    }
+
+    private addEntry(entry: TodoistLinkEntry) {
+        this.entriesByTaskId.set(entry.taskId, entry);
+        this.taskIdsByBlock.set(
+            this.blockKey(entry.filePath, entry.blockId),
+            entry.taskId,
+        );
+        if (entry.noteUid) {
+            this.taskIdsByNoteBlock.set(
+                this.blockKey(entry.noteUid, entry.blockId),
+                entry.taskId,
+            );
+        }
+    }
+
+    private removeEntry(taskId: string): boolean {
+        const entry = this.entriesByTaskId.get(taskId);
+        if (!entry) return false;
+
+        this.entriesByTaskId.delete(taskId);
+        const key = this.blockKey(entry.filePath, entry.blockId);
+        if (this.taskIdsByBlock.get(key) === taskId) {
+            this.taskIdsByBlock.delete(key);
+        }
+        if (entry.noteUid) {
+            const noteKey = this.blockKey(entry.noteUid, entry.blockId);
+            if (this.taskIdsByNoteBlock.get(noteKey) === taskId) {
+                this.taskIdsByNoteBlock.delete(noteKey);
+            }
+        }
+        return true;
+    }
+
+    private blockKey(note: string, blockId: string | null): string {
+        return blockId ? `${note}#^${blockId}` : note;
+    }
+
+    private isWithin(filePath: string, path: string): boolean {
+        return filePath === path || filePath.startsWith(`${path}/`);
+    }
+}
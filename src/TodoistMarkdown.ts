@@ -0,0 +1,219 @@
+/**
+ * Converts Todoist task descriptions and titles to Obsidian Markdown.
+ *
+ * | Todoist                        | Obsidian, below the task              |
+ * | ------------------------------ | ------------------------------------- |
+ * | Paragraph                      | - Paragraph                           |
+ * | Line of the same paragraph     | indented below the paragraph's item   |
+ * | # Heading                      | - **Heading**                         |
+ * | * item / + item / - item       | - item, nested by its indentation     |
+ * | 1. item                        | 1. item, nested by its indentation    |
+ * | - [ ] item / * [x] item        | - [ ] item / - [x] item               |
+ * | https://example.com            | <https://example.com>                 |
+ * | todoist://task?id=123          | [Todoist task](todoist://task?id=123) |
+ * | **bold**, *italic*, `code`     | unchanged                             |
+ * | ``` fenced code ```            | indented below the previous item      |
+ * | | table | with | a header |   | indented below the previous item      |
+ *
+ * List items that follow a paragraph or heading are nested below it. Blank lines
+ * separate paragraphs and are kept inside code blocks.
+ */
+
+const HEADING_PATTERN = /^#{1,6}\s+(.*?)\s*#*$/;
+const CHECKLIST_PATTERN = /^[-*+]\s+\[([ xX])\]\s+(.*)$/;
+// A marker followed by a space, so "**bold** text" is not a list item
+const BULLET_PATTERN = /^[-*+]\s+(.*)$/;
+const ORDERED_PATTERN = /^(\d+)[.)]\s+(.*)$/;
+const FENCE_PATTERN = /^(`{3,}|~{3,})/;
+const RULE_PATTERN = /^(?:-{3,}|\*{3,}|_{3,})$/;
+const TABLE_ROW_PATTERN = /^\|.*\|$/;
+const TABLE_DELIMITER_PATTERN = /^\|(?:\s*:?-+:?\s*\|)+$/;
+
+// Inline code, Markdown links and autolinks are kept as they are
+const PROTECTED_INLINE_PATTERN =
+    /(`+)[^`]*?\1|!?\[[^\[\]]*\]\([^()\s]*(?:\s+"[^"]*")?\)|<[a-z][a-z0-9+.-]*:[^<>\s]+>/gi;
+const BARE_URL_PATTERN = /\b(?:https?|todoist):\/\/[^\s<>()]+/gi;
+
+export class TodoistMarkdown {
+    /**
+     * Converts the lines of a Todoist description to nested Obsidian list items
+     * @param lines The description lines
+     * @param baseIndentation Indentation of the top-level items
+     * @returns The Obsidian lines
+     */
+    static toObsidianLines(lines: string[], baseIndentation: string): string[] {
+        const result: string[] = [];
+        const indentUnit = this.getIndentUnit(lines);
+        let afterText = false;
+        let itemLevel = 0;
+        let inParagraph = false;
+        let inTable = false;
+        let fence: { marker: string; indent: number } | null = null;
+
+        for (const [index, line] of lines.entries()) {
+            const leading = line.match(/^\s*/)?.[0] ?? "";
+            const trimmedLine = line.trim();
+            const childIndentation =
+                baseIndentation + "\t".repeat(itemLevel + 1);
+
+            // Keep code blocks as they are, below the previous item. Blank lines keep
+            // the indentation so that the block stays below the task.
+            if (fence) {
+                result.push(
+                    childIndentation +
+                        line.slice(Math.min(fence.indent, leading.length)),
+                );
+                if (trimmedLine.startsWith(fence.marker)) {
+                    fence = null;
+                }
+                continue;
+            }
+
+            // Keep table rows as they are, below the previous item
+            if (inTable && TABLE_ROW_PATTERN.test(trimmedLine)) {
+                result.push(childIndentation + trimmedLine);
+                continue;
+            }
+            inTable = false;
+
+            if (!trimmedLine || RULE_PATTERN.test(trimmedLine)) {
+                inParagraph = false;
+                continue;
+            }
+
+            const fenceMatch = trimmedLine.match(FENCE_PATTERN);
+            if (fenceMatch) {
+                inParagraph = false;
+                fence = { marker: fenceMatch[1], indent: leading.length };
+                result.push(childIndentation + trimmedLine);
+                continue;
+            }
+
+            if (
+                TABLE_ROW_PATTERN.test(trimmedLine) &&
+                TABLE_DELIMITER_PATTERN.test(lines[index + 1]?.trim() ?? "")
+            ) {
+                inParagraph = false;
+                inTable = true;
+                // A table needs a blank line before it to not continue the item's text
+                if (result.length > 0) {
+                    result.push(childIndentation);
+                }
+                result.push(childIndentation + trimmedLine);
+                continue;
+            }
+
+            const nesting = Math.round(
+                this.getIndentWidth(leading) / indentUnit,
+            );
+            const listLevel = (afterText ? 1 : 0) + nesting;
+
+            const checklistMatch = trimmedLine.match(CHECKLIST_PATTERN);
+            const bulletMatch = trimmedLine.match(BULLET_PATTERN);
+            const orderedMatch = trimmedLine.match(ORDERED_PATTERN);
+            const headingMatch = trimmedLine.match(HEADING_PATTERN);
+            const isText =
+                !checklistMatch &&
+                !bulletMatch &&
+                !orderedMatch &&
+                !headingMatch;
+
+            // Further lines of a paragraph continue its item
+            if (isText && inParagraph) {
+                result.push(
+                    `${baseIndentation}  ${this.toObsidianInline(trimmedLine)}`,
+                );
+                continue;
+            }
+            inParagraph = isText;
+
+            let item: string;
+            if (checklistMatch) {
+                itemLevel = listLevel;
+                const status = checklistMatch[1] === " " ? " " : "x";
+                item = `- [${status}] ${this.toObsidianInline(checklistMatch[2])}`;
+            } else if (bulletMatch) {
+                itemLevel = listLevel;
+                item = `- ${this.toObsidianInline(bulletMatch[1])}`;
+            } else if (orderedMatch) {
+                itemLevel = listLevel;
+                item = `${orderedMatch[1]}. ${this.toObsidianInline(orderedMatch[2])}`;
+            } else if (headingMatch) {
+                // Headings cannot be nested in a list, so they become bold items
+                itemLevel = 0;
+                afterText = true;
+                item = `- **${this.toObsidianInline(headingMatch[1])}**`;
+            } else {
+                itemLevel = 0;
+                afterText = true;
+                item = `- ${this.toObsidianInline(trimmedLine)}`;
+            }
+
+            result.push(baseIndentation + "\t".repeat(itemLevel) + item);
+        }
+
+        // Drop the blank lines of a code block that is not closed
+        while (result.length > 0 && !result[result.length - 1].trim()) {
+            result.pop();
+        }
+        return result;
+    }
+
+    /**
+     * Converts the inline Markdown of a Todoist title or description line
+     * @param text The Todoist text
+     * @param wrapUrls Whether bare web URLs are wrapped as autolinks
+     * @returns The Obsidian text
+     */
+    static toObsidianInline(text: string, wrapUrls = true): string {
+        let result = "";
+        let lastIndex = 0;
+        for (const match of text.matchAll(PROTECTED_INLINE_PATTERN)) {
+            result +=
+                this.convertBareUrls(
+                    text.slice(lastIndex, match.index),
+                    wrapUrls,
+                ) + match[0];
+            lastIndex = (match.index ?? 0) + match[0].length;
+        }
+        return result + this.convertBareUrls(text.slice(lastIndex), wrapUrls);
+    }
+
+    private static convertBareUrls(text: string, wrapUrls: boolean): string {
+        return text.replace(BARE_URL_PATTERN, (match) => {
+            // Trailing punctuation belongs to the sentence
+            const url = match.replace(/[.,;:!?'"*_~]+$/, "");
+            const rest = match.slice(url.length);
+
+            if (/^todoist:/i.test(url)) {
+                const type = url.match(/^todoist:\/\/(task|project)\b/i)?.[1];
+                const label = type
+                    ? `Todoist ${type.toLowerCase()}`
+                    : "Todoist link";
+                return `[${label}](${url})${rest}`;
+            }
+            return wrapUrls ? `<${url}>${rest}` : match;
+        });
+    }
+
+    /**
+     * The width of one nesting level, from the smallest indentation of the list items
+     */
+    private static getIndentUnit(lines: string[]): number {
+        const widths = lines
+            .filter((line) => {
+                const trimmedLine = line.trim();
+                return (
+                    BULLET_PATTERN.test(trimmedLine) ||
+                    ORDERED_PATTERN.test(trimmedLine)
+                );
+            })
+            .map((line) => this.getIndentWidth(line.match(/^\s*/)?.[0] ?? ""))
+            .filter((width) => width > 0);
+        return widths.length > 0 ? Math.min(...widths) : 4;
+    }
+
+    private static getIndentWidth(indentation: string): number {
+        return indentation.replace(/\t/g, "    ").length;
+    }
+}
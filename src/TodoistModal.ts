@@ -1,15 +1,72 @@
 import { Modal, App, Notice, ToggleComponent } from "obsidian";
+import { Duration, User } from "@doist/todoist-api-typescript";
 import TodoistContextBridgePlugin from "./main";
 import { DateProcessing } from "./DateProcessing";
-import { fetchAllPages } from "./TodoistPaginationHelper";
+import { ConflictSide, FieldConflict } from "./TaskConflictResolver";
+import { BrokenTodoistLink } from "./TodoistLinkChecker";
+
+/**
+ * A Todoist section picked in the modal. Sections without an ID are created on submit.
+ */
+export interface TodoistSectionChoice {
+    id: string | null;
+    name: string;
+}
+
+/**
+ * A collaborator picked in the modal. Without an ID, the name is looked up among the
+ * collaborators of the task's project on submit.
+ */
+export interface TodoistAssigneeChoice {
+    id: string | null;
+    name: string;
+}
+
+/**
+ * Finds the collaborator a name on a task line refers to: the full name, the email
+ * or its part before "@", the name without spaces, or a first name only one
+ * collaborator has. Names are compared case-insensitively.
+ */
+export function findCollaborator(
+    collaborators: User[],
+    name: string,
+): User | null {
+    const normalize = (value: string) =>
+        value
+            .trim()
+            .toLowerCase()
+            .replace(/[\s._-]+/g, "");
+    const target = name.trim().toLowerCase();
+    if (!target) return null;
+
+    const exactMatch = collaborators.find(
+        (user) =>
+            user.name.toLowerCase() === target ||
+            user.email.toLowerCase() === target ||
+            user.email.toLowerCase().split("@")[0] === target ||
+            normalize(user.name) === normalize(target),
+    );
+    if (exactMatch) return exactMatch;
+
+    const firstNameMatches = collaborators.filter(
+        (user) => user.name.toLowerCase().split(/\s+/)[0] === target,
+    );
+    return firstNameMatches.length === 1 ? firstNameMatches[0] : null;
+}
 
 // Modal for creating Todoist tasks from task text
 export class TaskToTodoistModal extends Modal {
     private titleInput = ""; // Title should start empty as it's required
     private descriptionInput = ""; // Description should start empty
     private dueDateInput = ""; // Due date starts empty unless setTodayAsDefaultDueDate is true
+    private deadlineInput = ""; // Deadline starts empty unless the task line has one
+    private durationInput = ""; // Duration starts empty unless the task line has one
     private priorityInput: string; // Will be set in constructor from settings
     private projectInput: string; // Will be set in constructor from settings
+    private sectionInput: TodoistSectionChoice | null = null; // Set when the sections of the project are loaded
+    private defaultSection: string; // Name of the section to preselect in each project
+    private assigneeInput: TodoistAssigneeChoice | null = null; // Set when the collaborators of a shared project are loaded
+    private defaultAssignee: string; // Name of the collaborator to preselect
     private skipWeekends: boolean; // Will be set in constructor from settings
     private plugin: TodoistContextBridgePlugin;
     private onSubmit: (
@@ -18,6 +75,10 @@ export class TaskToTodoistModal extends Modal {
         dueDate: string,
         priority: string,
         projectId: string,
+        deadline: string,
+        duration: Duration | null,
+        section: TodoistSectionChoice | null,
+        assignee: TodoistAssigneeChoice | null,
     ) => void;
 
     constructor(
@@ -33,11 +94,24 @@ export class TaskToTodoistModal extends Modal {
             dueDate: string,
             priority: string,
             projectId: string,
+            deadline: string,
+            duration: Duration | null,
+            section: TodoistSectionChoice | null,
+            assignee: TodoistAssigneeChoice | null,
         ) => void,
+        defaultDeadline = "",
+        defaultDuration = "",
+        defaultSection = "",
+        defaultProjectId = "",
+        defaultAssignee = "",
     ) {
         super(app);
         this.plugin = plugin;
+        this.defaultSection = defaultSection;
+        this.defaultAssignee = defaultAssignee;
         this.titleInput = defaultTitle;
+        this.deadlineInput = defaultDeadline;
+        this.durationInput = defaultDuration;
         this.descriptionInput = defaultDescription;
         this.dueDateInput =
             defaultDueDate ||
@@ -47,7 +121,8 @@ export class TaskToTodoistModal extends Modal {
         this.priorityInput =
             defaultPriority ||
             this.plugin.settings.todoistDefaultPriority.toString();
-        this.projectInput = this.plugin.settings.todoistDefaultProject;
+        this.projectInput =
+            defaultProjectId || this.plugin.settings.todoistDefaultProject;
         this.skipWeekends = this.plugin.settings.skipWeekends;
         this.onSubmit = onSubmit;
     }
@@ -92,7 +167,7 @@ export class TaskToTodoistModal extends Modal {
 
         // Add help text for date formats
         const dateHelpText = dueDateContainer.createEl("div", {
-            text: "Or use relative dates, e.g., 0d (today), 1d (tomorrow), +2d (in 2 days). Relative dates can skip weekends if enabled below.",
+            text: 'Or use relative dates in days, weeks, months, years or business days, e.g., 0d (today), 1d (tomorrow), +2w (in 2 weeks), +3b (in 3 working days), or expressions such as "tomorrow 9am", "next friday" or "end of month".',
             cls: "setting-item-description",
         });
         dateHelpText.style.fontSize = "0.8em";
@@ -102,55 +177,29 @@ export class TaskToTodoistModal extends Modal {
         const dueDateInput = dueDateContainer.createEl("input", {
             type: "text",
             cls: "todoist-input-field",
-            placeholder: "YYYY-MM-DD, +1d, 1d, or 0d for today",
+            placeholder: "YYYY-MM-DD, +1d, tomorrow 9am or next friday",
             value: this.dueDateInput,
         });
         dueDateInput.style.width = "100%";
         dueDateInput.style.height = "40px";
         dueDateInput.style.marginBottom = "0.5em";
+        const updateDueDatePreview = addDatePreview(
+            dueDateContainer,
+            () => this.dueDateInput,
+            () => this.skipWeekends,
+        );
         dueDateInput.addEventListener("input", (e) => {
             const inputValue = (e.target as HTMLInputElement).value;
             this.dueDateInput = inputValue;
 
-            // Show/hide weekend skip option based on whether it's a relative date
-            const isRelativeDate = DateProcessing.isRelativeDate(
-                inputValue.trim(),
-            );
-            weekendSkipContainer.style.display = isRelativeDate
-                ? "block"
-                : "none";
-
-            // Skip validation for empty input
-            if (!inputValue) {
-                return;
-            }
+            // Show/hide weekend skip option for relative dates it applies to;
+            // business days always skip weekends
+            const relativeDateUnit =
+                DateProcessing.getRelativeDateUnit(inputValue);
+            weekendSkipContainer.style.display =
+                relativeDateUnit && relativeDateUnit !== "b" ? "block" : "none";
 
-            // Validate relative dates
-            if (isRelativeDate) {
-                if (!DateProcessing.processRelativeDate(inputValue.trim())) {
-                    new Notice(
-                        "Invalid relative date format. Please use format like: 0d, 1d, +2d",
-                    );
-                }
-                return;
-            }
-
-            // Validate absolute dates
-            if (
-                !window
-                    .moment(
-                        inputValue,
-                        ["YYYY-MM-DD", "YYYY-MM-DDTHH:mm"],
-                        true,
-                    )
-                    .isValid()
-            ) {
-                new Notice(
-                    "Invalid date format. Please use:\n" +
-                        "- Absolute dates: YYYY-MM-DD or YYYY-MM-DDTHH:mm (e.g., 2024-12-31 or 2024-12-31T15:00)\n" +
-                        "- Relative dates: 0d (today), 1d (tomorrow), +2d (in 2 days)",
-                );
-            }
+            updateDueDatePreview();
         });
 
         // Weekend skip option (initially hidden)
@@ -185,7 +234,7 @@ export class TaskToTodoistModal extends Modal {
 
         const weekendSkipDesc = textContainer.createEl("div", {
             cls: "setting-item-description",
-            text: "Skip weekends when calculating the due date (recommended for work tasks)",
+            text: "Count days as working days and move weeks, months and years off weekends (recommended for work tasks)",
         });
         weekendSkipDesc.style.fontSize = "0.8em";
         weekendSkipDesc.style.color = "var(--text-muted)";
@@ -199,6 +248,22 @@ export class TaskToTodoistModal extends Modal {
         toggle.setValue(this.skipWeekends);
         toggle.onChange((value) => {
             this.skipWeekends = value;
+            updateDueDatePreview();
+        });
+
+        // Deadline input
+        addDeadlineInput(
+            this.contentEl,
+            this.deadlineInput,
+            (value) => {
+                this.deadlineInput = value;
+            },
+            () => this.skipWeekends,
+        );
+
+        // Duration input
+        addDurationInput(this.contentEl, this.durationInput, (value) => {
+            this.durationInput = value;
         });
 
         // Priority input
@@ -311,11 +376,8 @@ export class TaskToTodoistModal extends Modal {
         // Load projects and populate dropdown
         const loadProjects = async () => {
             try {
-                const api = this.plugin.todoistApi;
-                if (!api) return;
-                const projects = await fetchAllPages((args) =>
-                    api.getProjects(args),
-                );
+                if (!this.plugin.todoistApi) return;
+                const projects = await this.plugin.fetchProjects();
                 if (projects) {
                     projectSelect.empty();
                     projects.forEach((project) => {
@@ -336,8 +398,185 @@ export class TaskToTodoistModal extends Modal {
 
         loadProjects();
 
+        // Section selection dropdown, loaded for the selected project
+        const sectionContainer = this.contentEl.createDiv({
+            cls: "todoist-input-container",
+        });
+        sectionContainer.createEl("label", { text: "Section" });
+
+        const sectionHelpText = sectionContainer.createEl("div", {
+            text: "Select a section of the project (optional)",
+            cls: "setting-item-description",
+        });
+        sectionHelpText.style.fontSize = "0.8em";
+        sectionHelpText.style.color = "var(--text-muted)";
+        sectionHelpText.style.marginBottom = "0.5em";
+
+        const sectionSelect = sectionContainer.createEl("select", {
+            cls: "todoist-input-field dropdown",
+        });
+        sectionSelect.style.width = "100%";
+        sectionSelect.style.height = "40px";
+        sectionSelect.style.marginTop = "0.5em";
+        sectionSelect.style.marginBottom = "1em";
+        sectionSelect.style.appearance = "none";
+        sectionSelect.style.paddingRight = "24px";
+        sectionSelect.style.cursor = "pointer";
+
+        // Option values are indexes into the choices, "" is no section
+        let sectionChoices: TodoistSectionChoice[] = [];
+        let sectionRequest = 0;
+
+        const loadSections = async () => {
+            const request = ++sectionRequest;
+            sectionSelect.empty();
+            sectionSelect.createEl("option", { value: "", text: "No section" });
+            sectionChoices = [];
+            this.sectionInput = null;
+            try {
+                if (!this.plugin.todoistApi || !this.projectInput) return;
+                const sections = await this.plugin.fetchSections(
+                    this.projectInput,
+                );
+                // Another project was selected while loading
+                if (request !== sectionRequest) return;
+                sectionChoices = sections.map((section) => ({
+                    id: section.id,
+                    name: section.name,
+                }));
+
+                // Preselect the section named like the heading, or offer to create it
+                const defaultName = this.defaultSection.trim();
+                let selected = defaultName
+                    ? sectionChoices.findIndex(
+                          (choice) =>
+                              choice.name.toLowerCase() ===
+                              defaultName.toLowerCase(),
+                      )
+                    : -1;
+                if (
+                    selected < 0 &&
+                    defaultName &&
+                    this.plugin.settings.createMissingSections
+                ) {
+                    sectionChoices.push({ id: null, name: defaultName });
+                    selected = sectionChoices.length - 1;
+                }
+
+                sectionChoices.forEach((choice, index) => {
+                    const option = sectionSelect.createEl("option", {
+                        value: index.toString(),
+                        text: choice.id
+                            ? choice.name
+                            : `${choice.name} (new section)`,
+                    });
+                    if (index === selected) {
+                        option.selected = true;
+                        this.sectionInput = choice;
+                    }
+                });
+            } catch (error) {
+                console.error("Failed to load sections:", error);
+                new Notice("Failed to load Todoist sections");
+            }
+        };
+
+        loadSections();
+
+        sectionSelect.addEventListener("change", (e) => {
+            const value = (e.target as HTMLSelectElement).value;
+            this.sectionInput = value ? sectionChoices[parseInt(value)] : null;
+        });
+
+        // Assignee selection dropdown, shown for shared projects only
+        const assigneeContainer = this.contentEl.createDiv({
+            cls: "todoist-input-container",
+        });
+        assigneeContainer.style.display = "none";
+        assigneeContainer.createEl("label", { text: "Assignee" });
+
+        const assigneeHelpText = assigneeContainer.createEl("div", {
+            cls: "setting-item-description",
+        });
+        assigneeHelpText.style.fontSize = "0.8em";
+        assigneeHelpText.style.color = "var(--text-muted)";
+        assigneeHelpText.style.marginBottom = "0.5em";
+
+        const assigneeSelect = assigneeContainer.createEl("select", {
+            cls: "todoist-input-field dropdown",
+        });
+        assigneeSelect.style.width = "100%";
+        assigneeSelect.style.height = "40px";
+        assigneeSelect.style.marginTop = "0.5em";
+        assigneeSelect.style.marginBottom = "1em";
+        assigneeSelect.style.appearance = "none";
+        assigneeSelect.style.paddingRight = "24px";
+        assigneeSelect.style.cursor = "pointer";
+
+        // Option values are collaborator IDs, "" is unassigned
+        let collaborators: User[] = [];
+        let assigneeRequest = 0;
+
+        const loadAssignees = async () => {
+            const request = ++assigneeRequest;
+            assigneeContainer.style.display = "none";
+            assigneeSelect.empty();
+            assigneeSelect.createEl("option", {
+                value: "",
+                text: "Unassigned",
+            });
+            collaborators = [];
+            this.assigneeInput = null;
+            try {
+                if (!this.plugin.todoistApi || !this.projectInput) return;
+                const project = (await this.plugin.fetchProjects()).find(
+                    (p) => p.id === this.projectInput,
+                );
+                if (!project?.isShared) return;
+                const projectCollaborators =
+                    await this.plugin.fetchCollaborators(this.projectInput);
+                // Another project was selected while loading
+                if (request !== assigneeRequest) return;
+                collaborators = projectCollaborators;
+
+                const defaultCollaborator = this.defaultAssignee
+                    ? findCollaborator(collaborators, this.defaultAssignee)
+                    : null;
+                assigneeHelpText.setText(
+                    this.defaultAssignee && !defaultCollaborator
+                        ? `"${this.defaultAssignee}" is not a collaborator of this project`
+                        : "Assign the task to a collaborator of the project (optional)",
+                );
+
+                collaborators.forEach((user) => {
+                    const option = assigneeSelect.createEl("option", {
+                        value: user.id,
+                        text: user.name,
+                    });
+                    if (user.id === defaultCollaborator?.id) {
+                        option.selected = true;
+                        this.assigneeInput = { id: user.id, name: user.name };
+                    }
+                });
+                assigneeContainer.style.display = "";
+            } catch (error) {
+                console.error("Failed to load collaborators:", error);
+                new Notice("Failed to load Todoist collaborators");
+            }
+        };
+
+        loadAssignees();
+
+        assigneeSelect.addEventListener("change", (e) => {
+            const value = (e.target as HTMLSelectElement).value;
+            const user = collaborators.find((c) => c.id === value);
+            this.assigneeInput = user ? { id: user.id, name: user.name } : null;
+        });
+
         projectSelect.addEventListener("change", (e) => {
             this.projectInput = (e.target as HTMLSelectElement).value;
+            loadSections();
+            loadAssignees();
         });
 
         // Task description input
@@ -433,12 +672,29 @@ export class TaskToTodoistModal extends Modal {
                 dueDate = dateValidation.formattedDate;
             }
 
+            const deadline = parseDeadlineInput(
+                this.deadlineInput,
+                this.skipWeekends,
+            );
+            if (deadline === null) {
+                return; // validateAndFormatDate will show appropriate error
+            }
+
+            const duration = parseDurationInput(this.durationInput, dueDate);
+            if (duration === undefined) {
+                return;
+            }
+
             this.onSubmit(
                 this.titleInput.trim(),
                 this.descriptionInput.trim(),
                 dueDate,
                 this.priorityInput,
                 this.projectInput,
+                deadline,
+                duration,
+                this.sectionInput,
+                this.assigneeInput,
             );
             this.close();
         });
@@ -465,6 +721,8 @@ export class NonTaskToTodoistModal extends Modal {
     private titleInput = ""; // Title should start empty as it's required
     private descriptionInput = ""; // Description should start empty
     private dueDateInput = ""; // Due date starts empty unless defaultTodayForNonTask is true
+    private deadlineInput = ""; // Deadline starts empty
+    private durationInput = ""; // Duration starts empty
     private priorityInput: string; // Will be set in constructor from settings
     private projectInput: string; // Will be set in constructor from settings
     private skipWeekends: boolean; // Will be set in constructor from settings
@@ -476,6 +734,8 @@ export class NonTaskToTodoistModal extends Modal {
         dueDate: string,
         priority: string,
         projectId: string,
+        deadline: string,
+        duration: Duration | null,
     ) => void;
 
     constructor(
@@ -488,7 +748,10 @@ export class NonTaskToTodoistModal extends Modal {
             dueDate: string,
             priority: string,
             projectId: string,
+            deadline: string,
+            duration: Duration | null,
         ) => void,
+        defaultProjectId = "",
     ) {
         super(app);
         this.includeSelectedText = includeSelectedText;
@@ -502,7 +765,8 @@ export class NonTaskToTodoistModal extends Modal {
             : "";
         this.priorityInput =
             this.plugin.settings.todoistDefaultPriority.toString();
-        this.projectInput = this.plugin.settings.todoistDefaultProject;
+        this.projectInput =
+            defaultProjectId || this.plugin.settings.todoistDefaultProject;
         this.skipWeekends = this.plugin.settings.skipWeekends;
         this.onSubmit = onSubmit;
     }
@@ -546,7 +810,7 @@ export class NonTaskToTodoistModal extends Modal {
 
         // Add help text for date formats
         const dateHelpText = dueDateContainer.createEl("div", {
-            text: "Or use relative dates, e.g., 0d (today), 1d (tomorrow), +2d (in 2 days). Relative dates can skip weekends if enabled below.",
+            text: 'Or use relative dates in days, weeks, months, years or business days, e.g., 0d (today), 1d (tomorrow), +2w (in 2 weeks), +3b (in 3 working days), or expressions such as "tomorrow 9am", "next friday" or "end of month".',
             cls: "setting-item-description",
         });
         dateHelpText.style.fontSize = "0.8em";
@@ -556,55 +820,29 @@ export class NonTaskToTodoistModal extends Modal {
         const dueDateInput = dueDateContainer.createEl("input", {
             type: "text",
             cls: "todoist-input-field",
-            placeholder: "YYYY-MM-DD, +1d, 1d, or 0d for today",
+            placeholder: "YYYY-MM-DD, +1d, tomorrow 9am or next friday",
             value: this.dueDateInput,
         });
         dueDateInput.style.width = "100%";
         dueDateInput.style.height = "40px";
         dueDateInput.style.marginBottom = "0.5em";
+        const updateDueDatePreview = addDatePreview(
+            dueDateContainer,
+            () => this.dueDateInput,
+            () => this.skipWeekends,
+        );
         dueDateInput.addEventListener("input", (e) => {
             const inputValue = (e.target as HTMLInputElement).value;
             this.dueDateInput = inputValue;
 
-            // Show/hide weekend skip option based on whether it's a relative date
-            const isRelativeDate = DateProcessing.isRelativeDate(
-                inputValue.trim(),
-            );
-            weekendSkipContainer.style.display = isRelativeDate
-                ? "block"
-                : "none";
-
-            // Skip validation for empty input
-            if (!inputValue) {
-                return;
-            }
+            // Show/hide weekend skip option for relative dates it applies to;
+            // business days always skip weekends
+            const relativeDateUnit =
+                DateProcessing.getRelativeDateUnit(inputValue);
+            weekendSkipContainer.style.display =
+                relativeDateUnit && relativeDateUnit !== "b" ? "block" : "none";
 
-            // Validate relative dates
-            if (isRelativeDate) {
-                if (!DateProcessing.processRelativeDate(inputValue.trim())) {
-                    new Notice(
-                        "Invalid relative date format. Please use format like: 0d, 1d, +2d",
-                    );
-                }
-                return;
-            }
-
-            // Validate absolute dates
-            if (
-                !window
-                    .moment(
-                        inputValue,
-                        ["YYYY-MM-DD", "YYYY-MM-DDTHH:mm"],
-                        true,
-                    )
-                    .isValid()
-            ) {
-                new Notice(
-                    "Invalid date format. Please use:\n" +
-                        "- Absolute dates: YYYY-MM-DD or YYYY-MM-DDTHH:mm (e.g., 2024-12-31 or 2024-12-31T15:00)\n" +
-                        "- Relative dates: 0d (today), 1d (tomorrow), +2d (in 2 days)",
-                );
-            }
+            updateDueDatePreview();
         });
 
         // Weekend skip option (initially hidden)
@@ -639,7 +877,7 @@ export class NonTaskToTodoistModal extends Modal {
 
         const weekendSkipDesc = textContainer.createEl("div", {
             cls: "setting-item-description",
-            text: "Skip weekends when calculating the due date (recommended for work tasks)",
+            text: "Count days as working days and move weeks, months and years off weekends (recommended for work tasks)",
         });
         weekendSkipDesc.style.fontSize = "0.8em";
         weekendSkipDesc.style.color = "var(--text-muted)";
@@ -653,6 +891,22 @@ export class NonTaskToTodoistModal extends Modal {
         toggle.setValue(this.skipWeekends);
         toggle.onChange((value) => {
             this.skipWeekends = value;
+            updateDueDatePreview();
+        });
+
+        // Deadline input
+        addDeadlineInput(
+            this.contentEl,
+            this.deadlineInput,
+            (value) => {
+                this.deadlineInput = value;
+            },
+            () => this.skipWeekends,
+        );
+
+        // Duration input
+        addDurationInput(this.contentEl, this.durationInput, (value) => {
+            this.durationInput = value;
         });
 
         // Priority selection
@@ -765,11 +1019,8 @@ export class NonTaskToTodoistModal extends Modal {
         // Load projects and populate dropdown
         const loadProjects = async () => {
             try {
-                const api = this.plugin.todoistApi;
-                if (!api) return;
-                const projects = await fetchAllPages((args) =>
-                    api.getProjects(args),
-                );
+                if (!this.plugin.todoistApi) return;
+                const projects = await this.plugin.fetchProjects();
                 if (projects) {
                     projectSelect.empty();
                     projects.forEach((project) => {
@@ -897,12 +1148,27 @@ export class NonTaskToTodoistModal extends Modal {
                 dueDate = dateValidation.formattedDate;
             }
 
+            const deadline = parseDeadlineInput(
+                this.deadlineInput,
+                this.skipWeekends,
+            );
+            if (deadline === null) {
+                return; // validateAndFormatDate will show appropriate notice
+            }
+
+            const duration = parseDurationInput(this.durationInput, dueDate);
+            if (duration === undefined) {
+                return;
+            }
+
             this.onSubmit(
                 trimmedTitle,
                 this.descriptionInput.trim(),
                 dueDate,
                 this.priorityInput,
                 this.projectInput,
+                deadline,
+                duration,
             );
             this.close();
         });
@@ -913,10 +1179,726 @@ export class NonTaskToTodoistModal extends Modal {
     }
 }
 
+/**
+ * A field that differs between an Obsidian task and its linked Todoist task
+ */
+export interface TaskFieldChange {
+    label: string;
+    todoistValue: string;
+    obsidianValue: string;
+}
+
+// Modal for confirming updates pushed from an Obsidian task to its linked Todoist task
+export class UpdateTodoistTaskModal extends Modal {
+    constructor(
+        app: App,
+        private changes: TaskFieldChange[],
+        private onConfirm: () => void,
+    ) {
+        super(app);
+    }
+
+    onOpen() {
+        this.contentEl.createEl("h2", { text: "Update linked Todoist task" });
+
+        const introText = this.contentEl.createEl("p", {
+            text: "The following fields will be updated in Todoist:",
+        });
+        introText.style.marginBottom = "1em";
+
+        // Field-level changes
+        const table = this.contentEl.createEl("table");
+        table.style.width = "100%";
+        table.style.marginBottom = "1em";
+        table.style.borderCollapse = "collapse";
+
+        const headerRow = table.createEl("tr");
+        ["Field", "Todoist", "Obsidian"].forEach((heading) => {
+            const cell = headerRow.createEl("th", { text: heading });
+            cell.style.textAlign = "left";
+            cell.style.padding = "4px 8px";
+        });
+
+        this.changes.forEach((change) => {
+            const row = table.createEl("tr");
+            row.style.borderTop = "1px solid var(--background-modifier-border)";
+            [change.label, change.todoistValue, change.obsidianValue].forEach(
+                (value, index) => {
+                    const cell = row.createEl("td", { text: value });
+                    cell.style.padding = "4px 8px";
+                    if (index === 1) {
+                        cell.style.color = "var(--text-muted)";
+                        cell.style.textDecoration = "line-through";
+                    }
+                },
+            );
+        });
+
+        const reminderText = this.contentEl.createEl("p", {
+            text: "The task description, including the link back to Obsidian, is left unchanged.",
+        });
+        reminderText.style.fontSize = "0.8em";
+        reminderText.style.color = "var(--text-muted)";
+        reminderText.style.marginBottom = "1em";
+
+        // Buttons container
+        const buttonContainer = this.contentEl.createDiv({
+            cls: "todoist-input-buttons",
+        });
+        buttonContainer.style.display = "flex";
+        buttonContainer.style.justifyContent = "flex-end";
+        buttonContainer.style.gap = "10px";
+
+        const updateButton = buttonContainer.createEl("button", {
+            text: "Update task",
+            cls: "mod-cta",
+        });
+        updateButton.addEventListener("click", () => {
+            this.onConfirm();
+            this.close();
+        });
+
+        const cancelButton = buttonContainer.createEl("button", {
+            text: "Cancel",
+        });
+        cancelButton.addEventListener("click", () => {
+            this.close();
+        });
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
+
+const CONFLICT_FIELD_LABELS: Record<FieldConflict["field"], string> = {
+    content: "Title",
+    dueDate: "Due date",
+    priority: "Priority",
+    checked: "Completed",
+    status: "Status",
+};
+
+function formatConflictValue(
+    field: FieldConflict["field"],
+    value: FieldConflict["base"],
+): string {
+    if (value === undefined) return "Not synced yet";
+    if (field === "status") return `[${value || " "}]`;
+    if (value === null || value === "") return "None";
+    if (field === "priority") return `P${value}`;
+    if (field === "checked") return value ? "Yes" : "No";
+    return String(value);
+}
+
+// Modal showing a three-way diff of a task changed in both Obsidian and Todoist
+export class ConflictResolutionModal extends Modal {
+    private resolved = false;
+
+    constructor(
+        app: App,
+        private taskTitle: string,
+        private conflicts: FieldConflict[],
+        private onResolve: (side: ConflictSide | null) => void,
+    ) {
+        super(app);
+    }
+
+    onOpen() {
+        this.contentEl.createEl("h2", { text: "Resolve sync conflict" });
+
+        const introText = this.contentEl.createEl("p", {
+            text: `"${this.taskTitle}" was changed in both Obsidian and Todoist since the last sync.`,
+        });
+        introText.style.marginBottom = "1em";
+
+        // Three-way diff
+        const table = this.contentEl.createEl("table");
+        table.style.width = "100%";
+        table.style.marginBottom = "1em";
+        table.style.borderCollapse = "collapse";
+
+        const headerRow = table.createEl("tr");
+        ["Field", "Last synced", "Obsidian", "Todoist"].forEach((heading) => {
+            const cell = headerRow.createEl("th", { text: heading });
+            cell.style.textAlign = "left";
+            cell.style.padding = "4px 8px";
+        });
+
+        this.conflicts.forEach((conflict) => {
+            const row = table.createEl("tr");
+            row.style.borderTop = "1px solid var(--background-modifier-border)";
+            [
+                CONFLICT_FIELD_LABELS[conflict.field],
+                formatConflictValue(conflict.field, conflict.base),
+                formatConflictValue(conflict.field, conflict.obsidian),
+                formatConflictValue(conflict.field, conflict.todoist),
+            ].forEach((value, index) => {
+                const cell = row.createEl("td", { text: value });
+                cell.style.padding = "4px 8px";
+                if (index === 1) {
+                    cell.style.color = "var(--text-muted)";
+                }
+            });
+        });
+
+        const reminderText = this.contentEl.createEl("p", {
+            text: "Fields changed on only one side are synced either way.",
+        });
+        reminderText.style.fontSize = "0.8em";
+        reminderText.style.color = "var(--text-muted)";
+        reminderText.style.marginBottom = "1em";
+
+        // Buttons container
+        const buttonContainer = this.contentEl.createDiv({
+            cls: "todoist-input-buttons",
+        });
+        buttonContainer.style.display = "flex";
+        buttonContainer.style.justifyContent = "flex-end";
+        buttonContainer.style.gap = "10px";
+
+        const addChoice = (text: string, side: ConflictSide | null) => {
+            const button = buttonContainer.createEl("button", { text });
+            button.addEventListener("click", () => {
+                this.resolve(side);
+            });
+            return button;
+        };
+
+        addChoice("Skip", null);
+        addChoice("Keep Todoist", "todoist");
+        addChoice("Keep Obsidian", "obsidian").addClass("mod-cta");
+    }
+
+    onClose() {
+        this.contentEl.empty();
+        // Closing the modal without choosing leaves the task untouched
+        this.resolve(null);
+    }
+
+    private resolve(side: ConflictSide | null) {
+        if (this.resolved) return;
+        this.resolved = true;
+        this.onResolve(side);
+        this.close();
+    }
+}
+
+/**
+ * One task line offered for bulk creation, with the values the user can adjust per row
+ */
+export interface BulkTaskRow {
+    title: string;
+    /** Where the line is, e.g. "Meeting.md:12" */
+    location: string;
+    dueDate: string;
+    priority: string;
+    projectId: string;
+    include: boolean;
+}
+
+// Modal listing many task lines for review before creating them in Todoist at once
+export class BulkTaskToTodoistModal<T extends BulkTaskRow> extends Modal {
+    private submitted = false;
+
+    constructor(
+        app: App,
+        private plugin: TodoistContextBridgePlugin,
+        private rows: T[],
+        private onSubmit: (
+            rows: T[],
+            onProgress: (done: number, total: number) => void,
+        ) => Promise<void>,
+    ) {
+        super(app);
+    }
+
+    onOpen() {
+        this.modalEl.style.width = "min(900px, 95vw)";
+        this.contentEl.createEl("h2", { text: "Create Todoist tasks" });
+
+        const introText = this.contentEl.createEl("p", {
+            text: `${this.rows.length} open task(s) are not linked to Todoist yet. Review them before creating.`,
+        });
+        introText.style.marginBottom = "1em";
+
+        const tableContainer = this.contentEl.createDiv();
+        tableContainer.style.maxHeight = "50vh";
+        tableContainer.style.overflowY = "auto";
+        tableContainer.style.marginBottom = "1em";
+
+        const table = tableContainer.createEl("table");
+        table.style.width = "100%";
+        table.style.borderCollapse = "collapse";
+
+        const headerRow = table.createEl("tr");
+        ["", "Task", "Project", "Priority", "Due date"].forEach((heading) => {
+            const cell = headerRow.createEl("th", { text: heading });
+            cell.style.textAlign = "left";
+            cell.style.padding = "4px 8px";
+        });
+
+        const projectSelects: HTMLSelectElement[] = [];
+        const dueDateInputs: HTMLInputElement[] = [];
+
+        this.rows.forEach((row) => {
+            const tableRow = table.createEl("tr");
+            tableRow.style.borderTop =
+                "1px solid var(--background-modifier-border)";
+            const addCell = () => {
+                const cell = tableRow.createEl("td");
+                cell.style.padding = "4px 8px";
+                return cell;
+            };
+
+            const includeToggle = new ToggleComponent(addCell());
+            includeToggle.setValue(row.include);
+            includeToggle.onChange((value) => {
+                row.include = value;
+                tableRow.style.opacity = value ? "1" : "0.5";
+            });
+
+            const taskCell = addCell();
+            taskCell.createDiv({ text: row.title });
+            const locationText = taskCell.createDiv({ text: row.location });
+            locationText.style.fontSize = "0.8em";
+            locationText.style.color = "var(--text-muted)";
+
+            const projectSelect = addCell().createEl("select", {
+                cls: "dropdown",
+            });
+            projectSelect.style.width = "100%";
+            projectSelect.addEventListener("change", () => {
+                row.projectId = projectSelect.value;
+            });
+            projectSelects.push(projectSelect);
+
+            const prioritySelect = addCell().createEl("select", {
+                cls: "dropdown",
+            });
+            [1, 2, 3, 4].forEach((uiPriority) => {
+                const option = prioritySelect.createEl("option", {
+                    value: uiPriority.toString(),
+                    text: `P${uiPriority}`,
+                });
+                if (uiPriority.toString() === row.priority) {
+                    option.selected = true;
+                }
+            });
+            prioritySelect.addEventListener("change", () => {
+                row.priority = prioritySelect.value;
+            });
+
+            const dueDateInput = addCell().createEl("input", {
+                type: "text",
+                placeholder: "YYYY-MM-DD or 1d",
+                value: row.dueDate,
+            });
+            dueDateInput.style.width = "100%";
+            dueDateInput.addEventListener("input", () => {
+                row.dueDate = dueDateInput.value;
+                dueDateInput.style.borderColor = "";
+            });
+            dueDateInputs.push(dueDateInput);
+        });
+
+        // Load projects once and share them between all rows
+        const loadProjects = async () => {
+            try {
+                if (!this.plugin.todoistApi) return;
+                const projects = await this.plugin.fetchProjects();
+                projectSelects.forEach((projectSelect, index) => {
+                    projectSelect.empty();
+                    projects.forEach((project) => {
+                        const option = projectSelect.createEl("option", {
+                            value: project.id,
+                            text: project.name,
+                        });
+                        if (project.id === this.rows[index].projectId) {
+                            option.selected = true;
+                        }
+                    });
+                });
+            } catch (error) {
+                console.error("Failed to load projects:", error);
+                new Notice("Failed to load Todoist projects");
+            }
+        };
+
+        loadProjects();
+
+        // Progress shown while the tasks are created
+        const progressContainer = this.contentEl.createDiv();
+        progressContainer.style.display = "none";
+        progressContainer.style.marginBottom = "1em";
+        const progressBar = progressContainer.createEl("progress");
+        progressBar.style.width = "100%";
+        const progressText = progressContainer.createDiv();
+        progressText.style.fontSize = "0.8em";
+        progressText.style.color = "var(--text-muted)";
+
+        // Buttons container
+        const buttonContainer = this.contentEl.createDiv({
+            cls: "todoist-input-buttons",
+        });
+        buttonContainer.style.display = "flex";
+        buttonContainer.style.justifyContent = "flex-end";
+        buttonContainer.style.gap = "10px";
+
+        const createButton = buttonContainer.createEl("button", {
+            text: "Create tasks",
+            cls: "mod-cta",
+        });
+        createButton.addEventListener("click", async () => {
+            if (this.submitted) return;
+
+            const selectedRows = this.rows.filter((row) => row.include);
+            if (selectedRows.length === 0) {
+                new Notice("No tasks selected");
+                return;
+            }
+
+            // Validate every due date before creating anything
+            let hasInvalidDate = false;
+            let hasPastDate = false;
+            const formattedDates = new Map<T, string>();
+            this.rows.forEach((row, index) => {
+                const dueDate = row.dueDate.trim();
+                if (!row.include || !dueDate) return;
+
+                const dateValidation = DateProcessing.validateAndFormatDate(
+                    dueDate,
+                    this.plugin.settings.skipWeekends,
+                    false,
+                );
+                if (!dateValidation) {
+                    dueDateInputs[index].style.borderColor =
+                        "var(--text-error)";
+                    hasInvalidDate = true;
+                    return;
+                }
+                hasPastDate = hasPastDate || dateValidation.isInPast;
+                formattedDates.set(row, dateValidation.formattedDate);
+            });
+
+            if (hasInvalidDate) {
+                new Notice(
+                    "Invalid due date format. Please use YYYY-MM-DD[THH:mm], a relative date (e.g., 1d, +2w, +3b) or an expression such as next friday",
+                );
+                return;
+            }
+
+            if (hasPastDate && !(await showPastDateWarning(this.app))) {
+                return;
+            }
+
+            selectedRows.forEach((row) => {
+                row.dueDate = formattedDates.get(row) ?? "";
+            });
+
+            this.submitted = true;
+            createButton.disabled = true;
+            tableContainer.style.pointerEvents = "none";
+            progressContainer.style.display = "";
+
+            await this.onSubmit(selectedRows, (done, total) => {
+                progressBar.max = total;
+                progressBar.value = done;
+                progressText.setText(`${done} of ${total} task(s) processed`);
+            });
+            this.close();
+        });
+
+        const cancelButton = buttonContainer.createEl("button", {
+            text: "Cancel",
+        });
+        cancelButton.addEventListener("click", () => {
+            this.close();
+        });
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
+
+/**
+ * Repairs offered for a broken Todoist link; each resolves to whether it succeeded
+ */
+export interface BrokenTodoistLinkActions {
+    recreate: (link: BrokenTodoistLink) => Promise<boolean>;
+    relink: (link: BrokenTodoistLink) => Promise<boolean>;
+    remove: (link: BrokenTodoistLink) => Promise<boolean>;
+}
+
+// Modal listing links to deleted Todoist tasks with a repair action per link
+export class BrokenTodoistLinksModal extends Modal {
+    constructor(
+        app: App,
+        private links: BrokenTodoistLink[],
+        private actions: BrokenTodoistLinkActions,
+    ) {
+        super(app);
+    }
+
+    onOpen() {
+        this.contentEl.createEl("h2", { text: "Broken Todoist links" });
+
+        const introText = this.contentEl.createEl("p", {
+            text: `${this.links.length} link(s) point to Todoist tasks that no longer exist. They are struck through in your notes.`,
+        });
+        introText.style.marginBottom = "1em";
+
+        const listContainer = this.contentEl.createDiv();
+        listContainer.style.maxHeight = "50vh";
+        listContainer.style.overflowY = "auto";
+        listContainer.style.marginBottom = "1em";
+
+        this.links.forEach((link) => {
+            const row = listContainer.createDiv();
+            row.style.display = "flex";
+            row.style.alignItems = "center";
+            row.style.gap = "10px";
+            row.style.padding = "8px 0";
+            row.style.borderTop = "1px solid var(--background-modifier-border)";
+
+            const details = row.createDiv();
+            details.style.flexGrow = "1";
+            details.createDiv({ text: link.title });
+            const locationText = details.createDiv({
+                text: `${link.file.path}:${link.line + 1}`,
+            });
+            locationText.style.fontSize = "0.8em";
+            locationText.style.color = "var(--text-muted)";
+
+            const buttons = row.createDiv();
+            buttons.style.display = "flex";
+            buttons.style.gap = "6px";
+
+            const addAction = (
+                text: string,
+                action: (link: BrokenTodoistLink) => Promise<boolean>,
+                doneText: string,
+            ) => {
+                const button = buttons.createEl("button", { text });
+                button.addEventListener("click", async () => {
+                    if (await action(link)) {
+                        buttons.empty();
+                        const status = buttons.createSpan({ text: doneText });
+                        status.style.color = "var(--text-muted)";
+                    }
+                });
+            };
+
+            addAction("Recreate", this.actions.recreate, "Recreated");
+            addAction("Relink", this.actions.relink, "Relinked");
+            addAction("Remove link", this.actions.remove, "Removed");
+        });
+
+        // Buttons container
+        const buttonContainer = this.contentEl.createDiv({
+            cls: "todoist-input-buttons",
+        });
+        buttonContainer.style.display = "flex";
+        buttonContainer.style.justifyContent = "flex-end";
+
+        const closeButton = buttonContainer.createEl("button", {
+            text: "Close",
+        });
+        closeButton.addEventListener("click", () => {
+            this.close();
+        });
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
+
 /**
  * Show a modal dialog for past date warning
  * @returns Promise that resolves to true if user wants to proceed, false to edit date
  */
+/**
+ * Adds an optional deadline input to a task modal
+ */
+function addDeadlineInput(
+    containerEl: HTMLElement,
+    value: string,
+    onChange: (value: string) => void,
+    getSkipWeekends: () => boolean,
+) {
+    const deadlineContainer = containerEl.createDiv({
+        cls: "todoist-input-container",
+    });
+    deadlineContainer.createEl("label", { text: "Deadline (optional)" });
+
+    const deadlineHelpText = deadlineContainer.createEl("div", {
+        cls: "setting-item-description",
+        text: "The date the task must be done by. Unlike the due date, a deadline has no time and does not move when the task is rescheduled.",
+    });
+    deadlineHelpText.style.fontSize = "0.8em";
+    deadlineHelpText.style.color = "var(--text-muted)";
+    deadlineHelpText.style.marginTop = "0.5em";
+    deadlineHelpText.style.marginBottom = "0.5em";
+
+    const deadlineInput = deadlineContainer.createEl("input", {
+        type: "text",
+        cls: "todoist-input-field",
+        placeholder: "Deadline, e.g., 2025-01-31, +7d or end of month",
+        value,
+    });
+    deadlineInput.style.width = "100%";
+    deadlineInput.style.height = "40px";
+    deadlineInput.style.marginBottom = "0.5em";
+    const updatePreview = addDatePreview(
+        deadlineContainer,
+        () => deadlineInput.value,
+        getSkipWeekends,
+        true,
+    );
+    deadlineInput.addEventListener("input", (e) => {
+        onChange((e.target as HTMLInputElement).value);
+        updatePreview();
+    });
+}
+
+/**
+ * Adds a line below a date input that shows the date it resolves to
+ * @param dateOnly Whether the date is used without its time, as for deadlines
+ * @returns A function that updates the preview after the input changed
+ */
+function addDatePreview(
+    containerEl: HTMLElement,
+    getValue: () => string,
+    getSkipWeekends: () => boolean,
+    dateOnly = false,
+): () => void {
+    const previewEl = containerEl.createEl("div", {
+        cls: "setting-item-description",
+    });
+    previewEl.style.fontSize = "0.8em";
+    previewEl.style.marginBottom = "1em";
+
+    const updatePreview = () => {
+        const value = getValue().trim();
+        previewEl.style.display = value ? "block" : "none";
+        if (!value) {
+            return;
+        }
+
+        const dateValidation = DateProcessing.validateAndFormatDate(
+            value,
+            getSkipWeekends(),
+            false,
+        );
+        if (!dateValidation) {
+            previewEl.setText("Not a recognized date");
+            previewEl.style.color = "var(--text-error)";
+            return;
+        }
+
+        const date = dateOnly
+            ? dateValidation.formattedDate.split("T")[0]
+            : dateValidation.formattedDate;
+        // Datetimes with a time zone are shown with their UTC offset
+        const format = DateProcessing.hasUtcOffset(date)
+            ? "ddd, YYYY-MM-DD HH:mm [UTC]Z"
+            : date.includes("T")
+              ? "ddd, YYYY-MM-DD HH:mm"
+              : "ddd, YYYY-MM-DD";
+        previewEl.setText(
+            `Resolves to ${window.moment.parseZone(date).format(format)}`,
+        );
+        previewEl.style.color = "var(--text-muted)";
+    };
+
+    updatePreview();
+    return updatePreview;
+}
+
+/**
+ * Validates the deadline entered in a task modal
+ * @returns The deadline (YYYY-MM-DD), an empty string if none was entered, or null if it is invalid
+ */
+function parseDeadlineInput(
+    value: string,
+    skipWeekends: boolean,
+): string | null {
+    const deadline = value.trim();
+    if (!deadline) {
+        return "";
+    }
+
+    const dateValidation = DateProcessing.validateAndFormatDate(
+        deadline,
+        skipWeekends,
+    );
+    // Todoist deadlines have no time
+    return dateValidation ? dateValidation.formattedDate.split("T")[0] : null;
+}
+
+/**
+ * Adds an optional duration input to a task modal
+ */
+function addDurationInput(
+    containerEl: HTMLElement,
+    value: string,
+    onChange: (value: string) => void,
+) {
+    const durationContainer = containerEl.createDiv({
+        cls: "todoist-input-container",
+    });
+    durationContainer.createEl("label", { text: "Duration (optional)" });
+
+    const durationHelpText = durationContainer.createEl("div", {
+        cls: "setting-item-description",
+        text: "How long the task takes, e.g., 45m, 1h30m or 2d. Requires a due date.",
+    });
+    durationHelpText.style.fontSize = "0.8em";
+    durationHelpText.style.color = "var(--text-muted)";
+    durationHelpText.style.marginTop = "0.5em";
+    durationHelpText.style.marginBottom = "0.5em";
+
+    const durationInput = durationContainer.createEl("input", {
+        type: "text",
+        cls: "todoist-input-field",
+        placeholder: "45m, 1h30m or 2d",
+        value,
+    });
+    durationInput.style.width = "100%";
+    durationInput.style.height = "40px";
+    durationInput.style.marginBottom = "1em";
+    durationInput.addEventListener("input", (e) => {
+        onChange((e.target as HTMLInputElement).value);
+    });
+}
+
+/**
+ * Validates the duration entered in a task modal
+ * @param dueDate The validated due date; Todoist only keeps durations of tasks with a due date
+ * @returns The duration, null if none was entered, or undefined if it is invalid
+ */
+function parseDurationInput(
+    value: string,
+    dueDate: string,
+): Duration | null | undefined {
+    if (!value.trim()) {
+        return null;
+    }
+
+    const duration = DateProcessing.parseDuration(value);
+    if (!duration) {
+        new Notice("Invalid duration. Please use e.g. 45m, 1h30m or 2d.");
+        return undefined;
+    }
+    if (!dueDate) {
+        new Notice("A duration requires a due date. Please add a due date.");
+        return undefined;
+    }
+    return duration;
+}
+
 async function showPastDateWarning(app: App): Promise<boolean> {
     return new Promise((resolve) => {
         const warningModal = new Modal(app);
@@ -0,0 +1,229 @@
+import {
+    Label,
+    PersonalProject,
+    Section,
+    Task,
+    TodoistApi,
+    WorkspaceProject,
+} from "@doist/todoist-api-typescript";
+
+// Sync token that requests a full sync instead of changes since the last run
+const FULL_SYNC_TOKEN = "*";
+
+/**
+ * Local copy of the Todoist resources the plugin reads, as of the stored sync token
+ */
+export interface TodoistSyncCache {
+    syncToken: string;
+    lastSyncedAt: string | null;
+    tasks: Record<string, Task>;
+    projects: Record<string, PersonalProject | WorkspaceProject>;
+    labels: Record<string, Label>;
+    sections: Record<string, Section>;
+    /** IDs of linked tasks Todoist reported as not found */
+    missingTaskIds: string[];
+}
+
+/**
+ * Where the sync cache is kept between sessions
+ */
+export interface TodoistSyncCacheStorage {
+    load(): Promise<TodoistSyncCache | null>;
+    save(cache: TodoistSyncCache): Promise<void>;
+}
+
+type Deletable = { id: string; isDeleted?: boolean };
+
+function createEmptyCache(): TodoistSyncCache {
+    return {
+        syncToken: FULL_SYNC_TOKEN,
+        lastSyncedAt: null,
+        tasks: {},
+        projects: {},
+        labels: {},
+        sections: {},
+        missingTaskIds: [],
+    };
+}
+
+/**
+ * Incremental client for the Todoist Sync API. Stores the sync token and pulls only
+ * tasks, projects, labels and sections changed since the last run into a local cache.
+ * The cache is saved only when a sync changed it.
+ */
+export class TodoistSyncClient {
+    private todoistApi: TodoistApi | null = null;
+    private cache: TodoistSyncCache = createEmptyCache();
+    private pendingSync: Promise<boolean> | null = null;
+
+    constructor(private storage: TodoistSyncCacheStorage) {}
+
+    /**
+     * Loads the cache saved by a previous session
+     */
+    public async load() {
+        try {
+            const cache = await this.storage.load();
+            this.cache = cache
+                ? { ...createEmptyCache(), ...cache }
+                : createEmptyCache();
+        } catch (error) {
+            console.warn("Failed to load the Todoist sync cache:", error);
+            this.cache = createEmptyCache();
+        }
+    }
+
+    /**
+     * Set the TodoistApi instance used for Sync API requests
+     */
+    public setApi(api: TodoistApi | null) {
+        this.todoistApi = api;
+    }
+
+    /**
+     * Pulls changes since the last sync into the cache. Concurrent callers share one request.
+     * @returns Whether the cache was updated
+     */
+    public async sync(): Promise<boolean> {
+        if (!this.pendingSync) {
+            this.pendingSync = this.runSync().finally(() => {
+                this.pendingSync = null;
+            });
+        }
+        return this.pendingSync;
+    }
+
+    /**
+     * Discards the cache so the next sync is a full sync, e.g. after the API token changed
+     */
+    public async reset() {
+        this.cache = createEmptyCache();
+        await this.storage.save(this.cache);
+    }
+
+    public getTask(taskId: string): Task | null {
+        return this.cache.tasks[taskId] ?? null;
+    }
+
+    /**
+     * Whether Todoist reported a task as not found since the last full sync
+     */
+    public isMissing(taskId: string): boolean {
+        return this.cache.missingTaskIds.includes(taskId);
+    }
+
+    /**
+     * Adds tasks looked up outside the Sync API, such as tasks completed before the
+     * last full sync, so later runs find them in the cache. Later changes to them
+     * arrive with the incremental sync.
+     * @param tasks The tasks found
+     * @param missingTaskIds IDs Todoist reported as not found
+     */
+    public async rememberTasks(tasks: Task[], missingTaskIds: string[] = []) {
+        const newMissingIds = missingTaskIds.filter(
+            (taskId) => !this.isMissing(taskId),
+        );
+        if (tasks.length === 0 && newMissingIds.length === 0) return;
+
+        tasks.forEach((task) => {
+            this.cache.tasks[task.id] = task;
+        });
+        this.cache.missingTaskIds.push(...newMissingIds);
+        await this.storage.save(this.cache);
+    }
+
+    /**
+     * Returns the cached tasks
+     * @param includeCompleted Whether to include completed tasks seen since the last full sync
+     */
+    public getTasks(includeCompleted = false): Task[] {
+        return Object.values(this.cache.tasks).filter(
+            (task) => includeCompleted || !task.checked,
+        );
+    }
+
+    public getProjects(): (PersonalProject | WorkspaceProject)[] {
+        return Object.values(this.cache.projects)
+            .filter((project) => !project.isArchived)
+            .sort((a, b) => a.childOrder - b.childOrder);
+    }
+
+    public getLabels(): Label[] {
+        return Object.values(this.cache.labels);
+    }
+
+    public getSections(projectId?: string): Section[] {
+        return Object.values(this.cache.sections)
+            .filter((section) => !projectId || section.projectId === projectId)
+            .sort((a, b) => a.sectionOrder - b.sectionOrder);
+    }
+
+    private async runSync(): Promise<boolean> {
+        if (!this.todoistApi) {
+            return false;
+        }
+
+        try {
+            const response = await this.todoistApi.sync({
+                resourceTypes: ["items", "projects", "labels", "sections"],
+                syncToken: this.cache.syncToken,
+            });
+
+            // A full sync replaces everything we have, including items deleted since
+            const cache = response.fullSync ? createEmptyCache() : this.cache;
+
+            this.mergeResources(cache.tasks, response.items, (task) =>
+                // Completed tasks stay cached so their status can be reconciled
+                Boolean(task.isDeleted),
+            );
+            this.mergeResources(cache.projects, response.projects, (project) =>
+                Boolean(project.isDeleted),
+            );
+            this.mergeResources(cache.labels, response.labels);
+            this.mergeResources(cache.sections, response.sections, (section) =>
+                Boolean(section.isDeleted || section.isArchived),
+            );
+
+            // Tasks that reappear, e.g. after being shared again, are no longer missing
+            cache.missingTaskIds = cache.missingTaskIds.filter(
+                (taskId) => !cache.tasks[taskId],
+            );
+
+            cache.syncToken = response.syncToken ?? cache.syncToken;
+            cache.lastSyncedAt = new Date().toISOString();
+            this.cache = cache;
+
+            // Without changes the stored token stays valid, so the file is not rewritten
+            const changed =
+                response.fullSync ||
+                [
+                    response.items,
+                    response.projects,
+                    response.labels,
+                    response.sections,
+                ].some((changes) => (changes?.length ?? 0) > 0);
+            if (changed) {
+                await this.storage.save(cache);
+            }
+            return true;
+        } catch (error) {
+            console.error("Todoist incremental sync failed:", error);
+            return false;
+        }
+    }
+
+    private mergeResources<T extends { id: string }>(
+        target: Record<string, T>,
+        changes: T[] | undefined,
+        isRemoved: (resource: T) => boolean = (resource) =>
+            Boolean((resource as T & Deletable).isDeleted),
+    ) {
+        for (const resource of changes ?? []) {
+            if (isRemoved(resource)) {
+                delete target[resource.id];
+            } else {
+                target[resource.id] = resource;
+            }
+        }
+    }
+}
@@ -1,23 +1,76 @@
-import { App, Editor, EditorPosition, Notice } from "obsidian";
-import { TodoistApi, Task } from "@doist/todoist-api-typescript";
+import { App, Editor, EditorPosition, Notice, TFile } from "obsidian";
+import {
+    TodoistApi,
+    Task,
+    Label,
+    Section,
+    UpdateTaskArgs,
+    Duration,
+    User,
+} from "@doist/todoist-api-typescript";
 import { TodoistV2IDs } from "./TodoistV2IDs";
 import { TodoistContextBridgeSettings } from "./Settings";
-import { NonTaskToTodoistModal, TaskToTodoistModal } from "./TodoistModal";
+import {
+    NonTaskToTodoistModal,
+    TaskFieldChange,
+    TaskToTodoistModal,
+    TodoistAssigneeChoice,
+    TodoistSectionChoice,
+    UpdateTodoistTaskModal,
+    findCollaborator,
+} from "./TodoistModal";
 import { URILinkProcessing } from "./URILinkProcessing";
 import { UIDProcessing } from "./UIDProcessing"; // Import UIDProcessing
 import { TextParsing, TaskDetails } from "./TextParsing";
 import { TODOIST_CONSTANTS } from "./constants"; // Import TODOIST_CONSTANTS
 import { NotificationHelper } from "./NotificationHelper"; // Import NotificationHelper
 import { fetchAllPages } from "./TodoistPaginationHelper";
+import { isTodoistNotFoundError } from "./TodoistLinkChecker";
+import { RecurrenceProcessing } from "./RecurrenceProcessing";
+import { DateProcessing } from "./DateProcessing";
+import { LinkConversion } from "./LinkConversion";
+import { TodoistMarkdown } from "./TodoistMarkdown";
+import { CheckboxStatusSync, getTodoistStatus } from "./CheckboxStatus";
+import { SubtaskSync } from "./SubtaskSync";
+import { ProjectRuleEvaluator, ProjectRuleMatch } from "./ProjectRules";
+import {
+    ConflictSide,
+    TaskConflictResolver,
+    TaskSnapshot,
+    createObsidianSnapshot,
+    createSyncedSnapshot,
+    createTodoistSnapshot,
+    findConflicts,
+} from "./TaskConflictResolver";
 
 export interface TodoistTaskInfo {
     task_id: string;
     is_completed: boolean;
 }
 
+/**
+ * Optional fields of a task created with createTodoistTask. Fields left out are
+ * taken from the task details, if given.
+ */
+export interface CreateTodoistTaskOptions {
+    /** Fields parsed from the task line, e.g. its recurrence */
+    taskDetails?: TaskDetails;
+    deadline?: string | null;
+    duration?: Duration | null;
+    /** ID of the parent task; subtasks stay in the section of their parent */
+    parentId?: string;
+    section?: TodoistSectionChoice | null;
+    labels?: string[];
+    assignee?: TodoistAssigneeChoice | null;
+}
+
 export class TodoistTaskSync {
     private TextParsing: TextParsing;
     private notificationHelper: NotificationHelper;
+    private conflictResolver: TaskConflictResolver;
+    private subtaskSync: SubtaskSync;
+    private projectRules: ProjectRuleEvaluator;
+    private checkboxStatusSync: CheckboxStatusSync;
 
     constructor(
         private app: App,
@@ -46,6 +99,17 @@ export class TodoistTaskSync {
 
         this.TextParsing = new TextParsing(settings);
         this.notificationHelper = new NotificationHelper(settings);
+        this.conflictResolver = new TaskConflictResolver(app, settings);
+        this.subtaskSync = new SubtaskSync(
+            app,
+            settings,
+            plugin,
+            this,
+            URILinkProcessing,
+            todoistV2IDs,
+        );
+        this.projectRules = new ProjectRuleEvaluator(app, settings, plugin);
+        this.checkboxStatusSync = new CheckboxStatusSync(plugin);
     }
 
     // Use TextParsing methods instead of local ones
@@ -69,87 +133,16 @@ export class TodoistTaskSync {
         return this.TextParsing.getLineIndentation(line);
     }
 
-    private extractTaskDetails(taskText: string): TaskDetails {
-        return this.TextParsing.extractTaskDetails(taskText);
-    }
-
-    /**
-     * Formats a line of text as an Obsidian list item with proper indentation
-     * @param line The line to format
-     * @param baseIndentation Base indentation for the description
-     * @param additionalIndentLevel Additional indentation levels (0 for base level)
-     * @returns Formatted line with proper indentation
-     */
-    private formatDescriptionLine(
-        line: string,
-        baseIndentation: string,
-        additionalIndentLevel = 0,
-    ): string {
-        const trimmedLine = line.trim();
-        if (!trimmedLine) return "";
-
-        // Calculate the full indentation based on the level
-        const fullIndentation =
-            baseIndentation + "\t".repeat(additionalIndentLevel);
-
-        // If it's already a list item (starts with - or *), maintain the list marker
-        const listMatch = trimmedLine.match(/^[-*]\s*(.*)/);
-        if (listMatch) {
-            return `${fullIndentation}- ${listMatch[1]}`;
-        }
-
-        // For regular text, make it a list item
-        return `${fullIndentation}- ${trimmedLine}`;
-    }
-
-    /**
-     * Process description lines to maintain hierarchy
-     * @param lines Array of description lines
-     * @param baseIndentation Base indentation for the description
-     * @returns Formatted lines with proper hierarchy
-     */
-    private processDescriptionLines(
-        lines: string[],
-        baseIndentation: string,
-    ): string[] {
-        const result: string[] = [];
-        let currentIndentLevel = 0;
-        let previousLineWasList = false;
-
-        for (let i = 0; i < lines.length; i++) {
-            const line = lines[i].trim();
-            if (!line) continue;
-
-            const isListItem = line.startsWith("-") || line.startsWith("*");
-            const nextLine = i < lines.length - 1 ? lines[i + 1].trim() : "";
-            const nextIsListItem =
-                nextLine &&
-                (nextLine.startsWith("-") || nextLine.startsWith("*"));
-
-            // Determine indentation level
-            if (isListItem) {
-                // If this is a list item following regular text, increase indent level
-                if (!previousLineWasList && result.length > 0) {
-                    currentIndentLevel++;
-                }
-            } else {
-                // Reset indent level for regular text
-                currentIndentLevel = 0;
-            }
-
-            // Format the line with appropriate indentation
-            result.push(
-                this.formatDescriptionLine(
-                    line,
-                    baseIndentation,
-                    currentIndentLevel,
-                ),
-            );
-
-            previousLineWasList = isListItem;
-        }
-
-        return result;
+    private extractTaskDetails(
+        taskText: string,
+        showWarnings = true,
+    ): TaskDetails {
+        // Links in the task text are resolved from the active note
+        return this.TextParsing.extractTaskDetails(
+            taskText,
+            showWarnings,
+            this.app.workspace.getActiveFile()?.path,
+        );
     }
 
     /**
@@ -164,12 +157,11 @@ export class TodoistTaskSync {
 
     /**
      * Detects whether the file uses tabs or spaces for indentation by analyzing the content
-     * @param editor The editor instance
+     * @param content The content of the file
      * @returns true if tabs are used, false if spaces are used
      */
-    private detectIndentWithTabs(editor: Editor): boolean {
+    detectIndentWithTabs(content: string): boolean {
         // Examine the first few lines that have indentation to determine the style
-        const content = editor.getValue();
         const lines = content.split("\n");
 
         // Count occurrences of tabs vs spaces at beginning of lines
@@ -212,14 +204,133 @@ export class TodoistTaskSync {
         }
     }
 
-    private async createTodoistTask(
+    /**
+     * Finds the collaborator of a shared project to assign a task to
+     * @returns The collaborator ID, or undefined to create the task unassigned
+     */
+    private async resolveAssigneeId(
+        projectId: string | undefined,
+        assignee: TodoistAssigneeChoice,
+    ): Promise<string | undefined> {
+        if (assignee.id) {
+            return assignee.id;
+        }
+        if (!projectId) {
+            return undefined;
+        }
+
+        try {
+            if (!(await this.isSharedProject(projectId))) {
+                new Notice(
+                    `Warning: Only tasks in shared projects can be assigned. The task will not be assigned to "${assignee.name}".`,
+                );
+                return undefined;
+            }
+            const collaborator = findCollaborator(
+                await this.plugin.fetchCollaborators(projectId),
+                assignee.name,
+            );
+            if (!collaborator) {
+                new Notice(
+                    `Warning: "${assignee.name}" is not a collaborator of the project. The task will not be assigned.`,
+                );
+            }
+            return collaborator?.id;
+        } catch (error) {
+            console.warn("Failed to look up Todoist collaborators:", error);
+            new Notice(
+                `Warning: Failed to assign the task to "${assignee.name}". The task will not be assigned.`,
+            );
+            return undefined;
+        }
+    }
+
+    /**
+     * Finds the ID of a section in a project by name, creating the section if enabled
+     * @returns The section ID, or undefined to create the task without a section
+     */
+    private async resolveSectionId(
+        projectId: string | undefined,
+        section: TodoistSectionChoice,
+    ): Promise<string | undefined> {
+        if (section.id) {
+            return section.id;
+        }
+        if (!this.todoistApi || !projectId) {
+            return undefined;
+        }
+
+        try {
+            const existingSection = (
+                await this.plugin.fetchSections(projectId)
+            ).find(
+                (s: Section) =>
+                    s.name.toLowerCase() === section.name.toLowerCase(),
+            );
+            if (existingSection) {
+                return existingSection.id;
+            }
+            if (!this.settings.createMissingSections) {
+                return undefined;
+            }
+            const newSection = await this.todoistApi.addSection({
+                name: section.name,
+                projectId,
+            });
+            return newSection.id;
+        } catch (error) {
+            console.warn("Failed to find or create Todoist section:", error);
+            new Notice(
+                `Warning: Failed to add the task to section "${section.name}". The task will be created without a section.`,
+            );
+            return undefined;
+        }
+    }
+
+    /**
+     * The project a checkbox status mapped to a project moves the task to
+     */
+    private getStatusProjectId(lineText: string): string | undefined {
+        const statusMapping = this.TextParsing.getStatusMapping(lineText);
+        return statusMapping?.action === "project" && statusMapping.value
+            ? statusMapping.value
+            : undefined;
+    }
+
+    /**
+     * The section a project rule sets, if the task stays in the rule's project
+     */
+    getRuleSection(
+        projectRule: ProjectRuleMatch | null,
+        projectId: string,
+    ): TodoistSectionChoice | null {
+        return projectRule?.section && projectRule.projectId === projectId
+            ? { id: null, name: projectRule.section }
+            : null;
+    }
+
+    async createTodoistTask(
         title: string,
         description: string,
         due_date: string | null,
         priority: string,
         project_id: string,
-        taskDetails?: TaskDetails,
+        options: CreateTodoistTaskOptions = {},
     ): Promise<string> {
+        const {
+            taskDetails,
+            deadline = taskDetails?.deadline ?? null,
+            duration = taskDetails?.duration ?? null,
+            parentId,
+            section = taskDetails?.section
+                ? { id: null, name: taskDetails.section }
+                : null,
+            labels = taskDetails?.labels ?? [],
+            assignee = taskDetails?.assignee
+                ? { id: null, name: taskDetails.assignee }
+                : null,
+        } = options;
+
         if (!this.todoistApi) {
             throw new Error("Todoist API not initialized");
         }
@@ -234,17 +345,35 @@ export class TodoistTaskSync {
                 content: string;
                 description: string;
                 dueString?: string;
+                deadlineDate?: string;
                 priority?: number;
                 projectId?: string;
+                sectionId?: string;
+                parentId?: string;
                 labels?: string[];
+                assigneeId?: string;
             } = {
                 content: title.trim(),
                 description: description || "",
             };
 
             // Only add non-empty parameters
-            if (due_date) {
-                taskParams.dueString = due_date;
+            if (taskDetails?.recurrence) {
+                // Recurring tasks start on the due date, if any
+                taskParams.dueString = RecurrenceProcessing.toTodoistDueString(
+                    taskDetails.recurrence,
+                    DateProcessing.normalizeDueDate(due_date),
+                );
+            } else if (due_date) {
+                // Datetimes with a time zone are fixed to it, others are floating
+                Object.assign(
+                    taskParams,
+                    DateProcessing.toTodoistDue(due_date),
+                );
+            }
+
+            if (deadline) {
+                taskParams.deadlineDate = deadline;
             }
 
             if (priority) {
@@ -256,62 +385,116 @@ export class TodoistTaskSync {
                     project_id || this.settings.todoistDefaultProject;
             }
 
+            if (parentId) {
+                taskParams.parentId = parentId;
+            } else if (section) {
+                // Subtasks stay in the section of their parent
+                const sectionId = await this.resolveSectionId(
+                    taskParams.projectId,
+                    section,
+                );
+                if (sectionId) {
+                    taskParams.sectionId = sectionId;
+                }
+            }
+
+            if (assignee) {
+                const assigneeId = await this.resolveAssigneeId(
+                    taskParams.projectId,
+                    assignee,
+                );
+                if (assigneeId) {
+                    taskParams.assigneeId = assigneeId;
+                }
+            }
+
             // Add label if enabled and configured
+            const labelNames: string[] = [];
             if (
                 this.settings.enableTodoistLabel &&
                 this.settings.todoistSyncLabel
             ) {
                 const trimmedLabel = this.settings.todoistSyncLabel.trim();
                 if (this.TextParsing.isValidTodoistLabel(trimmedLabel)) {
-                    try {
-                        // Check if the target project is shared
-                        const targetProjectId = taskParams.projectId;
-                        const isShared = targetProjectId
-                            ? await this.isSharedProject(targetProjectId)
-                            : false;
-
-                        if (isShared) {
-                            // If project is shared, warn user about label visibility
-                            new Notice(
-                                "Note: Task will be created in a shared project. The label will be visible to all project members.",
-                                5000,
-                            );
-                        }
+                    labelNames.push(trimmedLabel);
+                } else {
+                    console.warn(
+                        "Invalid Todoist label format. Label will not be added to the task.",
+                    );
+                    new Notice(
+                        "Warning: Invalid Todoist label format. The task will be created without the label.",
+                    );
+                }
+            }
+
+            // Add labels converted from the tags on the task line or set by a project rule
+            labels.forEach((label) => {
+                if (
+                    !labelNames.some(
+                        (name) => name.toLowerCase() === label.toLowerCase(),
+                    )
+                ) {
+                    labelNames.push(label);
+                }
+            });
 
-                        // Create or get the label
-                        const labelApi = this.todoistApi;
-                        const labels = await fetchAllPages((args) =>
-                            labelApi.getLabels(args),
+            if (labelNames.length > 0) {
+                try {
+                    // Check if the target project is shared
+                    const targetProjectId = taskParams.projectId;
+                    const isShared = targetProjectId
+                        ? await this.isSharedProject(targetProjectId)
+                        : false;
+
+                    if (isShared) {
+                        // If project is shared, warn user about label visibility
+                        new Notice(
+                            "Note: Task will be created in a shared project. Its labels will be visible to all project members.",
+                            5000,
                         );
+                    }
+
+                    // Create or get the labels, preferring the sync cache
+                    const labelApi = this.todoistApi;
+                    const labels: Label[] =
+                        (await this.plugin.syncClient.sync())
+                            ? this.plugin.syncClient.getLabels()
+                            : await fetchAllPages((args) =>
+                                  labelApi.getLabels(args),
+                              );
+                    taskParams.labels = [];
+                    for (const name of labelNames) {
+                        // Todoist label names are case-insensitive
                         const existingLabel = labels.find(
-                            (l) => l.name === trimmedLabel,
-                        );
-                        if (!existingLabel) {
-                            await this.todoistApi.addLabel({
-                                name: trimmedLabel,
-                            });
-                        }
-                        taskParams.labels = [trimmedLabel];
-                    } catch (error) {
-                        console.warn(
-                            "Failed to create or get Todoist label:",
-                            error,
-                        );
-                        new Notice(
-                            "Warning: Failed to add label to task. The task will be created without the label.",
+                            (l) => l.name.toLowerCase() === name.toLowerCase(),
                         );
+                        const label =
+                            existingLabel ??
+                            (await this.todoistApi.addLabel({ name }));
+                        taskParams.labels.push(label.name);
                     }
-                } else {
+                } catch (error) {
                     console.warn(
-                        "Invalid Todoist label format. Label will not be added to the task.",
+                        "Failed to create or get Todoist labels:",
+                        error,
                     );
                     new Notice(
-                        "Warning: Invalid Todoist label format. The task will be created without the label.",
+                        "Warning: Failed to add labels to task. The task will be created without labels.",
                     );
+                    delete taskParams.labels;
                 }
             }
 
-            const task = await this.todoistApi.addTask(taskParams);
+            // Todoist only keeps durations of tasks with a due date
+            const task = await this.todoistApi.addTask(
+                duration && (taskParams.dueString || due_date)
+                    ? {
+                          ...taskParams,
+                          duration: duration.amount,
+                          durationUnit: duration.unit,
+                      }
+                    : taskParams,
+            );
 
             return task.id;
         } catch (error) {
@@ -358,7 +541,7 @@ export class TodoistTaskSync {
                 return;
             case "other":
                 new Notice(
-                    "This task has a special status (e.g., [?], [/], [-]). Only open tasks can be synced.",
+                    "This task has a special status (e.g., [?], [/], [-]). Only open tasks and statuses mapped in the settings can be synced.",
                 );
                 return;
             case "open":
@@ -455,7 +638,7 @@ export class TodoistTaskSync {
                     }
                     if (!existingTask.is_completed) {
                         new Notice(
-                            "Task already exists in Todoist. Enable duplicate tasks in settings to sync again.",
+                            "Task already exists in Todoist. Use 'Update linked Todoist task' to push edits, or enable duplicate tasks in settings to sync again.",
                         );
                         return;
                     }
@@ -469,6 +652,27 @@ export class TodoistTaskSync {
                 return;
             }
 
+            // Apply the first matching project rule
+            const projectRule = await this.projectRules.findMatch(
+                this.app.workspace.getActiveFile(),
+                lineText,
+            );
+            if (projectRule) {
+                taskDetails.labels.push(...projectRule.labels);
+            }
+
+            // Preselect the section from the task line or rule, or named like the heading above
+            const defaultSection =
+                taskDetails.section ||
+                projectRule?.section ||
+                (this.settings.mapHeadingsToSections
+                    ? this.TextParsing.findNearestHeading(
+                          editor.getValue().split("\n"),
+                          currentLine,
+                      )
+                    : null) ||
+                "";
+
             // Show modal with extracted details
             new TaskToTodoistModal(
                 this.app,
@@ -478,7 +682,17 @@ export class TodoistTaskSync {
                 taskDetails.dueDate || "",
                 taskDetails.priority?.toString() ||
                     this.settings.todoistDefaultPriority.toString(),
-                async (title, description, dueDate, priority, projectId) => {
+                async (
+                    title,
+                    description,
+                    dueDate,
+                    priority,
+                    projectId,
+                    deadline,
+                    duration,
+                    section,
+                    assignee,
+                ) => {
                     try {
                         // Combine user's description with the Obsidian task link
                         const descriptionParts = [];
@@ -515,7 +729,13 @@ export class TodoistTaskSync {
                                 dueDate,
                                 priority,
                                 projectId,
-                                taskDetails,
+                                {
+                                    taskDetails,
+                                    deadline,
+                                    duration,
+                                    section,
+                                    assignee,
+                                },
                             );
 
                             // Get the Todoist task URL and insert it as a sub-item
@@ -530,6 +750,22 @@ export class TodoistTaskSync {
                                 taskUrl,
                                 this.isListItem(lineText),
                             );
+                            await this.recordLink(
+                                v2Id,
+                                blockId,
+                                projectId ||
+                                    this.settings.todoistDefaultProject,
+                            );
+
+                            if (this.settings.syncSubtasks) {
+                                await this.subtaskSync.syncSubtasksToTodoist(
+                                    editor,
+                                    blockId,
+                                    taskId,
+                                    projectId ||
+                                        this.settings.todoistDefaultProject,
+                                );
+                            }
 
                             this.notificationHelper.showSuccess(
                                 "Task successfully synced to Todoist!",
@@ -546,6 +782,13 @@ export class TodoistTaskSync {
                         );
                     }
                 },
+                taskDetails.deadline || "",
+                taskDetails.duration
+                    ? DateProcessing.formatDuration(taskDetails.duration)
+                    : "",
+                defaultSection,
+                this.getStatusProjectId(lineText) || projectRule?.projectId,
+                taskDetails.assignee || "",
             ).open();
         } catch (error) {
             console.error("Failed to sync task to Todoist:", error);
@@ -613,12 +856,26 @@ export class TodoistTaskSync {
             // Check if the current line is a list item
             const isListItem = this.isListItem(lineContent);
 
+            // Apply the first matching project rule
+            const projectRule = await this.projectRules.findMatch(
+                this.app.workspace.getActiveFile(),
+                lineContent,
+            );
+
             // Show modal for task input
             new NonTaskToTodoistModal(
                 this.app,
                 this.settings.includeSelectedTextInDescription,
                 this.plugin,
-                async (title, description, dueDate, priority, projectId) => {
+                async (
+                    title,
+                    description,
+                    dueDate,
+                    priority,
+                    projectId,
+                    deadline,
+                    duration,
+                ) => {
                     try {
                         // Prepare description components
                         const descriptionParts = [];
@@ -659,6 +916,15 @@ export class TodoistTaskSync {
                             dueDate,
                             priority,
                             projectId,
+                            {
+                                deadline,
+                                duration,
+                                section: this.getRuleSection(
+                                    projectRule,
+                                    projectId,
+                                ),
+                                labels: projectRule?.labels,
+                            },
                         );
 
                         // Get the Todoist task URL and insert it as a sub-item
@@ -672,6 +938,11 @@ export class TodoistTaskSync {
                             taskUrl,
                             isListItem,
                         );
+                        await this.recordLink(
+                            v2Id,
+                            blockId,
+                            projectId || this.settings.todoistDefaultProject,
+                        );
 
                         this.notificationHelper.showSuccess(
                             "Task successfully created in Todoist!",
@@ -684,6 +955,7 @@ export class TodoistTaskSync {
                         editor.setCursor(currentCursor);
                     }
                 },
+                projectRule?.projectId,
             ).open();
         } catch (error) {
             console.error("Error in createTodoistFromText:", error);
@@ -712,12 +984,23 @@ export class TodoistTaskSync {
             const fileUri =
                 await this.URILinkProcessing.generateAdvancedUriToFile();
 
+            // Apply the first matching project rule
+            const projectRule = await this.projectRules.findMatch(file);
+
             // Show modal for task input
             new NonTaskToTodoistModal(
                 this.app,
                 false,
                 this.plugin,
-                async (title, description, dueDate, priority, projectId) => {
+                async (
+                    title,
+                    description,
+                    dueDate,
+                    priority,
+                    projectId,
+                    deadline,
+                    duration,
+                ) => {
                     try {
                         // Prepare description components
                         const descriptionParts = [];
@@ -751,6 +1034,22 @@ export class TodoistTaskSync {
                             dueDate,
                             priority,
                             projectId,
+                            {
+                                deadline,
+                                duration,
+                                section: this.getRuleSection(
+                                    projectRule,
+                                    projectId,
+                                ),
+                                labels: projectRule?.labels,
+                            },
+                        );
+
+                        // Tasks created from a file link to the note itself
+                        await this.recordLink(
+                            await this.todoistV2IDs.getV2Id(taskId),
+                            null,
+                            projectId || this.settings.todoistDefaultProject,
                         );
 
                         this.notificationHelper.showSuccess(
@@ -763,6 +1062,7 @@ export class TodoistTaskSync {
                         );
                     }
                 },
+                projectRule?.projectId,
             ).open();
         } catch (error) {
             console.error("Error in createTodoistFromFile:", error);
@@ -770,31 +1070,549 @@ export class TodoistTaskSync {
         }
     }
 
-    getTodoistTaskId(editor: Editor, taskLine: number): string | null {
-        // Look for existing Todoist link in sub-items
-        let nextLine = taskLine + 1;
-        let nextLineText = editor.getLine(nextLine);
-        const taskIndentation = this.getLineIndentation(
-            editor.getLine(taskLine),
+    /**
+     * Pushes edits of an already-synced task to its linked Todoist task after confirmation
+     * @param editor The editor containing the task under the cursor
+     */
+    async updateLinkedTodoistTask(editor: Editor) {
+        if (!this.todoistApi) {
+            new Notice("Please set up your Todoist API token first.");
+            return;
+        }
+
+        const currentLine = editor.getCursor().line;
+        const lineText = editor.getLine(currentLine);
+
+        if (!this.isTaskLine(lineText)) {
+            new Notice(
+                'Please place the cursor on a task line (e.g., "- [ ] Task")',
+            );
+            return;
+        }
+
+        const taskId = this.getTodoistTaskId(editor, currentLine);
+        if (!taskId) {
+            new Notice("No linked Todoist task found for this task.");
+            return;
+        }
+
+        try {
+            const task = await this.todoistApi.getTask(taskId);
+
+            // Statuses mapped to deletion delete the Todoist task and unlink the line
+            if (
+                this.TextParsing.getStatusMapping(lineText)?.action === "delete"
+            ) {
+                new UpdateTodoistTaskModal(
+                    this.app,
+                    [
+                        {
+                            label: "Task",
+                            todoistValue: task.content,
+                            obsidianValue: "Deleted",
+                        },
+                    ],
+                    () =>
+                        this.deleteLinkedTodoistTask(
+                            editor,
+                            currentLine,
+                            taskId,
+                            task.id,
+                        ),
+                ).open();
+                return;
+            }
+
+            const taskDetails = this.extractTaskDetails(lineText, false);
+            const obsidian = createObsidianSnapshot(
+                taskDetails,
+                this.getTaskStatus(lineText) === "completed",
+            );
+            const todoist = createTodoistSnapshot(
+                task,
+                this.settings.checkboxStatusMappings,
+            );
+
+            // Fields edited on both sides since the last sync follow the conflict policy
+            const todoistFields = await this.resolveFieldConflicts(
+                taskId,
+                task,
+                obsidian,
+                todoist,
+                "obsidian",
+            );
+            if (!todoistFields) {
+                this.notificationHelper.showInfo("Update skipped.");
+                return;
+            }
+
+            const changes: TaskFieldChange[] = [];
+            const updateArgs: UpdateTaskArgs = {};
+
+            if (
+                taskDetails.cleanText &&
+                taskDetails.cleanText !== task.content &&
+                !todoistFields.includes("content")
+            ) {
+                changes.push({
+                    label: "Title",
+                    todoistValue: task.content,
+                    obsidianValue: taskDetails.cleanText,
+                });
+                updateArgs.content = taskDetails.cleanText;
+            }
+
+            // Recurring due dates are managed in Todoist; overwriting them would drop the recurrence
+            if (
+                task.due?.isRecurring &&
+                DateProcessing.normalizeDueDate(taskDetails.dueDate) !==
+                    todoist.dueDate
+            ) {
+                this.notificationHelper.showInfo(
+                    "The due date of a recurring task is managed in Todoist and was not updated.",
+                );
+            } else if (!todoistFields.includes("dueDate")) {
+                if (
+                    DateProcessing.normalizeDueDate(taskDetails.dueDate) !==
+                    todoist.dueDate
+                ) {
+                    changes.push({
+                        label: "Due date",
+                        todoistValue: todoist.dueDate ?? "None",
+                        obsidianValue: taskDetails.dueDate ?? "None",
+                    });
+                    Object.assign(
+                        updateArgs,
+                        DateProcessing.toTodoistDue(taskDetails.dueDate),
+                    );
+                }
+            }
+
+            if (
+                taskDetails.priority !== null &&
+                !todoistFields.includes("priority")
+            ) {
+                // Convert UI priority (1=highest) to API priority (4=highest)
+                const apiPriority = 5 - taskDetails.priority;
+                if (apiPriority !== task.priority) {
+                    changes.push({
+                        label: "Priority",
+                        todoistValue: `P${todoist.priority}`,
+                        obsidianValue: `P${taskDetails.priority}`,
+                    });
+                    updateArgs.priority = apiPriority;
+                }
+            }
+
+            if (
+                obsidian.status !== todoist.status &&
+                !todoistFields.includes("status")
+            ) {
+                changes.push({
+                    label: "Status",
+                    todoistValue: `[${todoist.status || " "}]`,
+                    obsidianValue: `[${obsidian.status || " "}]`,
+                });
+            }
+
+            // Todoist only keeps durations of tasks with a due date
+            if (
+                taskDetails.duration &&
+                (task.due || taskDetails.dueDate) &&
+                (taskDetails.duration.amount !== task.duration?.amount ||
+                    taskDetails.duration.unit !== task.duration?.unit)
+            ) {
+                changes.push({
+                    label: "Duration",
+                    todoistValue: task.duration
+                        ? DateProcessing.formatDuration(task.duration)
+                        : "None",
+                    obsidianValue: DateProcessing.formatDuration(
+                        taskDetails.duration,
+                    ),
+                });
+                Object.assign(updateArgs, {
+                    duration: taskDetails.duration.amount,
+                    durationUnit: taskDetails.duration.unit,
+                });
+            }
+
+            if (taskDetails.assignee) {
+                const assigneeId = await this.resolveAssigneeId(
+                    task.projectId,
+                    {
+                        id: null,
+                        name: taskDetails.assignee,
+                    },
+                );
+                if (assigneeId && assigneeId !== task.responsibleUid) {
+                    const collaborators = await this.plugin.fetchCollaborators(
+                        task.projectId,
+                    );
+                    const currentAssignee = collaborators.find(
+                        (collaborator: User) =>
+                            collaborator.id === task.responsibleUid,
+                    );
+                    changes.push({
+                        label: "Assignee",
+                        todoistValue: currentAssignee?.name ?? "Unassigned",
+                        obsidianValue:
+                            collaborators.find(
+                                (collaborator: User) =>
+                                    collaborator.id === assigneeId,
+                            )?.name ?? taskDetails.assignee,
+                    });
+                    updateArgs.assigneeId = assigneeId;
+                }
+            }
+
+            // Conflicting fields won by Todoist are pulled into the note instead
+            const pulledFields: Partial<TaskSnapshot> = {};
+            todoistFields.forEach((field) => {
+                Object.assign(pulledFields, { [field]: todoist[field] });
+            });
+            const updatedLine = this.TextParsing.applyTaskFields(
+                lineText,
+                pulledFields,
+            );
+
+            if (changes.length === 0 && updatedLine === lineText) {
+                await this.recordSyncedState(taskId, lineText, task);
+                this.notificationHelper.showInfo(
+                    "Linked Todoist task is already up to date.",
+                );
+                return;
+            }
+
+            const applyUpdate = async () => {
+                try {
+                    if (!this.todoistApi) {
+                        throw new Error("Todoist API is not initialized");
+                    }
+                    let updatedTask =
+                        Object.keys(updateArgs).length > 0
+                            ? await this.todoistApi.updateTask(
+                                  task.id,
+                                  updateArgs,
+                              )
+                            : task;
+                    if (
+                        obsidian.status !== todoist.status &&
+                        !todoistFields.includes("status")
+                    ) {
+                        updatedTask =
+                            await this.checkboxStatusSync.applyToTodoist(
+                                this.todoistApi,
+                                updatedTask,
+                                obsidian.status,
+                            );
+                    }
+
+                    let syncedLine = lineText;
+                    if (
+                        updatedLine !== lineText &&
+                        editor.getLine(currentLine) === lineText
+                    ) {
+                        editor.setLine(currentLine, updatedLine);
+                        syncedLine = updatedLine;
+                    }
+
+                    await this.recordSyncedState(
+                        taskId,
+                        syncedLine,
+                        updatedTask,
+                    );
+                    this.notificationHelper.showSuccess(
+                        "Linked Todoist task updated!",
+                    );
+                } catch (error) {
+                    console.error("Failed to update Todoist task:", error);
+                    this.notificationHelper.showError(
+                        "Failed to update Todoist task. Please try again.",
+                    );
+                }
+            };
+
+            if (changes.length > 0) {
+                new UpdateTodoistTaskModal(
+                    this.app,
+                    changes,
+                    applyUpdate,
+                ).open();
+            } else {
+                await applyUpdate();
+            }
+        } catch (error) {
+            console.error("Failed to load linked Todoist task:", error);
+            this.notificationHelper.showError(
+                "Failed to load linked Todoist task. It may have been deleted.",
+            );
+        }
+    }
+
+    /**
+     * Deletes the linked Todoist task and removes the link sub-item below the task line
+     * @param editor The editor containing the task
+     * @param taskLine Line number of the task
+     * @param taskId The Todoist task ID as written in the note's task link
+     * @param apiTaskId The ID of the Todoist task
+     */
+    private async deleteLinkedTodoistTask(
+        editor: Editor,
+        taskLine: number,
+        taskId: string,
+        apiTaskId: string,
+    ) {
+        try {
+            if (!this.todoistApi) {
+                throw new Error("Todoist API is not initialized");
+            }
+            await this.todoistApi.deleteTask(apiTaskId);
+            await this.plugin.linkIndex.remove(taskId);
+
+            const linkLine = this.TextParsing.findTodoistLinkLine(
+                (line) =>
+                    line < editor.lineCount()
+                        ? editor.getLine(line)
+                        : undefined,
+                taskLine,
+            );
+            if (linkLine !== null) {
+                editor.replaceRange(
+                    "",
+                    {
+                        line: linkLine - 1,
+                        ch: editor.getLine(linkLine - 1).length,
+                    },
+                    { line: linkLine, ch: editor.getLine(linkLine).length },
+                );
+            }
+
+            this.notificationHelper.showSuccess("Linked Todoist task deleted!");
+        } catch (error) {
+            console.error("Failed to delete Todoist task:", error);
+            this.notificationHelper.showError(
+                "Failed to delete Todoist task. Please try again.",
+            );
+        }
+    }
+
+    /**
+     * Rewrites the task line under the cursor from its linked Todoist task,
+     * keeping the checkbox, block ID and tags
+     * @param editor The editor containing the task under the cursor
+     */
+    async refreshTaskFromTodoist(editor: Editor) {
+        if (!this.todoistApi) {
+            new Notice("Please set up your Todoist API token first.");
+            return;
+        }
+
+        const currentCursor = editor.getCursor();
+        const currentLine = currentCursor.line;
+        const lineText = editor.getLine(currentLine);
+
+        if (!this.isTaskLine(lineText)) {
+            new Notice(
+                'Please place the cursor on a task line (e.g., "- [ ] Task")',
+            );
+            return;
+        }
+
+        const taskId = this.getTodoistTaskId(editor, currentLine);
+        if (!taskId) {
+            new Notice("No linked Todoist task found for this task.");
+            return;
+        }
+
+        try {
+            const task = await this.todoistApi.getTask(taskId);
+            const obsidian = createObsidianSnapshot(
+                this.extractTaskDetails(lineText, false),
+                this.getTaskStatus(lineText) === "completed",
+            );
+            const todoist = createTodoistSnapshot(
+                task,
+                this.settings.checkboxStatusMappings,
+            );
+
+            // Fields edited on both sides since the last sync follow the conflict policy
+            const obsidianFields = await this.resolveFieldConflicts(
+                taskId,
+                task,
+                obsidian,
+                todoist,
+                "todoist",
+            );
+            if (!obsidianFields) {
+                this.notificationHelper.showInfo("Refresh skipped.");
+                return;
+            }
+
+            const pulledFields: Partial<TaskSnapshot> = {};
+            const updateArgs: UpdateTaskArgs = {};
+            for (const field of [
+                "content",
+                "dueDate",
+                "priority",
+                "status",
+            ] as const) {
+                if (obsidian[field] === todoist[field]) continue;
+
+                if (!obsidianFields.includes(field)) {
+                    Object.assign(pulledFields, { [field]: todoist[field] });
+                } else if (field === "content") {
+                    // Conflicting fields won by Obsidian are pushed to Todoist instead
+                    updateArgs.content = obsidian.content;
+                } else if (field === "dueDate" && !task.due?.isRecurring) {
+                    Object.assign(
+                        updateArgs,
+                        DateProcessing.toTodoistDue(obsidian.dueDate),
+                    );
+                } else if (field === "priority") {
+                    // Convert UI priority (1=highest) to API priority (4=highest)
+                    updateArgs.priority = 5 - obsidian.priority;
+                }
+            }
+
+            const updatedLine = this.TextParsing.applyTaskFields(
+                lineText,
+                pulledFields,
+            );
+            // A conflicting status won by Obsidian is pushed to Todoist instead
+            const pushStatus =
+                obsidian.status !== todoist.status &&
+                obsidianFields.includes("status");
+            const hasUpdates = Object.keys(updateArgs).length > 0 || pushStatus;
+
+            if (updatedLine === lineText && !hasUpdates) {
+                await this.recordSyncedState(taskId, lineText, task);
+                this.notificationHelper.showInfo(
+                    "Task is already up to date with Todoist.",
+                );
+                return;
+            }
+
+            // Make sure the line was not edited while the task was loading
+            if (editor.getLine(currentLine) !== lineText) {
+                new Notice(
+                    "The task line changed while refreshing. Please try again.",
+                );
+                return;
+            }
+
+            let updatedTask =
+                Object.keys(updateArgs).length > 0
+                    ? await this.todoistApi.updateTask(task.id, updateArgs)
+                    : task;
+            if (pushStatus) {
+                updatedTask = await this.checkboxStatusSync.applyToTodoist(
+                    this.todoistApi,
+                    updatedTask,
+                    obsidian.status,
+                );
+            }
+
+            editor.setLine(currentLine, updatedLine);
+            editor.setCursor({
+                line: currentLine,
+                ch: Math.min(currentCursor.ch, updatedLine.length),
+            });
+            await this.recordSyncedState(taskId, updatedLine, updatedTask);
+
+            this.notificationHelper.showSuccess("Task refreshed from Todoist!");
+        } catch (error) {
+            console.error("Failed to refresh task from Todoist:", error);
+            this.notificationHelper.showError(
+                "Failed to refresh task from Todoist. It may have been deleted.",
+            );
+        }
+    }
+
+    /**
+     * Applies the conflict policy to fields edited in both Obsidian and Todoist since the last sync
+     * @param taskId The Todoist task ID as written in the note's task link
+     * @param task The linked Todoist task
+     * @param obsidian The current Obsidian side of the task
+     * @param todoist The current Todoist side of the task
+     * @param direction The side the calling command copies from
+     * @returns The conflicting fields won by the other side, or null if the user skipped the task
+     */
+    private async resolveFieldConflicts(
+        taskId: string,
+        task: Task,
+        obsidian: TaskSnapshot,
+        todoist: TaskSnapshot,
+        direction: ConflictSide,
+    ): Promise<(keyof TaskSnapshot)[] | null> {
+        const base = this.plugin.linkIndex.findByTaskId(taskId)?.snapshot;
+        if (!base) return [];
+
+        const conflicts = findConflicts(base, obsidian, todoist, [
+            "content",
+            "dueDate",
+            "priority",
+            "status",
+        ]);
+        if (conflicts.length === 0) return [];
+
+        const file = this.app.workspace.getActiveFile();
+        const winner = await this.conflictResolver.resolve(
+            conflicts,
+            obsidian.content,
+            file?.stat.mtime ?? Date.now(),
+            task.updatedAt,
+            true,
         );
+        if (!winner) return null;
+
+        return winner === direction
+            ? []
+            : conflicts.map((conflict) => conflict.field);
+    }
 
-        // Check subsequent lines with deeper indentation
-        while (
-            nextLineText &&
-            this.getLineIndentation(nextLineText).length >
-                taskIndentation.length
-        ) {
-            // Look for Todoist task link
-            const taskIdMatch = nextLineText.match(
-                TODOIST_CONSTANTS.LINK_PATTERN,
+    /**
+     * Stores the fields both sides agree on after a sync as the link's snapshot
+     * @param taskId The Todoist task ID as written in the note's task link
+     * @param line The task line after the sync
+     * @param task The Todoist task after the sync
+     */
+    private async recordSyncedState(taskId: string, line: string, task: Task) {
+        const obsidian = createObsidianSnapshot(
+            this.extractTaskDetails(line, false),
+            this.getTaskStatus(line) === "completed",
+        );
+        const previous = this.plugin.linkIndex.findByTaskId(taskId)?.snapshot;
+        const snapshot = createSyncedSnapshot(
+            previous,
+            obsidian,
+            createTodoistSnapshot(task, this.settings.checkboxStatusMappings),
+        );
+
+        try {
+            const recorded = await this.plugin.linkIndex.recordSync(
+                taskId,
+                snapshot,
             );
-            if (taskIdMatch) {
-                return taskIdMatch[1];
+            if (!recorded) {
+                await this.recordLink(
+                    taskId,
+                    this.TextParsing.extractBlockId(line),
+                    task.projectId,
+                    snapshot,
+                );
             }
-            nextLine++;
-            nextLineText = editor.getLine(nextLine);
+        } catch (error) {
+            console.error("Failed to record Todoist sync snapshot:", error);
         }
-        return null;
+    }
+
+    getTodoistTaskId(editor: Editor, taskLine: number): string | null {
+        // Look for existing Todoist link in sub-items
+        return this.TextParsing.findLinkedTodoistTaskId(
+            (line) => editor.getLine(line),
+            taskLine,
+        );
     }
 
     async findExistingTodoistTask(
@@ -819,18 +1637,52 @@ export class TodoistTaskSync {
                     };
                 } catch (error) {
                     // Task might have been deleted in Todoist, continue searching
+                    if (isTodoistNotFoundError(error)) {
+                        this.notificationHelper.showInfo(
+                            "The linked Todoist task no longer exists. Use 'Check Todoist links in current file' to repair the link.",
+                        );
+                    }
                     console.log(
                         "Local task not found in Todoist, searching further...",
                     );
                 }
             }
 
-            // Search in Todoist for tasks with matching Advanced URI or block ID
+            // Then check the link index for a task created from this block
+            const file = this.app.workspace.getActiveFile();
+            const indexedLink = file
+                ? this.plugin.linkIndex.findByBlock(
+                      file.path,
+                      blockId,
+                      this.app.metadataCache.getFileCache(file)?.frontmatter?.[
+                          this.settings.uidField
+                      ] ?? null,
+                  )
+                : null;
+            if (indexedLink) {
+                try {
+                    const task = await this.todoistApi.getTask(
+                        indexedLink.taskId,
+                    );
+                    return {
+                        task_id: indexedLink.taskId,
+                        is_completed: task.checked ?? false,
+                    };
+                } catch (error) {
+                    // Only a deleted task makes the index entry stale
+                    if (!isTodoistNotFoundError(error)) {
+                        throw error;
+                    }
+                    await this.plugin.linkIndex.remove(indexedLink.taskId);
+                }
+            }
+
+            // Fall back to searching Todoist for links created before the index existed
             const taskApi = this.todoistApi;
-            const activeTasks = await fetchAllPages((args) =>
-                taskApi.getTasks(args),
-            );
-            const matchingTask = activeTasks.find(
+            const candidateTasks: Task[] = (await this.plugin.syncClient.sync())
+                ? this.plugin.syncClient.getTasks(true)
+                : await fetchAllPages((args) => taskApi.getTasks(args));
+            const matchingTask = candidateTasks.find(
                 (task) =>
                     task.description &&
                     (task.description.includes(advancedUri) ||
@@ -838,6 +1690,11 @@ export class TodoistTaskSync {
             );
 
             if (matchingTask) {
+                await this.recordLink(
+                    matchingTask.id,
+                    blockId,
+                    matchingTask.projectId,
+                );
                 return {
                     task_id: matchingTask.id,
                     is_completed: matchingTask.checked ?? false,
@@ -851,6 +1708,42 @@ export class TodoistTaskSync {
         }
     }
 
+    /**
+     * Records a link between a note and a Todoist task in the link index
+     * @param taskId The Todoist task ID as written in the note's task link
+     * @param blockId The block ID of the linked line, or null for the whole note
+     * @param projectId The Todoist project of the task
+     * @param snapshot The fields both sides agreed on, if already synced
+     * @param file The linked note, defaulting to the active note
+     */
+    async recordLink(
+        taskId: string,
+        blockId: string | null,
+        projectId: string | null,
+        snapshot?: Partial<TaskSnapshot>,
+        file: TFile | null = this.app.workspace.getActiveFile(),
+    ) {
+        if (!file || !taskId) return;
+
+        const noteUid =
+            this.app.metadataCache.getFileCache(file)?.frontmatter?.[
+                this.settings.uidField
+            ] ?? null;
+
+        try {
+            await this.plugin.linkIndex.upsert({
+                taskId,
+                filePath: file.path,
+                noteUid,
+                blockId,
+                projectId: projectId || null,
+                snapshot,
+            });
+        } catch (error) {
+            console.error("Failed to update Todoist link index:", error);
+        }
+    }
+
     async insertTodoistLink(
         editor: Editor,
         line: number,
@@ -873,6 +1766,63 @@ export class TodoistTaskSync {
             : currentCursor.line;
 
         const lineText = editor.getLine(indentationSourceLine);
+
+        // Determine whether to use tabs or spaces for indentation by examining the current line
+        // We'll detect the indentation style based on the content of the file
+        const linkText = this.formatTodoistLink(
+            lineText,
+            taskUrl,
+            isListItem,
+            this.detectIndentWithTabs(initialContent),
+        );
+
+        // Get file and ensure UID
+        const file = this.app.workspace.getActiveFile();
+        if (!file) return;
+
+        try {
+            // Skip front matter processing if requested (when already processed earlier)
+            if (!skipFrontMatterProcessing) {
+                // Use UIDProcessing to handle the UID in frontmatter
+                await this.UIDProcessing.getOrCreateUid(file, editor);
+            }
+
+            // Use appropriate line depending on context:
+            // - For Todoist→Obsidian (skipFrontMatterProcessing=true): Use the line parameter which is the task line
+            // - For Obsidian→Todoist (skipFrontMatterProcessing=false): Use the cursor position
+            const targetLine = skipFrontMatterProcessing
+                ? line
+                : currentCursor.line;
+
+            // Insert the link at the determined line
+            editor.replaceRange(linkText, {
+                line: targetLine,
+                ch: editor.getLine(targetLine).length,
+            });
+
+            // Restore cursor to its original position
+            editor.setCursor(currentCursor);
+        } catch (error) {
+            console.error("Error inserting Todoist link:", error);
+            new Notice("Failed to insert Todoist link. Please try again.");
+            editor.setCursor(currentCursor);
+        }
+    }
+
+    /**
+     * Formats the Todoist link sub-item placed below a synced line
+     * @param lineText The synced line, used for indentation
+     * @param taskUrl The Todoist task URL
+     * @param isListItem Whether the synced line is a list item
+     * @param isIndentedWithTabs Whether the note indents with tabs
+     * @returns The link text, starting with a line break
+     */
+    formatTodoistLink(
+        lineText: string,
+        taskUrl: string,
+        isListItem: boolean,
+        isIndentedWithTabs: boolean,
+    ): string {
         const taskLevel = this.getIndentationLevel(lineText);
         const isTask = this.isTaskLine(lineText);
 
@@ -884,9 +1834,6 @@ export class TodoistTaskSync {
             .moment()
             .format(this.settings.todoistLinkTimestampFormat);
 
-        // Determine whether to use tabs or spaces for indentation by examining the current line
-        // We'll detect the indentation style based on the content of the file
-        const isIndentedWithTabs = this.detectIndentWithTabs(editor);
         const tabSize = 4; // Default tab size for spaces
         const indentChar = isIndentedWithTabs ? "\t" : " ".repeat(tabSize);
 
@@ -950,37 +1897,7 @@ export class TodoistTaskSync {
                 break;
         }
 
-        // Get file and ensure UID
-        const file = this.app.workspace.getActiveFile();
-        if (!file) return;
-
-        try {
-            // Skip front matter processing if requested (when already processed earlier)
-            if (!skipFrontMatterProcessing) {
-                // Use UIDProcessing to handle the UID in frontmatter
-                await this.UIDProcessing.getOrCreateUid(file, editor);
-            }
-
-            // Use appropriate line depending on context:
-            // - For Todoist→Obsidian (skipFrontMatterProcessing=true): Use the line parameter which is the task line
-            // - For Obsidian→Todoist (skipFrontMatterProcessing=false): Use the cursor position
-            const targetLine = skipFrontMatterProcessing
-                ? line
-                : currentCursor.line;
-
-            // Insert the link at the determined line
-            editor.replaceRange(linkText, {
-                line: targetLine,
-                ch: editor.getLine(targetLine).length,
-            });
-
-            // Restore cursor to its original position
-            editor.setCursor(currentCursor);
-        } catch (error) {
-            console.error("Error inserting Todoist link:", error);
-            new Notice("Failed to insert Todoist link. Please try again.");
-            editor.setCursor(currentCursor);
-        }
+        return linkText;
     }
 
     /**
@@ -1057,7 +1974,7 @@ export class TodoistTaskSync {
             // Filter out metadata if requested
             let filteredLines = lines;
             if (excludeMetadata) {
-                // Filter out the reference link line and empty lines
+                // Filter out the reference link line
                 filteredLines = lines.filter(
                     (line) =>
                         !TODOIST_CONSTANTS.METADATA_PATTERNS.ORIGINAL_TASK.test(
@@ -1065,11 +1982,10 @@ export class TodoistTaskSync {
                         ) &&
                         !TODOIST_CONSTANTS.METADATA_PATTERNS.REFERENCE.test(
                             line,
-                        ) &&
-                        line.trim() !== "",
+                        ),
                 );
 
-                if (filteredLines.length === 0) {
+                if (filteredLines.every((line) => !line.trim())) {
                     if (hasOnlyMetadata) {
                         new Notice(
                             "Only metadata found in the task description. Nothing to sync.",
@@ -1092,8 +2008,8 @@ export class TodoistTaskSync {
             const taskLevel = this.getIndentationLevel(lineText);
             const descriptionBaseIndentation = "\t".repeat(taskLevel + 1);
 
-            // Process and format the description lines with the correct base indentation
-            const formattedLines = this.processDescriptionLines(
+            // Convert the description to Obsidian list items with the correct base indentation
+            const formattedLines = TodoistMarkdown.toObsidianLines(
                 filteredLines,
                 descriptionBaseIndentation,
             );
@@ -1178,16 +2094,20 @@ export class TodoistTaskSync {
             // Check if we're in a callout or block quote context
             const isInCalloutOrQuote = currentLineText.trim().startsWith(">");
 
-            // Determine task format based on user preferences
-            const preferredPriorityFormat =
-                this.settings.preferredPriorityFormat;
-            const preferredDueDateFormat = this.settings.preferredDueDateFormat;
-
             // Format the task title
-            const taskText = task.content;
+            const taskText = TodoistMarkdown.toObsidianInline(
+                LinkConversion.toObsidian(task.content),
+                false,
+            );
+
+            // Custom statuses mapped to a Todoist label or project set the checkbox
+            const checkbox = `[${
+                getTodoistStatus(task, this.settings.checkboxStatusMappings) ||
+                " "
+            }]`;
 
             // Add task checkbox based on context
-            let formattedTaskLine;
+            let formattedTaskLine: string;
             if (isInCalloutOrQuote) {
                 // In a callout or block quote, keep the quote marker but add task
                 // Extract the extended indentation (including > markers)
@@ -1196,65 +2116,50 @@ export class TodoistTaskSync {
                         currentLineText,
                     );
 
-                formattedTaskLine = `${extendedIndentation}- [ ] ${taskText}`;
+                formattedTaskLine = `${extendedIndentation}- ${checkbox} ${taskText}`;
             } else if (isInTask) {
                 // If we're already in a task, use the same indentation but create a new task
-                formattedTaskLine = `${originalIndentation}- [ ] ${taskText}`;
+                formattedTaskLine = `${originalIndentation}- ${checkbox} ${taskText}`;
             } else if (isInListItem) {
                 // If we're in a list item, convert to a task
-                formattedTaskLine = `${originalIndentation}- [ ] ${taskText}`;
+                formattedTaskLine = `${originalIndentation}- ${checkbox} ${taskText}`;
             } else {
                 // Otherwise just create a new task
-                formattedTaskLine = `- [ ] ${taskText}`;
+                formattedTaskLine = `- ${checkbox} ${taskText}`;
             }
 
-            // Add priority if available based on preference
-            const priority = task.priority;
-            if (priority) {
-                // Convert from Todoist API priority (4=highest to 1=lowest)
-                // to UI priority (1=highest to 4=lowest)
-                const uiPriority = 5 - priority;
-
-                if (
-                    preferredPriorityFormat === "tasks" &&
-                    this.settings.enableTasksPluginPriority
-                ) {
-                    // Use Tasks plugin priority format
-                    // Find the emoji from the settings based on priority level
-                    let priorityEmoji: string | null = null;
-
-                    // Loop through the emoji mappings in settings to find the one that matches our priority
-                    for (const [emoji, value] of Object.entries(
-                        this.settings.tasksPluginPriorityMapping,
-                    )) {
-                        if (value === uiPriority) {
-                            priorityEmoji = emoji;
-                            break;
-                        }
-                    }
+            // Add priority, dates, duration and tags based on preference
+            const warnings = new Set<string>();
+            formattedTaskLine += this.formatTaskFields(task, warnings);
+            warnings.forEach((warning) => new Notice(warning));
 
-                    if (priorityEmoji) {
-                        formattedTaskLine = `${formattedTaskLine} ${priorityEmoji}`;
+            // Add the section name as context, subtasks share the section of this task
+            const sectionKey = this.settings.dataviewSectionKey.trim();
+            if (sectionKey && task.sectionId) {
+                try {
+                    const section = (
+                        await this.plugin.fetchSections(task.projectId)
+                    ).find((s: Section) => s.id === task.sectionId);
+                    if (section) {
+                        formattedTaskLine += ` [${sectionKey}::${section.name}]`;
                     }
-                } else {
-                    // Use Dataview priority format
-                    formattedTaskLine = `${formattedTaskLine} [${this.settings.dataviewPriorityKey}::${uiPriority}]`;
+                } catch (error) {
+                    console.warn("Failed to look up Todoist section:", error);
                 }
             }
 
-            // Add due date if available based on preference
-            if (task.due) {
-                const dueDate = task.due.date; // Format is typically YYYY-MM-DD
-
-                if (
-                    preferredDueDateFormat === "tasks" &&
-                    this.settings.enableTasksPluginDueDate
-                ) {
-                    // Use Tasks plugin date format with 📅 emoji
-                    formattedTaskLine = `${formattedTaskLine} 📅 ${dueDate}`;
-                } else {
-                    // Use Dataview due date format
-                    formattedTaskLine = `${formattedTaskLine} [${this.settings.dataviewDueDateKey}::${dueDate}]`;
+            // Add the assignee of tasks in shared projects
+            const assigneeKey = this.settings.dataviewAssigneeKey.trim();
+            if (assigneeKey && task.responsibleUid) {
+                try {
+                    const assignee = (
+                        await this.plugin.fetchCollaborators(task.projectId)
+                    ).find((user: User) => user.id === task.responsibleUid);
+                    if (assignee) {
+                        formattedTaskLine += ` [${assigneeKey}::${assignee.name}]`;
+                    }
+                } catch (error) {
+                    console.warn("Failed to look up Todoist assignee:", error);
                 }
             }
 
@@ -1346,9 +2251,7 @@ export class TodoistTaskSync {
                 const taskLineContent = editor.getLine(insertedTaskLine);
 
                 // Check if task line still contains the expected task content
-                const containsTaskContent = taskLineContent.includes(
-                    task.content,
-                );
+                const containsTaskContent = taskLineContent.includes(taskText);
                 // Log result for debugging
                 if (!containsTaskContent) {
                     console.debug("Task content not found in inserted line");
@@ -1392,8 +2295,8 @@ export class TodoistTaskSync {
             if (actualTaskLine === -1) {
                 for (let i = 0; i < docLines.length; i++) {
                     if (
-                        docLines[i].includes(task.content) &&
-                        docLines[i].startsWith("- [ ]")
+                        docLines[i].includes(taskText) &&
+                        docLines[i].startsWith(`- ${checkbox}`)
                     ) {
                         actualTaskLine = i;
                         break;
@@ -1415,6 +2318,11 @@ export class TodoistTaskSync {
                 true, // This is a list item
                 true, // Skip front matter processing as we already did it
             );
+            await this.recordLink(v2Id, blockId, task.projectId);
+
+            if (this.settings.syncSubtasks) {
+                await this.subtaskSync.importSubtasks(editor, blockId, task);
+            }
 
             // Update the Todoist task description to include a link back to Obsidian
             try {
@@ -1484,4 +2392,113 @@ export class TodoistTaskSync {
             );
         }
     }
+
+    /**
+     * Formats the priority, dates, duration and labels of a Todoist task for its Obsidian task line
+     * @param task The Todoist task
+     * @param warnings Collects problems for the caller to report, such as recurrences
+     * that cannot be written back
+     * @returns The fields, each preceded by a space
+     */
+    formatTaskFields(task: Task, warnings?: Set<string>): string {
+        let fields = "";
+
+        // Add priority if available based on preference
+        const priority = task.priority;
+        if (priority) {
+            // Convert from Todoist API priority (4=highest to 1=lowest)
+            // to UI priority (1=highest to 4=lowest)
+            const uiPriority = 5 - priority;
+
+            if (
+                this.settings.preferredPriorityFormat === "tasks" &&
+                this.settings.enableTasksPluginPriority
+            ) {
+                // Use Tasks plugin priority format
+                // Find the emoji from the settings based on priority level
+                let priorityEmoji: string | null = null;
+
+                // Loop through the emoji mappings in settings to find the one that matches our priority
+                for (const [emoji, value] of Object.entries(
+                    this.settings.tasksPluginPriorityMapping,
+                )) {
+                    if (value === uiPriority) {
+                        priorityEmoji = emoji;
+                        break;
+                    }
+                }
+
+                if (priorityEmoji) {
+                    fields += ` ${priorityEmoji}`;
+                }
+            } else {
+                // Use Dataview priority format
+                fields += ` [${this.settings.dataviewPriorityKey}::${uiPriority}]`;
+            }
+        }
+
+        // Add due date if available based on preference
+        if (task.due) {
+            // Times fixed to a time zone are shown in the vault's time zone
+            const dueDate =
+                DateProcessing.formatTodoistDueDate(task.due) ?? task.due.date;
+            const useTasksFormat =
+                this.settings.preferredDueDateFormat === "tasks" &&
+                this.settings.enableTasksPluginDueDate;
+
+            // Write recurring tasks back as a recurrence rule before the due date
+            if (task.due.isRecurring) {
+                const recurrence = RecurrenceProcessing.toTasksRecurrence(
+                    task.due.string,
+                );
+                if (recurrence) {
+                    fields += useTasksFormat
+                        ? ` 🔁 ${recurrence}`
+                        : ` [${this.settings.dataviewRecurrenceKey}::${recurrence}]`;
+                } else {
+                    warnings?.add(
+                        `Recurrence "${task.due.string}" cannot be expressed as a Tasks plugin rule, so only the next due date was added.`,
+                    );
+                }
+            }
+
+            // Write the due date to the task date synced to it
+            fields += ` ${this.TextParsing.formatDueDate(dueDate)}`;
+        }
+
+        // Add the deadline if a task date is synced to it
+        const deadlineField = this.TextParsing.getDateFieldFor("deadline");
+        if (task.deadline && deadlineField) {
+            fields += ` ${this.TextParsing.formatTaskDate(deadlineField, task.deadline.date)}`;
+        }
+
+        // Add the duration in Dataview format
+        if (task.duration) {
+            fields += ` [${this.settings.dataviewDurationKey}::${DateProcessing.formatDuration(task.duration)}]`;
+        }
+
+        // Add labels back as tags, except the label added to every synced task
+        // and labels of checkbox statuses
+        if (this.settings.enableTagLabelSync) {
+            const syncLabel = this.settings.enableTodoistLabel
+                ? this.settings.todoistSyncLabel.trim().toLowerCase()
+                : null;
+            const statusLabels = this.settings.checkboxStatusMappings
+                .filter((mapping) => mapping.action === "label")
+                .map((mapping) => mapping.value.trim().toLowerCase());
+            task.labels
+                .filter(
+                    (label) =>
+                        label.toLowerCase() !== syncLabel &&
+                        !statusLabels.includes(label.toLowerCase()),
+                )
+                .map((label) => this.TextParsing.labelToTag(label))
+                .filter((tag) => this.TextParsing.isTagSynced(tag))
+                .forEach((tag) => {
+                    fields += ` #${tag}`;
+                });
+        }
+
+        return fields;
+    }
 }
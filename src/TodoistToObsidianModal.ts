@@ -2,7 +2,6 @@ import { Modal, App, Notice } from "obsidian";
 import TodoistContextBridgePlugin from "./main";
 import { Task } from "@doist/todoist-api-typescript";
 import { TodoistV2IDs } from "./TodoistV2IDs";
-import { fetchAllPages } from "./TodoistPaginationHelper";
 
 /**
  * Modal for syncing a task from Todoist to Obsidian
@@ -12,22 +11,28 @@ export class TodoistToObsidianModal extends Modal {
     private plugin: TodoistContextBridgePlugin;
     private onSubmit: (task: Task) => void;
     private todoistV2IDs: TodoistV2IDs;
+    private heading: string;
+    private submitText: string;
 
     constructor(
         app: App,
         plugin: TodoistContextBridgePlugin,
         onSubmit: (task: Task) => void,
         todoistV2IDs: TodoistV2IDs,
+        heading = "Sync Todoist task to Obsidian",
+        submitText = "Sync task",
     ) {
         super(app);
         this.plugin = plugin;
         this.onSubmit = onSubmit;
         this.todoistV2IDs = todoistV2IDs;
+        this.heading = heading;
+        this.submitText = submitText;
     }
 
     onOpen() {
         this.contentEl.createEl("h2", {
-            text: "Sync Todoist task to Obsidian",
+            text: this.heading,
         });
 
         // Container for the entire form
@@ -121,7 +126,7 @@ export class TodoistToObsidianModal extends Modal {
 
         // Sync button
         const syncButton = buttonContainer.createEl("button", {
-            text: "Sync task",
+            text: this.submitText,
             cls: "mod-cta",
         });
 
@@ -153,7 +158,7 @@ export class TodoistToObsidianModal extends Modal {
                         "Invalid Todoist task link or ID. Please check your input.",
                     );
                     syncButton.disabled = false;
-                    syncButton.setText("Sync task");
+                    syncButton.setText(this.submitText);
                     return;
                 }
 
@@ -173,9 +178,7 @@ export class TodoistToObsidianModal extends Modal {
 
                 let allTasks: Task[] = [];
                 try {
-                    allTasks = await fetchAllPages((args) =>
-                        api.getTasks(args),
-                    );
+                    allTasks = await this.plugin.fetchActiveTasks();
                 } catch (error) {
                     // Continue with direct ID attempts anyway
                 }
@@ -261,9 +264,7 @@ export class TodoistToObsidianModal extends Modal {
 
                     // Get all tasks and filter on the client side
                     if (words.length > 0) {
-                        const allTasks = await fetchAllPages((args) =>
-                            api.getTasks(args),
-                        );
+                        const allTasks = await this.plugin.fetchActiveTasks();
 
                         if (allTasks && allTasks.length > 0) {
                             // Filter tasks that contain any of our significant words
@@ -322,9 +323,7 @@ export class TodoistToObsidianModal extends Modal {
                     try {
                         // Fetch all tasks if we haven't done so already
 
-                        const allTasks = await fetchAllPages((args) =>
-                            api.getTasks(args),
-                        );
+                        const allTasks = await this.plugin.fetchActiveTasks();
 
                         // Try exact URL matching with the original input
                         const originalUrl = this.taskLinkInput.trim();
@@ -416,7 +415,7 @@ export class TodoistToObsidianModal extends Modal {
                         "Task not found. Please check if the task exists and you have access to it.",
                     );
                     syncButton.disabled = false;
-                    syncButton.setText("Sync task");
+                    syncButton.setText(this.submitText);
                     return;
                 }
 
@@ -429,7 +428,7 @@ export class TodoistToObsidianModal extends Modal {
                     "Error syncing task. Check the console for details.",
                 );
                 syncButton.disabled = false;
-                syncButton.setText("Sync task");
+                syncButton.setText(this.submitText);
             }
         });
     }
@@ -24,7 +24,7 @@ export class UIDProcessing {
 
     private async ensureUidInFrontmatter(
         file: TFile,
-        editor: Editor,
+        editor?: Editor,
     ): Promise<string | null> {
         // @ts-ignore
         const advancedUriPlugin = this.app.plugins?.getPlugin(
@@ -33,7 +33,7 @@ export class UIDProcessing {
         if (!advancedUriPlugin) return null;
 
         // Store current cursor position
-        const currentCursor = editor.getCursor();
+        const currentCursor = editor?.getCursor();
 
         const fileCache = this.app.metadataCache.getFileCache(file);
         const frontmatter = fileCache?.frontmatter;
@@ -58,7 +58,9 @@ export class UIDProcessing {
             );
 
             // Restore cursor position
-            editor.setCursor(currentCursor);
+            if (editor && currentCursor) {
+                editor.setCursor(currentCursor);
+            }
 
             return newUid;
         } catch (error) {
@@ -68,9 +70,14 @@ export class UIDProcessing {
         }
     }
 
+    /**
+     * Returns the note's UID, adding one to the frontmatter if missing
+     * @param file The note, which need not be open
+     * @param editor The note's editor, whose cursor is kept in place
+     */
     public async getOrCreateUid(
         file: TFile,
-        editor: Editor,
+        editor?: Editor,
     ): Promise<string | null> {
         return this.ensureUidInFrontmatter(file, editor);
     }
@@ -1,4 +1,4 @@
-import { App, Editor, Notice, MarkdownView } from "obsidian";
+import { App, Editor, Notice, MarkdownView, TFile } from "obsidian";
 import { UIDProcessing } from "./UIDProcessing";
 import { TodoistContextBridgeSettings } from "./Settings";
 import { TextParsing } from "./TextParsing";
@@ -27,6 +27,20 @@ export class URILinkProcessing {
         );
     }
 
+    /**
+     * Generates a block ID that is not in the given set, and adds it to the set.
+     * IDs generated within the same second get a numeric suffix.
+     */
+    generateUniqueBlockId(usedBlockIds: Set<string>): string {
+        const baseBlockId = this.generateBlockId();
+        let blockId = baseBlockId;
+        for (let suffix = 1; usedBlockIds.has(blockId); suffix++) {
+            blockId = `${baseBlockId}-${suffix}`;
+        }
+        usedBlockIds.add(blockId);
+        return blockId;
+    }
+
     getOrCreateBlockId(editor: Editor, line: number): string {
         // Store current cursor
         const currentCursor = editor.getCursor();
@@ -71,6 +85,20 @@ export class URILinkProcessing {
         const file = this.app.workspace.getActiveFile();
         if (!file) return "";
 
+        return this.generateAdvancedUriToBlockInFile(blockId, file, editor);
+    }
+
+    /**
+     * Builds an Advanced URI to a block in the given note, which need not be open
+     * @param blockId The block ID to link to
+     * @param file The note containing the block
+     * @param editor The note's editor, if open, so adding a UID keeps its cursor
+     */
+    async generateAdvancedUriToBlockInFile(
+        blockId: string,
+        file: TFile,
+        editor?: Editor,
+    ): Promise<string> {
         // @ts-ignore
         const advancedUriPlugin = this.app.plugins?.getPlugin(
             "obsidian-advanced-uri",
@@ -4,6 +4,8 @@ export const TODOIST_CONSTANTS = {
     APP_LINK_TEXT: "📱 View in Todoist app",
     COMBINED_LINK_TEXT: (websiteUrl: string, appUrl: string) =>
         `[🔗 View in Todoist website](${websiteUrl}) [📱 View in Todoist app](${appUrl})`,
+    // Appended to link sub-items whose Todoist task no longer exists
+    BROKEN_LINK_NOTE: "⚠️ Todoist task not found",
     // Link patterns for different formats
     WEBSITE_LINK_PATTERN:
         /\[🔗 View in Todoist website\]\(https:\/\/(?:app\.)?todoist\.com(?:\/app)?(?:\/task|\/t)\/([\w-]+)\)/,
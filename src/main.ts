@@ -1,9 +1,11 @@
-import { Editor, Notice, Plugin } from "obsidian";
+import { Editor, Notice, Plugin, TFolder, normalizePath } from "obsidian";
 import {
     TodoistApi,
     PersonalProject,
     WorkspaceProject,
+    Section,
     Task,
+    User,
 } from "@doist/todoist-api-typescript";
 import { DEFAULT_SETTINGS, TodoistContextBridgeSettings } from "./Settings";
 import { TodoistContextBridgeSettingTab } from "./SettingTab";
@@ -12,26 +14,47 @@ import { TodoistTaskSync } from "./TodoistTaskSync";
 import { URILinkProcessing } from "./URILinkProcessing";
 import { TextParsing } from "./TextParsing";
 import { DateProcessing } from "./DateProcessing"; // Import DateProcessing
+import { LinkConversion } from "./LinkConversion";
 import { TodoistToObsidianModal } from "./TodoistToObsidianModal"; // Import the new modal
 import { TodoistV2IDs } from "./TodoistV2IDs"; // Import the v2 ID helper
 import { obsidianFetch } from "./ObsidianFetchAdapter"; // Import custom fetch adapter
 import { fetchAllPages } from "./TodoistPaginationHelper";
+import { CompletionStatusSync } from "./CompletionStatusSync";
+import { BackgroundSyncScheduler } from "./BackgroundSyncScheduler";
+import { BulkTaskSync } from "./BulkTaskSync";
+import {
+    TodoistLinkChecker,
+    isTodoistNotFoundError,
+} from "./TodoistLinkChecker";
+import { TodoistLinkIndex } from "./TodoistLinkIndex";
+import { LINKED_TASKS_VIEW_TYPE, LinkedTasksView } from "./LinkedTasksView";
+import { TodoistSyncClient } from "./TodoistSyncClient";
+
+// Maximum number of task IDs requested in a single Todoist API call
+const TASK_BATCH_SIZE = 50;
 
 export default class TodoistContextBridgePlugin extends Plugin {
     settings: TodoistContextBridgeSettings;
     todoistApi: TodoistApi | null = null;
     projects: (PersonalProject | WorkspaceProject)[] = [];
+    linkIndex: TodoistLinkIndex;
+    syncClient: TodoistSyncClient;
 
     private UIDProcessing: UIDProcessing;
     private TodoistTaskSync: TodoistTaskSync;
     private URILinkProcessing: URILinkProcessing;
     private TodoistV2IDs: TodoistV2IDs;
+    private CompletionStatusSync: CompletionStatusSync;
+    private BackgroundSyncScheduler: BackgroundSyncScheduler;
+    private BulkTaskSync: BulkTaskSync;
+    private TodoistLinkChecker: TodoistLinkChecker;
 
     async onload() {
         await this.loadSettings();
 
         // Initialize DateProcessing with settings
         DateProcessing.initialize(this.settings);
+        LinkConversion.initialize(this.app, this.settings);
 
         // Add settings tab first, so it's always available
         this.addSettingTab(new TodoistContextBridgeSettingTab(this.app, this));
@@ -56,6 +79,61 @@ export default class TodoistContextBridgePlugin extends Plugin {
         if (this.settings.todoistAPIToken) {
             await this.initializeTodoistServices();
         }
+
+        // Keep the link index in step with files moved or deleted in the vault
+        this.registerEvent(
+            this.app.vault.on("rename", (file, oldPath) => {
+                this.linkIndex
+                    .handleRename(oldPath, file.path)
+                    .catch((error) =>
+                        console.error(
+                            `Failed to update Todoist links of ${oldPath}:`,
+                            error,
+                        ),
+                    );
+            }),
+        );
+        this.registerEvent(
+            this.app.vault.on("delete", (file) => {
+                this.linkIndex
+                    .handleDelete(file.path)
+                    .catch((error) =>
+                        console.error(
+                            `Failed to remove Todoist links of ${file.path}:`,
+                            error,
+                        ),
+                    );
+            }),
+        );
+
+        // Offer bulk sync of a folder's tasks in the file explorer menu
+        this.registerEvent(
+            this.app.workspace.on("file-menu", (menu, file) => {
+                if (!(file instanceof TFolder)) return;
+                menu.addItem((item) => {
+                    item.setTitle("Sync open tasks to Todoist")
+                        .setIcon("check-square")
+                        .onClick(async () => {
+                            if (!this.todoistApi || !this.BulkTaskSync) {
+                                new Notice(
+                                    "Please configure your Todoist API token in settings first",
+                                );
+                                return;
+                            }
+                            await this.BulkTaskSync.syncTasksInFolder(file);
+                        });
+                });
+            }),
+        );
+
+        // Start background reconciliation; it picks up the Todoist client on each run
+        this.BackgroundSyncScheduler = new BackgroundSyncScheduler(this);
+        this.BackgroundSyncScheduler.start();
+
+        this.registerView(
+            LINKED_TASKS_VIEW_TYPE,
+            (leaf) => new LinkedTasksView(leaf, this),
+        );
     }
 
     private addCommands() {
@@ -74,6 +152,35 @@ export default class TodoistContextBridgePlugin extends Plugin {
             },
         });
 
+        // Add commands to sync all unlinked open tasks in the selection or file at once
+        this.addCommand({
+            id: "sync-selected-tasks-to-todoist",
+            name: "Sync all open tasks in selection to Todoist",
+            editorCallback: async (editor: Editor) => {
+                if (!this.todoistApi || !this.BulkTaskSync) {
+                    new Notice(
+                        "Please configure your Todoist API token in settings first",
+                    );
+                    return;
+                }
+                await this.BulkTaskSync.syncTasksInEditor(editor, true);
+            },
+        });
+
+        this.addCommand({
+            id: "sync-file-tasks-to-todoist",
+            name: "Sync all open tasks in current file to Todoist",
+            editorCallback: async (editor: Editor) => {
+                if (!this.todoistApi || !this.BulkTaskSync) {
+                    new Notice(
+                        "Please configure your Todoist API token in settings first",
+                    );
+                    return;
+                }
+                await this.BulkTaskSync.syncTasksInEditor(editor, false);
+            },
+        });
+
         // Add new command for syncing task from Todoist to Obsidian
         this.addCommand({
             id: "sync-from-todoist",
@@ -166,18 +273,205 @@ export default class TodoistContextBridgePlugin extends Plugin {
                 );
             },
         });
+
+        // Add command to push edits of a synced task to Todoist
+        this.addCommand({
+            id: "update-linked-todoist-task",
+            name: "Update linked Todoist task",
+            editorCallback: async (editor: Editor) => {
+                if (!this.todoistApi || !this.TodoistTaskSync) {
+                    new Notice(
+                        "Please configure your Todoist API token in settings first",
+                    );
+                    return;
+                }
+                await this.TodoistTaskSync.updateLinkedTodoistTask(editor);
+            },
+        });
+
+        // Add command to pull later Todoist changes into the current task line
+        this.addCommand({
+            id: "refresh-task-from-todoist",
+            name: "Refresh task from Todoist",
+            editorCallback: async (editor: Editor) => {
+                if (!this.todoistApi || !this.TodoistTaskSync) {
+                    new Notice(
+                        "Please configure your Todoist API token in settings first",
+                    );
+                    return;
+                }
+                await this.TodoistTaskSync.refreshTaskFromTodoist(editor);
+            },
+        });
+
+        // Add command to sync completion status of the current task
+        this.addCommand({
+            id: "sync-completion-status",
+            name: "Sync completion status with Todoist",
+            editorCallback: async (editor: Editor) => {
+                if (!this.todoistApi || !this.CompletionStatusSync) {
+                    new Notice(
+                        "Please configure your Todoist API token in settings first",
+                    );
+                    return;
+                }
+                await this.CompletionStatusSync.syncCurrentTaskCompletionStatus(
+                    editor,
+                );
+            },
+        });
+
+        // Add command to sync completion status of all linked tasks in the current file
+        this.addCommand({
+            id: "sync-file-completion-status",
+            name: "Sync completion status of all linked tasks in current file",
+            editorCallback: async (editor: Editor) => {
+                if (!this.todoistApi || !this.CompletionStatusSync) {
+                    new Notice(
+                        "Please configure your Todoist API token in settings first",
+                    );
+                    return;
+                }
+                await this.CompletionStatusSync.syncFileCompletionStatus(
+                    editor,
+                );
+            },
+        });
+
+        // Add command to reconcile all linked tasks in the vault immediately
+        this.addCommand({
+            id: "run-background-sync",
+            name: "Sync all linked tasks in vault with Todoist now",
+            callback: async () => {
+                if (!this.todoistApi || !this.BackgroundSyncScheduler) {
+                    new Notice(
+                        "Please configure your Todoist API token in settings first",
+                    );
+                    return;
+                }
+                new Notice("Syncing linked tasks with Todoist...");
+                const result =
+                    await this.BackgroundSyncScheduler.reconcileVault();
+                if (!result) {
+                    new Notice("A sync is already in progress");
+                } else if (result.failed > 0) {
+                    new Notice(
+                        `Sync finished with ${result.failed} error(s). ${result.updated} of ${result.checked} task(s) updated.`,
+                    );
+                } else if (result.skipped > 0) {
+                    new Notice(
+                        `Sync finished. ${result.updated} of ${result.checked} task(s) updated, ${result.skipped} skipped because of conflicts. Use 'Update linked Todoist task' or 'Refresh task from Todoist' to resolve them.`,
+                    );
+                } else {
+                    new Notice(
+                        `Sync finished. ${result.updated} of ${result.checked} task(s) updated.`,
+                    );
+                }
+            },
+        });
+
+        // Add command to open the overview of all linked tasks
+        this.addCommand({
+            id: "open-linked-tasks-view",
+            name: "Open linked Todoist tasks overview",
+            callback: async () => {
+                await this.activateLinkedTasksView();
+            },
+        });
+
+        // Add commands to find links to Todoist tasks that were deleted
+        this.addCommand({
+            id: "check-todoist-links-file",
+            name: "Check Todoist links in current file",
+            callback: async () => {
+                if (!this.todoistApi || !this.TodoistLinkChecker) {
+                    new Notice(
+                        "Please configure your Todoist API token in settings first",
+                    );
+                    return;
+                }
+                const file = this.app.workspace.getActiveFile();
+                if (!file) {
+                    new Notice("No active file found");
+                    return;
+                }
+                await this.TodoistLinkChecker.checkFiles([file]);
+            },
+        });
+
+        this.addCommand({
+            id: "check-todoist-links-vault",
+            name: "Check Todoist links in vault",
+            callback: async () => {
+                if (!this.todoistApi || !this.TodoistLinkChecker) {
+                    new Notice(
+                        "Please configure your Todoist API token in settings first",
+                    );
+                    return;
+                }
+                await this.TodoistLinkChecker.checkFiles(
+                    this.app.vault.getMarkdownFiles(),
+                );
+            },
+        });
+
+        // Add command to pause or resume background sync
+        this.addCommand({
+            id: "toggle-background-sync",
+            name: "Pause or resume background sync",
+            callback: async () => {
+                if (!this.BackgroundSyncScheduler) return;
+                await this.BackgroundSyncScheduler.togglePause();
+            },
+        });
+    }
+
+    /**
+     * Reveals the linked tasks overview, opening it in the right sidebar if needed
+     */
+    async activateLinkedTasksView() {
+        const { workspace } = this.app;
+        let leaf = workspace.getLeavesOfType(LINKED_TASKS_VIEW_TYPE)[0];
+        if (!leaf) {
+            const rightLeaf = workspace.getRightLeaf(false);
+            if (!rightLeaf) return;
+            await rightLeaf.setViewState({
+                type: LINKED_TASKS_VIEW_TYPE,
+                active: true,
+            });
+            leaf = rightLeaf;
+        }
+        workspace.revealLeaf(leaf);
     }
 
     async loadSettings() {
-        this.settings = Object.assign(
-            {},
-            DEFAULT_SETTINGS,
-            await this.loadData(),
+        // The link index is stored alongside the settings in the plugin data. The sync
+        // cache has its own file; earlier versions stored it in the plugin data too.
+        const { linkIndex, syncCache, ...settings } =
+            (await this.loadData()) ?? {};
+        this.settings = Object.assign({}, DEFAULT_SETTINGS, settings);
+        this.linkIndex = new TodoistLinkIndex(linkIndex, () =>
+            this.savePluginData(),
         );
+        this.syncClient = new TodoistSyncClient({
+            load: async () => {
+                const { adapter } = this.app.vault;
+                const path = this.getSyncCachePath();
+                return (await adapter.exists(path))
+                    ? JSON.parse(await adapter.read(path))
+                    : null;
+            },
+            save: (cache) =>
+                this.app.vault.adapter.write(
+                    this.getSyncCachePath(),
+                    JSON.stringify(cache),
+                ),
+        });
+        await this.syncClient.load();
     }
 
     async saveSettings() {
-        await this.saveData(this.settings);
+        await this.savePluginData();
         // Reinitialize TodoistTaskSync to pick up new settings
         if (this.todoistApi) {
             this.TodoistTaskSync = new TodoistTaskSync(
@@ -190,16 +484,160 @@ export default class TodoistContextBridgePlugin extends Plugin {
                 this,
                 this.TodoistV2IDs,
             );
+            this.CompletionStatusSync = new CompletionStatusSync(
+                this.settings,
+                this.todoistApi,
+                this.TodoistTaskSync,
+            );
+            this.BulkTaskSync = new BulkTaskSync(
+                this.app,
+                this.settings,
+                this,
+                this.TodoistTaskSync,
+                this.URILinkProcessing,
+                this.TodoistV2IDs,
+            );
+            this.TodoistLinkChecker = new TodoistLinkChecker(
+                this.app,
+                this.settings,
+                this,
+                this.TodoistTaskSync,
+                this.URILinkProcessing,
+                this.TodoistV2IDs,
+            );
         }
+        // Reschedule background sync in case its settings changed
+        this.BackgroundSyncScheduler?.restart();
+    }
+
+    private async savePluginData() {
+        await this.saveData({
+            ...this.settings,
+            linkIndex: this.linkIndex.toJSON(),
+        });
+    }
+
+    private getSyncCachePath(): string {
+        return normalizePath(`${this.manifest.dir}/sync-cache.json`);
+    }
+
+    /**
+     * Returns Todoist projects from the incremental sync cache, falling back to the REST API
+     */
+    async fetchProjects(): Promise<(PersonalProject | WorkspaceProject)[]> {
+        if (await this.syncClient.sync()) {
+            return this.syncClient.getProjects();
+        }
+        const api = this.todoistApi;
+        return api ? fetchAllPages((args) => api.getProjects(args)) : [];
+    }
+
+    /**
+     * Returns the sections of a Todoist project from the incremental sync cache, falling back to the REST API
+     */
+    async fetchSections(projectId: string): Promise<Section[]> {
+        if (await this.syncClient.sync()) {
+            return this.syncClient.getSections(projectId);
+        }
+        const api = this.todoistApi;
+        return api
+            ? fetchAllPages((args) => api.getSections(args), { projectId })
+            : [];
+    }
+
+    /**
+     * Returns the collaborators of a shared Todoist project
+     */
+    async fetchCollaborators(projectId: string): Promise<User[]> {
+        const api = this.todoistApi;
+        return api
+            ? fetchAllPages((args) =>
+                  api.getProjectCollaborators(projectId, args),
+              )
+            : [];
+    }
+
+    /**
+     * Returns open Todoist tasks from the incremental sync cache, falling back to the REST API
+     */
+    async fetchActiveTasks(): Promise<Task[]> {
+        if (await this.syncClient.sync()) {
+            return this.syncClient.getTasks();
+        }
+        const api = this.todoistApi;
+        return api ? fetchAllPages((args) => api.getTasks(args)) : [];
+    }
+
+    /**
+     * Looks up Todoist tasks by the IDs used in the notes, from the incremental sync cache
+     * first, then in batches from the REST API
+     * @param taskIds The task IDs to look up
+     * @param notFound Collects the IDs Todoist reports as not found
+     * @returns The tasks found, keyed by ID
+     */
+    async fetchTasksById(
+        taskIds: string[],
+        notFound?: Set<string>,
+    ): Promise<Map<string, Task>> {
+        const tasks = new Map<string, Task>();
+        const api = this.todoistApi;
+        if (!api) return tasks;
+
+        const synced = await this.syncClient.sync();
+        if (synced) {
+            for (const taskId of taskIds) {
+                const task = this.syncClient.getTask(taskId);
+                if (task) {
+                    tasks.set(taskId, task);
+                }
+            }
+        }
+
+        const uncachedIds = taskIds.filter((taskId) => !tasks.has(taskId));
+        for (let i = 0; i < uncachedIds.length; i += TASK_BATCH_SIZE) {
+            const batch = uncachedIds.slice(i, i + TASK_BATCH_SIZE);
+            const activeTasks = await fetchAllPages(
+                (args) => api.getTasks(args),
+                { ids: batch },
+            );
+            activeTasks.forEach((task) => tasks.set(task.id, task));
+        }
+
+        // Completed tasks and old numeric IDs are not returned by the batch lookup.
+        // The results are cached, so each of them is only looked up once.
+        const lookedUpTasks: Task[] = [];
+        const missingIds: string[] = [];
+        for (const taskId of uncachedIds) {
+            if (tasks.has(taskId)) continue;
+            if (this.syncClient.isMissing(taskId)) {
+                notFound?.add(taskId);
+                continue;
+            }
+
+            try {
+                const task = await api.getTask(taskId);
+                tasks.set(taskId, task);
+                lookedUpTasks.push(task);
+            } catch (error) {
+                // The task was deleted or is no longer accessible
+                console.debug(`Todoist task ${taskId} not found:`, error);
+                if (isTodoistNotFoundError(error)) {
+                    notFound?.add(taskId);
+                    missingIds.push(taskId);
+                }
+            }
+        }
+        if (synced) {
+            await this.syncClient.rememberTasks(lookedUpTasks, missingIds);
+        }
+
+        return tasks;
     }
 
     async loadProjects() {
         try {
-            const api = this.todoistApi;
-            if (api) {
-                this.projects = await fetchAllPages((args) =>
-                    api.getProjects(args),
-                );
+            if (this.todoistApi) {
+                this.projects = await this.fetchProjects();
             }
         } catch (error) {
             console.error("Failed to load Todoist projects:", error);
@@ -214,11 +652,13 @@ export default class TodoistContextBridgePlugin extends Plugin {
             this.todoistApi = new TodoistApi(this.settings.todoistAPIToken, {
                 customFetch: obsidianFetch,
             });
-            // Set API instance on v2 ID helper
+            // Set API instance on v2 ID helper and sync client
             this.TodoistV2IDs.setApi(this.todoistApi);
+            this.syncClient.setApi(this.todoistApi);
         } else {
             this.todoistApi = null;
             this.TodoistV2IDs.setApi(null);
+            this.syncClient.setApi(null);
         }
     }
 
@@ -239,6 +679,27 @@ export default class TodoistContextBridgePlugin extends Plugin {
                 this,
                 this.TodoistV2IDs,
             );
+            this.CompletionStatusSync = new CompletionStatusSync(
+                this.settings,
+                this.todoistApi,
+                this.TodoistTaskSync,
+            );
+            this.BulkTaskSync = new BulkTaskSync(
+                this.app,
+                this.settings,
+                this,
+                this.TodoistTaskSync,
+                this.URILinkProcessing,
+                this.TodoistV2IDs,
+            );
+            this.TodoistLinkChecker = new TodoistLinkChecker(
+                this.app,
+                this.settings,
+                this,
+                this.TodoistTaskSync,
+                this.URILinkProcessing,
+                this.TodoistV2IDs,
+            );
 
             await this.loadProjects();
             return true;
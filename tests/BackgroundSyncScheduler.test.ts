@@ -0,0 +1,263 @@
+import { TFile } from "obsidian";
+import { Notice } from "./__mocks__/obsidian";
+import { Task } from "@doist/todoist-api-typescript";
+import { BackgroundSyncScheduler } from "../src/BackgroundSyncScheduler";
+import {
+    DEFAULT_SETTINGS,
+    TodoistContextBridgeSettings,
+} from "../src/Settings";
+import { DateProcessing } from "../src/DateProcessing";
+import { TodoistLinkIndex } from "../src/TodoistLinkIndex";
+import TodoistContextBridgePlugin from "../src/main";
+
+const LINK_LINE =
+    "    - [🔗 View in Todoist website](https://app.todoist.com/app/task/123)";
+
+function createTask(fields: Partial<Task> = {}): Task {
+    return {
+        id: "123",
+        content: "Water plants",
+        description: "",
+        projectId: "1",
+        sectionId: null,
+        parentId: null,
+        labels: [],
+        priority: 1,
+        checked: false,
+        due: null,
+        duration: null,
+        updatedAt: null,
+        ...fields,
+    } as unknown as Task;
+}
+
+/**
+ * A Todoist API that moves recurring tasks to their next weekly occurrence when closed
+ */
+class FakeTodoistApi {
+    constructor(public task: Task) {}
+
+    closeTask = jest.fn(async () => {
+        const due = this.task.due;
+        this.task = due?.isRecurring
+            ? createTask({
+                  ...this.task,
+                  due: {
+                      ...due,
+                      date: window
+                          .moment(due.date)
+                          .add(1, "weeks")
+                          .format("YYYY-MM-DD"),
+                  },
+              })
+            : createTask({ ...this.task, checked: true });
+        return true;
+    });
+
+    reopenTask = jest.fn(async () => true);
+
+    updateTask = jest.fn(async (id: string, args: Partial<Task>) => {
+        this.task = createTask({ ...this.task, ...args });
+        return this.task;
+    });
+
+    getTask = jest.fn(async () => this.task);
+
+    deleteTask = jest.fn(async () => true);
+}
+
+function createScheduler(
+    api: FakeTodoistApi,
+    content: string,
+    overrides: Partial<TodoistContextBridgeSettings> = {},
+) {
+    const settings = {
+        ...DEFAULT_SETTINGS,
+        enableBackgroundSync: true,
+        ...overrides,
+    };
+    DateProcessing.initialize(settings);
+
+    const file = Object.assign(new TFile(), {
+        path: "Garden.md",
+        name: "Garden.md",
+        basename: "Garden",
+    });
+    const vault = {
+        content,
+        getMarkdownFiles: () => [file],
+        cachedRead: async () => vault.content,
+        process: async (_file: TFile, fn: (data: string) => string) => {
+            vault.content = fn(vault.content);
+            return vault.content;
+        },
+    };
+    const plugin = {
+        settings,
+        todoistApi: api,
+        app: {
+            vault,
+            metadataCache: { getFileCache: () => null },
+            workspace: {},
+        },
+        linkIndex: new TodoistLinkIndex([], async () => undefined),
+        fetchTasksById: async (ids: string[]) =>
+            new Map(
+                ids
+                    .filter((id) => id === api.task.id)
+                    .map((id) => [id, api.task]),
+            ),
+    };
+
+    return {
+        vault,
+        linkIndex: plugin.linkIndex,
+        scheduler: new BackgroundSyncScheduler(
+            plugin as unknown as TodoistContextBridgePlugin,
+        ),
+    };
+}
+
+describe("BackgroundSyncScheduler.reconcileVault", () => {
+    it("closes a recurring task once and follows its next occurrence", async () => {
+        const api = new FakeTodoistApi(
+            createTask({
+                due: {
+                    date: "2025-01-06",
+                    isRecurring: true,
+                    string: "every monday",
+                } as Task["due"],
+            }),
+        );
+        const { vault, scheduler } = createScheduler(
+            api,
+            `- [x] Water plants [due::2025-01-06]\n${LINK_LINE}`,
+        );
+
+        const first = await scheduler.reconcileVault();
+        const second = await scheduler.reconcileVault();
+
+        expect(api.closeTask).toHaveBeenCalledTimes(1);
+        expect(api.task.due?.date).toBe("2025-01-13");
+        expect(vault.content).toBe(
+            `- [ ] Water plants [due::2025-01-13]\n${LINK_LINE}`,
+        );
+        expect(first).toMatchObject({ checked: 1, updated: 1, failed: 0 });
+        expect(second).toMatchObject({ checked: 1, updated: 0, failed: 0 });
+    });
+
+    it("keeps a completed one-off task closed", async () => {
+        const api = new FakeTodoistApi(createTask());
+        const { vault, scheduler } = createScheduler(
+            api,
+            `- [x] Water plants\n${LINK_LINE}`,
+        );
+
+        await scheduler.reconcileVault();
+        await scheduler.reconcileVault();
+
+        expect(api.closeTask).toHaveBeenCalledTimes(1);
+        expect(vault.content).toBe(`- [x] Water plants\n${LINK_LINE}`);
+    });
+
+    it("leaves tasks with a status mapped to deletion to the manual command", async () => {
+        const api = new FakeTodoistApi(createTask());
+        const content = `- [-] Water plants\n${LINK_LINE}`;
+        const { vault, scheduler } = createScheduler(api, content, {
+            checkboxStatusMappings: [
+                { symbol: "-", action: "delete", value: "" },
+            ],
+        });
+
+        const result = await scheduler.reconcileVault();
+
+        expect(api.deleteTask).not.toHaveBeenCalled();
+        expect(api.closeTask).not.toHaveBeenCalled();
+        expect(vault.content).toBe(content);
+        expect(result).toMatchObject({ checked: 0, updated: 0, failed: 0 });
+    });
+
+    describe("links without a synced snapshot", () => {
+        const content = `- [ ] Water the plants\n${LINK_LINE}`;
+
+        it("skips fields that differ and records the agreed ones", async () => {
+            const api = new FakeTodoistApi(createTask());
+            const { vault, scheduler, linkIndex } = createScheduler(
+                api,
+                content,
+            );
+
+            const result = await scheduler.reconcileVault();
+
+            expect(result).toMatchObject({ checked: 1, skipped: 1 });
+            expect(api.updateTask).not.toHaveBeenCalled();
+            expect(vault.content).toBe(content);
+            expect(linkIndex.findByTaskId("123")?.snapshot).toEqual({
+                dueDate: null,
+                priority: 4,
+                checked: false,
+                status: "",
+            });
+        });
+
+        it.each([
+            ["obsidian", "Water the plants", "Water the plants"],
+            ["todoist", "Water plants", "Water plants"],
+        ] as const)(
+            "with the %s policy takes the title from that side",
+            async (policy, title, line) => {
+                const api = new FakeTodoistApi(createTask());
+                const { vault, scheduler } = createScheduler(api, content, {
+                    conflictResolutionPolicy: policy,
+                });
+
+                await scheduler.reconcileVault();
+
+                expect(api.task.content).toBe(title);
+                expect(vault.content).toBe(`- [ ] ${line}\n${LINK_LINE}`);
+            },
+        );
+    });
+
+    it("resets a due date edited on a recurring task and reports it", async () => {
+        const api = new FakeTodoistApi(
+            createTask({
+                due: {
+                    date: "2025-01-06",
+                    isRecurring: true,
+                    string: "every monday",
+                } as Task["due"],
+            }),
+        );
+        const { vault, scheduler, linkIndex } = createScheduler(
+            api,
+            `- [ ] Water plants [due::2025-01-08]\n${LINK_LINE}`,
+        );
+        await linkIndex.upsert({
+            taskId: "123",
+            filePath: "Garden.md",
+            noteUid: null,
+            blockId: null,
+            projectId: "1",
+            snapshot: {
+                content: "Water plants",
+                dueDate: "2025-01-06",
+                priority: 4,
+                checked: false,
+                status: "",
+            },
+        });
+        jest.spyOn(console, "warn").mockImplementation(() => undefined);
+        Notice.messages = [];
+
+        const result = await scheduler.reconcileVault();
+        await scheduler.reconcileVault();
+
+        expect(api.updateTask).not.toHaveBeenCalled();
+        expect(vault.content).toBe(
+            `- [ ] Water plants [due::2025-01-06]\n${LINK_LINE}`,
+        );
+        expect(result?.resetDueDates).toEqual(["Water plants"]);
+        expect(Notice.messages).toHaveLength(1);
+    });
+});
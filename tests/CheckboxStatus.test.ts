@@ -0,0 +1,253 @@
+import { Task, TodoistApi } from "@doist/todoist-api-typescript";
+import { CheckboxStatusSync, getTodoistStatus } from "../src/CheckboxStatus";
+import { CheckboxStatusMapping, DEFAULT_SETTINGS } from "../src/Settings";
+import { TextParsing } from "../src/TextParsing";
+import { DateProcessing } from "../src/DateProcessing";
+import { createTodoistSnapshot } from "../src/TaskConflictResolver";
+import TodoistContextBridgePlugin from "../src/main";
+
+const MAPPINGS: CheckboxStatusMapping[] = [
+    { symbol: "/", action: "label", value: "In-Progress" },
+    { symbol: "?", action: "project", value: "someday" },
+    { symbol: "-", action: "close", value: "" },
+    { symbol: "!", action: "delete", value: "" },
+];
+
+function createTask(fields: Partial<Task> = {}): Task {
+    return {
+        id: "123",
+        content: "Water plants",
+        description: "",
+        projectId: "1",
+        sectionId: null,
+        parentId: null,
+        labels: [],
+        priority: 1,
+        checked: false,
+        due: null,
+        duration: null,
+        updatedAt: null,
+        ...fields,
+    } as unknown as Task;
+}
+
+class FakeTodoistApi {
+    constructor(public task: Task) {}
+
+    updateTask = jest.fn(async (id: string, args: Partial<Task>) => {
+        this.task = createTask({ ...this.task, ...args });
+        return this.task;
+    });
+
+    moveTask = jest.fn(async (id: string, args: { projectId: string }) => {
+        this.task = createTask({ ...this.task, projectId: args.projectId });
+        return this.task;
+    });
+}
+
+function createStatusSync(todoistDefaultProject = "") {
+    const plugin = {
+        settings: {
+            ...DEFAULT_SETTINGS,
+            checkboxStatusMappings: MAPPINGS,
+            todoistDefaultProject,
+        },
+        fetchProjects: jest.fn(async () => [
+            { id: "1", name: "Garden", inboxProject: false },
+            { id: "inbox", name: "Inbox", inboxProject: true },
+        ]),
+    };
+    return {
+        plugin,
+        sync: new CheckboxStatusSync(
+            plugin as unknown as TodoistContextBridgePlugin,
+        ),
+    };
+}
+
+describe("getTodoistStatus", () => {
+    it.each([
+        [{ labels: ["in-progress"] }, "/"],
+        [{ labels: ["Errands", "IN-PROGRESS"] }, "/"],
+        [{ projectId: "someday" }, "?"],
+        [{ labels: ["in-progress"], projectId: "someday" }, "/"],
+        [{ labels: ["Errands"] }, ""],
+        [{}, ""],
+    ])("reads %p as %p", (fields, expected) => {
+        expect(getTodoistStatus(createTask(fields), MAPPINGS)).toBe(expected);
+    });
+
+    it("ignores project mappings without a project", () => {
+        expect(
+            getTodoistStatus(createTask({ projectId: "" }), [
+                { symbol: "?", action: "project", value: "" },
+            ]),
+        ).toBe("");
+    });
+
+    it("is part of the Todoist snapshot", () => {
+        expect(
+            createTodoistSnapshot(
+                createTask({ labels: ["In-Progress"] }),
+                MAPPINGS,
+            ).status,
+        ).toBe("/");
+    });
+});
+
+describe("CheckboxStatusSync.applyToTodoist", () => {
+    it("adds the label of a status and keeps the other labels", async () => {
+        const api = new FakeTodoistApi(createTask({ labels: ["Errands"] }));
+        const { sync } = createStatusSync();
+
+        const task = await sync.applyToTodoist(
+            api as unknown as TodoistApi,
+            api.task,
+            "/",
+        );
+
+        expect(task.labels).toEqual(["Errands", "In-Progress"]);
+        expect(api.moveTask).not.toHaveBeenCalled();
+    });
+
+    it("removes the status label when the task is open again", async () => {
+        const api = new FakeTodoistApi(
+            createTask({ labels: ["in-progress", "Errands"] }),
+        );
+        const { sync } = createStatusSync();
+
+        const task = await sync.applyToTodoist(
+            api as unknown as TodoistApi,
+            api.task,
+            "",
+        );
+
+        expect(task.labels).toEqual(["Errands"]);
+    });
+
+    it("moves the task to the project of a status and swaps the labels", async () => {
+        const api = new FakeTodoistApi(createTask({ labels: ["In-Progress"] }));
+        const { sync } = createStatusSync();
+
+        const task = await sync.applyToTodoist(
+            api as unknown as TodoistApi,
+            api.task,
+            "?",
+        );
+
+        expect(task).toMatchObject({ labels: [], projectId: "someday" });
+    });
+
+    it.each([
+        ["", "inbox"],
+        ["1", "1"],
+    ])(
+        "moves a task leaving a status project to the default project %p",
+        async (defaultProject, expected) => {
+            const api = new FakeTodoistApi(
+                createTask({ projectId: "someday" }),
+            );
+            const { sync } = createStatusSync(defaultProject);
+
+            const task = await sync.applyToTodoist(
+                api as unknown as TodoistApi,
+                api.task,
+                "/",
+            );
+
+            expect(task).toMatchObject({
+                labels: ["In-Progress"],
+                projectId: expected,
+            });
+        },
+    );
+
+    it("changes nothing when the task already has the status", async () => {
+        const api = new FakeTodoistApi(createTask({ labels: ["In-Progress"] }));
+        const { sync } = createStatusSync();
+
+        const task = await sync.applyToTodoist(
+            api as unknown as TodoistApi,
+            api.task,
+            "/",
+        );
+
+        expect(task).toBe(api.task);
+        expect(api.updateTask).not.toHaveBeenCalled();
+        expect(api.moveTask).not.toHaveBeenCalled();
+    });
+});
+
+describe("TextParsing checkbox statuses", () => {
+    let textParsing: TextParsing;
+
+    beforeEach(() => {
+        const settings = {
+            ...DEFAULT_SETTINGS,
+            checkboxStatusMappings: MAPPINGS,
+        };
+        DateProcessing.initialize(settings);
+        textParsing = new TextParsing(settings);
+    });
+
+    it.each([
+        ["- [ ] Task", "open"],
+        ["- [x] Task", "completed"],
+        ["* [x] Task", "completed"],
+        ["- [/] Task", "open"],
+        ["\t> - [?] Task", "open"],
+        ["- [-] Task", "completed"],
+        ["- [!] Task", "other"],
+        ["- [>] Task", "other"],
+        ["- Task", "other"],
+    ] as const)("classifies %p as %s", (line, expected) => {
+        expect(textParsing.getTaskStatus(line)).toBe(expected);
+    });
+
+    it.each([
+        ["- [/] Task", "label"],
+        ["> - [?] Task", "project"],
+        ["- [!] Task", "delete"],
+        ["- [ ] Task", null],
+        ["- [x] Task", null],
+        ["- [>] Task", null],
+    ])("finds the mapping of %p", (line, action) => {
+        expect(textParsing.getStatusMapping(line)?.action ?? null).toBe(action);
+    });
+
+    it("treats mapped statuses as task lines", () => {
+        expect(textParsing.isTaskLine("- [!] Task")).toBe(true);
+        expect(textParsing.isTaskLine("- [>] Task")).toBe(false);
+    });
+
+    it.each([
+        ["- [ ] Task ^abc", "/", "- [/] Task ^abc"],
+        ["- [/] Task", "?", "- [?] Task"],
+        ["\t- [?] Task", "", "\t- [ ] Task"],
+        ["- [x] Task", "/", "- [x] Task"],
+        ["- [-] Task", "/", "- [-] Task"],
+    ])("sets the status of %p to %p", (line, status, expected) => {
+        expect(textParsing.setOpenTaskStatus(line, status)).toBe(expected);
+        expect(textParsing.applyTaskFields(line, { status })).toBe(expected);
+    });
+
+    it("syncs label statuses as a label and project statuses by project", () => {
+        const inProgress = textParsing.extractTaskDetails(
+            "- [/] Water plants #garden",
+            false,
+        );
+        expect(inProgress.status).toBe("/");
+        expect(inProgress.labels).toContain("In-Progress");
+
+        const someday = textParsing.extractTaskDetails(
+            "- [?] Water plants",
+            false,
+        );
+        expect(someday.status).toBe("?");
+        expect(someday.labels).toEqual([]);
+
+        expect(
+            textParsing.extractTaskDetails("- [-] Water plants", false).status,
+        ).toBe("");
+    });
+});
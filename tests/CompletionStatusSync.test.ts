@@ -0,0 +1,162 @@
+import { Editor } from "obsidian";
+import { Task, TodoistApi } from "@doist/todoist-api-typescript";
+import {
+    CompletionStatusSync,
+    getNextOccurrenceFields,
+    resolveCompletionAction,
+} from "../src/CompletionStatusSync";
+import { DEFAULT_SETTINGS } from "../src/Settings";
+import { TodoistTaskSync } from "../src/TodoistTaskSync";
+import { DateProcessing } from "../src/DateProcessing";
+
+function createTask(fields: Partial<Task> = {}): Task {
+    return {
+        id: "123",
+        content: "Water plants",
+        description: "",
+        projectId: "1",
+        sectionId: null,
+        parentId: null,
+        labels: [],
+        priority: 1,
+        checked: false,
+        due: null,
+        duration: null,
+        updatedAt: null,
+        ...fields,
+    } as unknown as Task;
+}
+
+function createEditor(lines: string[]) {
+    return {
+        lines,
+        getLine: (line: number) => lines[line],
+        setLine: (line: number, text: string) => {
+            lines[line] = text;
+        },
+        lineCount: () => lines.length,
+        getCursor: () => ({ line: 0, ch: 0 }),
+        setCursor: () => undefined,
+    };
+}
+
+/**
+ * A Todoist API that moves recurring tasks to their next weekly occurrence when closed
+ */
+class FakeTodoistApi {
+    constructor(public task: Task) {}
+
+    closeTask = jest.fn(async () => {
+        const due = this.task.due;
+        this.task = due?.isRecurring
+            ? createTask({
+                  ...this.task,
+                  due: {
+                      ...due,
+                      date: window
+                          .moment(due.date)
+                          .add(1, "weeks")
+                          .format("YYYY-MM-DD"),
+                  },
+              })
+            : createTask({ ...this.task, checked: true });
+        return true;
+    });
+
+    reopenTask = jest.fn(async () => true);
+
+    getTask = jest.fn(async () => this.task);
+}
+
+function createSync(api: FakeTodoistApi) {
+    const settings = { ...DEFAULT_SETTINGS };
+    DateProcessing.initialize(settings);
+    const taskSync = {
+        getTodoistTaskId: () => api.task.id,
+    } as unknown as TodoistTaskSync;
+    return new CompletionStatusSync(
+        settings,
+        api as unknown as TodoistApi,
+        taskSync,
+    );
+}
+
+describe("resolveCompletionAction", () => {
+    it.each([
+        ["obsidian", true, false, "close-todoist"],
+        ["obsidian", false, true, "reopen-todoist"],
+        ["todoist", true, false, "reopen-obsidian"],
+        ["todoist", false, true, "complete-obsidian"],
+        ["completed", true, false, "close-todoist"],
+        ["completed", false, true, "complete-obsidian"],
+        ["completed", true, true, null],
+    ] as const)(
+        "with %s as source of truth, obsidian=%s todoist=%s -> %s",
+        (source, obsidianCompleted, todoistCompleted, expected) => {
+            expect(
+                resolveCompletionAction(
+                    source,
+                    obsidianCompleted,
+                    todoistCompleted,
+                ),
+            ).toBe(expected);
+        },
+    );
+});
+
+describe("getNextOccurrenceFields", () => {
+    it("returns nothing for a completed task", () => {
+        expect(getNextOccurrenceFields(createTask({ checked: true }))).toBe(
+            null,
+        );
+    });
+
+    it("reopens a recurring task at its next due date", () => {
+        const task = createTask({
+            due: {
+                date: "2025-01-13",
+                isRecurring: true,
+                string: "every monday",
+            } as Task["due"],
+        });
+        expect(getNextOccurrenceFields(task)).toEqual({
+            checked: false,
+            dueDate: "2025-01-13",
+        });
+    });
+});
+
+describe("CompletionStatusSync.syncFileCompletionStatus", () => {
+    it("closes a completed one-off task once", async () => {
+        const api = new FakeTodoistApi(createTask());
+        const editor = createEditor(["- [x] Water plants"]);
+        const sync = createSync(api);
+
+        await sync.syncFileCompletionStatus(editor as unknown as Editor);
+        await sync.syncFileCompletionStatus(editor as unknown as Editor);
+
+        expect(api.closeTask).toHaveBeenCalledTimes(1);
+        expect(editor.lines[0]).toBe("- [x] Water plants");
+    });
+
+    it("closes a recurring task only once across repeated syncs", async () => {
+        const api = new FakeTodoistApi(
+            createTask({
+                due: {
+                    date: "2025-01-06",
+                    isRecurring: true,
+                    string: "every monday",
+                } as Task["due"],
+            }),
+        );
+        const editor = createEditor(["- [x] Water plants [due::2025-01-06]"]);
+        const sync = createSync(api);
+
+        await sync.syncFileCompletionStatus(editor as unknown as Editor);
+        await sync.syncFileCompletionStatus(editor as unknown as Editor);
+
+        expect(api.closeTask).toHaveBeenCalledTimes(1);
+        expect(api.task.due?.date).toBe("2025-01-13");
+        expect(editor.lines[0]).toBe("- [ ] Water plants [due::2025-01-13]");
+    });
+});
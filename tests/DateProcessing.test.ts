@@ -0,0 +1,387 @@
+import { DateProcessing } from "../src/DateProcessing";
+import { DEFAULT_SETTINGS } from "../src/Settings";
+
+// Friday, 31 January 2025, in the UTC test time zone
+const NOW = "2025-01-31T10:00:00Z";
+
+beforeEach(() => {
+    DateProcessing.initialize({ ...DEFAULT_SETTINGS });
+    jest.useFakeTimers({ now: new Date(NOW) });
+});
+
+afterEach(() => {
+    jest.useRealTimers();
+});
+
+describe("DateProcessing.processRelativeDate", () => {
+    it.each([
+        // Days
+        ["0d", "2025-01-31"],
+        ["1d", "2025-02-01"],
+        ["+1D", "2025-02-01"],
+        ["+ 2 d", "2025-02-02"],
+        ["-1d", "2025-01-30"],
+        // Weeks
+        ["+1w", "2025-02-07"],
+        ["-2w", "2025-01-17"],
+        // Months end on the last day of shorter months
+        ["+1m", "2025-02-28"],
+        ["+13m", "2026-02-28"],
+        ["-1m", "2024-12-31"],
+        ["+2m", "2025-03-31"],
+        // Years
+        ["+1y", "2026-01-31"],
+        ["-1y", "2024-01-31"],
+        // Business days skip the weekend in both directions
+        ["0b", "2025-01-31"],
+        ["+1b", "2025-02-03"],
+        ["+3b", "2025-02-05"],
+        ["+5b", "2025-02-07"],
+        ["-1b", "2025-01-30"],
+        ["-5b", "2025-01-24"],
+    ])("resolves %s to %s", (relative, expected) => {
+        expect(DateProcessing.processRelativeDate(relative)).toBe(expected);
+    });
+
+    it.each([
+        // Days are counted as business days
+        ["+1d", "2025-02-03"],
+        ["-1d", "2025-01-30"],
+        // Later dates on a weekend move to the next Monday
+        ["+1y", "2026-02-02"],
+        ["+1w", "2025-02-07"],
+        ["+1m", "2025-02-28"],
+        // Earlier dates are left as they are
+        ["-1y", "2024-01-31"],
+    ])("resolves %s to %s when skipping weekends", (relative, expected) => {
+        expect(DateProcessing.processRelativeDate(relative, true)).toBe(
+            expected,
+        );
+    });
+
+    it("counts business days from a weekend", () => {
+        jest.setSystemTime(new Date("2025-02-01T10:00:00Z"));
+        expect(DateProcessing.processRelativeDate("0b")).toBe("2025-02-01");
+        expect(DateProcessing.processRelativeDate("+1b")).toBe("2025-02-03");
+        expect(DateProcessing.processRelativeDate("-1b")).toBe("2025-01-31");
+    });
+
+    it("keeps the last day of February in leap years", () => {
+        jest.setSystemTime(new Date("2024-02-29T10:00:00Z"));
+        expect(DateProcessing.processRelativeDate("+1y")).toBe("2025-02-28");
+        expect(DateProcessing.processRelativeDate("+4y")).toBe("2028-02-29");
+    });
+
+    it.each(["", "1", "d", "1x", "+1 day", "1.5d", "tomorrow"])(
+        "rejects %p",
+        (text) => {
+            expect(DateProcessing.processRelativeDate(text)).toBeNull();
+            expect(DateProcessing.isRelativeDate(text)).toBe(false);
+        },
+    );
+
+    it.each([
+        ["+2W", "w"],
+        ["3b", "b"],
+        ["-1Y", "y"],
+        ["0d", "d"],
+        ["+6m", "m"],
+    ])("reads the unit of %s as %s", (relative, unit) => {
+        expect(DateProcessing.getRelativeDateUnit(relative)).toBe(unit);
+    });
+});
+
+describe("DateProcessing.isRelativeDateInPast", () => {
+    it.each([
+        ["-1d", false, true],
+        ["0d", false, false],
+        ["+1d", false, false],
+        ["-1w", false, true],
+        ["-1m", false, true],
+        ["-1y", false, true],
+        ["-1b", false, true],
+        ["0b", false, false],
+        ["+1b", false, false],
+        ["-1d", true, true],
+        ["0d", true, false],
+        ["+1d", true, false],
+    ])("%s with skipWeekends=%s is in the past: %s", (relative, skip, past) => {
+        expect(DateProcessing.isRelativeDateInPast(relative, skip)).toBe(past);
+    });
+
+    it("matches the resolved date", () => {
+        for (const relative of ["-2b", "0b", "+2b", "-1d", "+1d"]) {
+            for (const skip of [false, true]) {
+                const result = DateProcessing.validateAndFormatDate(
+                    relative,
+                    skip,
+                    false,
+                );
+                expect(result?.isInPast).toBe(
+                    (result?.formattedDate ?? "") < "2025-01-31",
+                );
+            }
+        }
+    });
+});
+
+describe("DateProcessing.parseNaturalLanguageDate", () => {
+    const now = () => window.moment(NOW);
+
+    it.each([
+        ["today", "2025-01-31"],
+        ["Tomorrow", "2025-02-01"],
+        ["yesterday", "2025-01-30"],
+        ["day after tomorrow", "2025-02-02"],
+        // Weekdays: the next one after today, from today on, or in next week
+        ["friday", "2025-02-07"],
+        ["this friday", "2025-01-31"],
+        ["next friday", "2025-02-07"],
+        ["monday", "2025-02-03"],
+        ["mon", "2025-02-03"],
+        ["this monday", "2025-02-03"],
+        ["next monday", "2025-02-03"],
+        ["sunday", "2025-02-02"],
+        // Periods
+        ["next week", "2025-02-03"],
+        ["next month", "2025-02-01"],
+        ["next year", "2026-01-01"],
+        ["in 3 days", "2025-02-03"],
+        ["in 2 weeks", "2025-02-14"],
+        ["in a month", "2025-02-28"],
+        ["in one year", "2026-01-31"],
+        ["end of week", "2025-02-02"],
+        ["end of the month", "2025-01-31"],
+        ["end of year", "2025-12-31"],
+        ["2025-03-01", "2025-03-01"],
+    ])("resolves %p to %s", (text, expected) => {
+        expect(DateProcessing.parseNaturalLanguageDate(text, now())).toBe(
+            expected,
+        );
+    });
+
+    it.each([
+        ["tomorrow 9am", "2025-02-01T09:00"],
+        ["tomorrow at 14:30", "2025-02-01T14:30"],
+        ["friday 5:45pm", "2025-02-07T17:45"],
+        ["next monday at 8", "2025-02-03T08:00"],
+        ["noon", "2025-01-31T12:00"],
+        ["tomorrow at midnight", "2025-02-01T00:00"],
+        ["12am", "2025-01-31T00:00"],
+        ["12pm", "2025-01-31T12:00"],
+        ["2025-03-01 9am", "2025-03-01T09:00"],
+    ])("resolves %p with its time to %s", (text, expected) => {
+        expect(DateProcessing.parseNaturalLanguageDate(text, now())).toBe(
+            expected,
+        );
+    });
+
+    it.each([
+        "",
+        "someday",
+        "tomorrow 9",
+        "13pm",
+        "0am",
+        "tomorrow at 25:00",
+        "today at 10:60",
+        "next decade",
+        "in two weeks",
+        "2025-02-30",
+    ])("rejects %p", (text) => {
+        expect(DateProcessing.parseNaturalLanguageDate(text, now())).toBeNull();
+    });
+
+    it("does not change the moment passed in", () => {
+        const reference = now();
+        DateProcessing.parseNaturalLanguageDate("next month", reference);
+        expect(reference.toISOString()).toBe("2025-01-31T10:00:00.000Z");
+    });
+});
+
+describe("DateProcessing.validateAndFormatDate", () => {
+    it.each([
+        ["+1b", false, "2025-02-03", false],
+        ["+1d", true, "2025-02-03", false],
+        ["-1d", false, "2025-01-30", true],
+        ["2025-01-01", false, "2025-01-01", true],
+        ["2025-02-01T09:30", false, "2025-02-01T09:30", false],
+        ["next friday", false, "2025-02-07", false],
+        ["yesterday 9am", false, "2025-01-30T09:00", true],
+    ])(
+        "formats %p (skipWeekends=%s) as %s, in the past: %s",
+        (text, skip, formattedDate, isInPast) => {
+            expect(
+                DateProcessing.validateAndFormatDate(text, skip, false),
+            ).toEqual({ formattedDate, isInPast });
+        },
+    );
+
+    it("rejects text that is no date", () => {
+        expect(
+            DateProcessing.validateAndFormatDate("someday", false, false),
+        ).toBeNull();
+    });
+});
+
+describe("DateProcessing time zones", () => {
+    beforeEach(() => {
+        DateProcessing.initialize({
+            ...DEFAULT_SETTINGS,
+            timezone: "Europe/Berlin",
+        });
+    });
+
+    describe("parseZonedDateTime", () => {
+        it.each([
+            ["2025-01-31T09:00Z", "2025-01-31T09:00+00:00"],
+            ["2025-01-31T09:00+0530", "2025-01-31T09:00+05:30"],
+            ["2025-01-31T09:00-03:00", "2025-01-31T09:00-03:00"],
+            ["2025-01-31T09:00 UTC", "2025-01-31T09:00+00:00"],
+            ["2025-01-31T09:00 Europe/Berlin", "2025-01-31T09:00+01:00"],
+            ["2025-07-01T09:00 Europe/Berlin", "2025-07-01T09:00+02:00"],
+            ["2025-07-01T09:00 America/New_York", "2025-07-01T09:00-04:00"],
+            ["2025-07-01T09:00 Asia/Kolkata", "2025-07-01T09:00+05:30"],
+        ])("reads %p as %s", (text, expected) => {
+            expect(DateProcessing.parseZonedDateTime(text)).toBe(expected);
+        });
+
+        it.each([
+            // Last minute before and first minute after the change
+            ["2025-03-30T01:59 Europe/Berlin", "2025-03-30T01:59+01:00"],
+            ["2025-03-30T03:00 Europe/Berlin", "2025-03-30T03:00+02:00"],
+            // Times skipped by the change move forward by the gap
+            ["2025-03-30T02:00 Europe/Berlin", "2025-03-30T03:00+02:00"],
+            ["2025-03-30T02:30 Europe/Berlin", "2025-03-30T03:30+02:00"],
+            ["2025-03-09T02:30 America/New_York", "2025-03-09T03:30-04:00"],
+        ])("moves %p, around the spring change, to %s", (text, expected) => {
+            expect(DateProcessing.parseZonedDateTime(text)).toBe(expected);
+        });
+
+        it.each([
+            // Times that occur twice take the earlier instant
+            ["2025-10-26T02:00 Europe/Berlin", "2025-10-26T02:00+02:00"],
+            ["2025-10-26T02:30 Europe/Berlin", "2025-10-26T02:30+02:00"],
+            ["2025-10-26T03:00 Europe/Berlin", "2025-10-26T03:00+01:00"],
+            ["2025-10-26T01:59 Europe/Berlin", "2025-10-26T01:59+02:00"],
+            ["2025-11-02T01:30 America/New_York", "2025-11-02T01:30-04:00"],
+        ])("reads %p, around the autumn change, as %s", (text, expected) => {
+            expect(DateProcessing.parseZonedDateTime(text)).toBe(expected);
+        });
+
+        it.each([
+            "2025-01-31T09:00",
+            "2025-01-31 09:00 Europe/Berlin",
+            "2025-02-30T09:00 Europe/Berlin",
+            "2025-01-31T25:00Z",
+            "2025-01-31T09:00 Mars/Olympus_Mons",
+        ])("rejects %p", (text) => {
+            expect(DateProcessing.parseZonedDateTime(text)).toBeNull();
+        });
+    });
+
+    describe("toTodoistDue", () => {
+        it.each([
+            ["2025-03-30T03:30+02:00", { dueDatetime: "2025-03-30T01:30:00Z" }],
+            ["2025-10-26T02:30+01:00", { dueDatetime: "2025-10-26T01:30:00Z" }],
+            ["2025-01-31T09:00Z", { dueDatetime: "2025-01-31T09:00:00Z" }],
+            ["2025-01-31T09:00", { dueString: "2025-01-31T09:00" }],
+            ["2025-01-31", { dueString: "2025-01-31" }],
+            [null, { dueString: "no date" }],
+        ])("sends %p as %p", (dueDate, expected) => {
+            expect(DateProcessing.toTodoistDue(dueDate)).toEqual(expected);
+        });
+    });
+
+    describe("formatTodoistDueDate", () => {
+        const fixed = (datetime: string) => ({
+            date: datetime.slice(0, 10),
+            datetime,
+            timezone: "Europe/Berlin",
+        });
+
+        it.each([
+            ["2025-01-31T08:00:00Z", "2025-01-31T09:00"],
+            ["2025-07-01T07:00:00Z", "2025-07-01T09:00"],
+            // Either side of the spring change
+            ["2025-03-30T00:59:00Z", "2025-03-30T01:59"],
+            ["2025-03-30T01:00:00Z", "2025-03-30T03:00"],
+            // Both instants of the repeated hour show the same wall-clock time
+            ["2025-10-26T00:30:00Z", "2025-10-26T02:30"],
+            ["2025-10-26T01:30:00Z", "2025-10-26T02:30"],
+            ["2025-10-26T02:00:00Z", "2025-10-26T03:00"],
+        ])("shows %s in the vault time zone as %s", (datetime, expected) => {
+            expect(DateProcessing.formatTodoistDueDate(fixed(datetime))).toBe(
+                expected,
+            );
+        });
+
+        it("reads a fixed-zone datetime without an offset as UTC", () => {
+            expect(
+                DateProcessing.formatTodoistDueDate({
+                    date: "2025-07-01",
+                    datetime: "2025-07-01T07:00:00",
+                    timezone: "America/New_York",
+                }),
+            ).toBe("2025-07-01T09:00");
+        });
+
+        it("keeps floating times and dates as they are", () => {
+            expect(
+                DateProcessing.formatTodoistDueDate({
+                    date: "2025-03-30T02:30:00",
+                    datetime: "2025-03-30T02:30:00",
+                    timezone: null,
+                }),
+            ).toBe("2025-03-30T02:30");
+            expect(
+                DateProcessing.formatTodoistDueDate({ date: "2025-03-30" }),
+            ).toBe("2025-03-30");
+            expect(DateProcessing.formatTodoistDueDate(null)).toBeNull();
+        });
+
+        it("falls back to the UTC test system time zone without a vault time zone", () => {
+            DateProcessing.initialize({ ...DEFAULT_SETTINGS, timezone: "" });
+            expect(
+                DateProcessing.formatTodoistDueDate(
+                    fixed("2025-03-30T01:30:00Z"),
+                ),
+            ).toBe("2025-03-30T01:30");
+
+            DateProcessing.initialize({
+                ...DEFAULT_SETTINGS,
+                timezone: "Mars/Olympus_Mons",
+            });
+            expect(
+                DateProcessing.formatTodoistDueDate(
+                    fixed("2025-10-26T00:30:00Z"),
+                ),
+            ).toBe("2025-10-26T00:30");
+        });
+    });
+
+    it("round-trips every hour around both changes in the vault time zone", () => {
+        for (const day of ["2025-03-30", "2025-10-26"]) {
+            for (let hour = 0; hour < 24; hour++) {
+                const wallClock = `${day}T${String(hour).padStart(2, "0")}:15`;
+                const zoned = DateProcessing.parseZonedDateTime(
+                    `${wallClock} Europe/Berlin`,
+                );
+                const due = DateProcessing.toTodoistDue(zoned);
+                expect(due).toHaveProperty("dueDatetime");
+
+                const shown = DateProcessing.formatTodoistDueDate({
+                    date: day,
+                    datetime: (due as { dueDatetime: string }).dueDatetime,
+                    timezone: "Europe/Berlin",
+                });
+                // Only the hour skipped in spring comes back an hour later
+                expect(shown).toBe(
+                    wallClock === "2025-03-30T02:15"
+                        ? "2025-03-30T03:15"
+                        : wallClock,
+                );
+                expect(DateProcessing.normalizeDueDate(zoned)).toBe(shown);
+            }
+        }
+    });
+});
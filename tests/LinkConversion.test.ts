@@ -0,0 +1,135 @@
+import { App, TFile } from "obsidian";
+import { LinkConversion } from "../src/LinkConversion";
+import {
+    DEFAULT_SETTINGS,
+    TodoistContextBridgeSettings,
+} from "../src/Settings";
+import { TextParsing } from "../src/TextParsing";
+import { DateProcessing } from "../src/DateProcessing";
+
+function createFile(path: string): TFile {
+    const name = path.split("/").pop() ?? path;
+    return Object.assign(new TFile(), {
+        path,
+        name,
+        basename: name.replace(/\.[^.]+$/, ""),
+        extension: name.split(".").pop(),
+    });
+}
+
+const files = ["Projects/Plan.md", "Archive/Plan.md", "Assets/chart.png"].map(
+    createFile,
+);
+
+/**
+ * Resolves links like Obsidian does: a note next to the linking note wins over a
+ * note with the same name elsewhere in the vault
+ */
+const app = {
+    vault: {
+        getName: () => "Vault",
+        getAbstractFileByPath: (path: string) =>
+            files.find((file) => file.path === path) ?? null,
+    },
+    metadataCache: {
+        getFirstLinkpathDest: (linkpath: string, sourcePath: string) => {
+            const folder = sourcePath.split("/").slice(0, -1).join("/");
+            const matches = files.filter(
+                (file) =>
+                    file.path === linkpath ||
+                    file.path === `${linkpath}.md` ||
+                    file.name === linkpath ||
+                    file.basename === linkpath,
+            );
+            return (
+                matches.find((file) => file.path.startsWith(`${folder}/`)) ??
+                matches[0] ??
+                null
+            );
+        },
+        fileToLinktext: (file: TFile) => file.basename,
+    },
+} as unknown as App;
+
+function initialize(settings: Partial<TodoistContextBridgeSettings> = {}) {
+    const merged = { ...DEFAULT_SETTINGS, ...settings };
+    LinkConversion.initialize(app, merged);
+    DateProcessing.initialize(merged);
+    return merged;
+}
+
+describe("LinkConversion.toTodoist", () => {
+    beforeEach(() => initialize());
+
+    it.each([
+        ["Projects/Garden.md", "Projects%2FPlan.md"],
+        ["Archive/Notes.md", "Archive%2FPlan.md"],
+        ["", "Projects%2FPlan.md"],
+    ])("resolves [[Plan]] in %p to %s", (sourcePath, file) => {
+        expect(LinkConversion.toTodoist("[[Plan]]", sourcePath)).toBe(
+            `[Plan](obsidian://open?vault=Vault&file=${file})`,
+        );
+    });
+
+    it.each([
+        [
+            "[[Plan#Budget|the budget]]",
+            "[the budget](obsidian://open?vault=Vault&file=Archive%2FPlan.md%23Budget)",
+        ],
+        [
+            "[plan](./Plan.md)",
+            "[plan](obsidian://open?vault=Vault&file=Archive%2FPlan.md)",
+        ],
+        [
+            "![[chart.png|300]]",
+            "[chart.png](obsidian://open?vault=Vault&file=Assets%2Fchart.png) (embedded)",
+        ],
+        ["[[Missing note]]", "Missing note"],
+        ["[site](https://example.com)", "[site](https://example.com)"],
+    ])("converts %p", (link, expected) => {
+        expect(LinkConversion.toTodoist(link, "Archive/Notes.md")).toBe(
+            expected,
+        );
+    });
+
+    it("uses Advanced URI links and plain text when configured", () => {
+        initialize({ taskLinkConversion: "advanced-uri" });
+        expect(
+            LinkConversion.toTodoist("[[Plan#^abc123]]", "Archive/Notes.md"),
+        ).toBe(
+            "[Plan > ^abc123](obsidian://adv-uri?vault=Vault&filepath=Archive%2FPlan.md&block=abc123)",
+        );
+
+        initialize({ taskLinkConversion: "text", taskEmbedHandling: "strip" });
+        expect(LinkConversion.toTodoist("[[Plan]]", "Archive/Notes.md")).toBe(
+            "Plan",
+        );
+        expect(LinkConversion.toTodoist("![[chart.png]]")).toBe("");
+    });
+
+    it("converts the links back to wikilinks", () => {
+        const converted = LinkConversion.toTodoist(
+            "[[Plan#Budget|the budget]]",
+            "Archive/Notes.md",
+        );
+        expect(LinkConversion.toObsidian(`Review ${converted}`)).toBe(
+            "Review [[Plan#Budget|the budget]]",
+        );
+    });
+});
+
+describe("TextParsing.extractTaskDetails", () => {
+    it("resolves links in the task text from the note containing it", () => {
+        const textParsing = new TextParsing(initialize());
+
+        expect(
+            textParsing.extractTaskDetails(
+                "- [ ] Review [[Plan]] ^abc123",
+                false,
+                "Archive/Notes.md",
+            ).cleanText,
+        ).toBe(
+            "Review [Plan](obsidian://open?vault=Vault&file=Archive%2FPlan.md)",
+        );
+    });
+});
@@ -0,0 +1,51 @@
+import { RecurrenceProcessing } from "../src/RecurrenceProcessing";
+
+describe("RecurrenceProcessing", () => {
+    it.each([
+        ["every day", "every day"],
+        ["every 3 days", "every 3 days"],
+        ["every weekday", "every workday"],
+        ["every week", "every week"],
+        ["every 2 weeks", "every 2 weeks"],
+        ["every week on Monday, Friday", "every monday, friday"],
+        ["every 2 weeks on Monday", "every other monday"],
+        ["every month", "every month"],
+        ["every 6 months", "every 6 months"],
+        ["every month on the 15th", "every 15th"],
+        ["every month on the last day", "every last day"],
+        ["every month on the 2nd Tuesday", "every 2nd tuesday"],
+        ["every month on the last Friday", "every last friday"],
+        ["every year", "every year"],
+        ["every 2 years", "every 2 years"],
+        ["every January on the 15th", "every january 15"],
+        ["every week when done", "every! week"],
+    ])("converts %s to %s", (rule, dueString) => {
+        expect(RecurrenceProcessing.toTodoistRecurrence(rule)).toBe(dueString);
+    });
+
+    it.each([
+        ["every day", "every day"],
+        ["every workday", "every weekday"],
+        ["every other monday", "every 2 weeks on Monday"],
+        ["every 15th", "every month on the 15th"],
+        ["every last friday", "every month on the last Friday"],
+        ["every january 15", "every January on the 15th"],
+    ])("converts %s back to %s", (dueString, rule) => {
+        expect(RecurrenceProcessing.toTasksRecurrence(dueString)).toBe(rule);
+    });
+
+    it.each(["every 2 weeks on Monday, Friday", "every 2 months on the 15th"])(
+        "leaves out %s, which Todoist cannot express",
+        (rule) => {
+            expect(RecurrenceProcessing.toTodoistRecurrence(rule)).toBeNull();
+        },
+    );
+
+    it("leaves out Todoist rules with an end date", () => {
+        expect(
+            RecurrenceProcessing.toTasksRecurrence(
+                "every day until 2025-12-31",
+            ),
+        ).toBeNull();
+    });
+});
@@ -0,0 +1,149 @@
+import { App, Editor, TFile } from "obsidian";
+import { Task } from "@doist/todoist-api-typescript";
+import { SubtaskSync } from "../src/SubtaskSync";
+import { DEFAULT_SETTINGS } from "../src/Settings";
+import { DateProcessing } from "../src/DateProcessing";
+import { TodoistTaskSync } from "../src/TodoistTaskSync";
+import { URILinkProcessing } from "../src/URILinkProcessing";
+import { TodoistV2IDs } from "../src/TodoistV2IDs";
+import TodoistContextBridgePlugin from "../src/main";
+import { Notice } from "./__mocks__/obsidian";
+
+function createTask(fields: Partial<Task> = {}): Task {
+    return {
+        id: "123",
+        content: "Water plants",
+        description: "",
+        projectId: "1",
+        sectionId: null,
+        parentId: null,
+        labels: [],
+        priority: 1,
+        checked: false,
+        isDeleted: false,
+        childOrder: 1,
+        due: null,
+        duration: null,
+        updatedAt: null,
+        ...fields,
+    } as unknown as Task;
+}
+
+/**
+ * Keeps the note as lines and applies edits like the Obsidian editor
+ */
+class FakeEditor {
+    constructor(public lines: string[]) {}
+
+    getValue = () => this.lines.join("\n");
+
+    replaceRange = jest.fn(
+        (text: string, from: { line: number; ch: number }) => {
+            const line = this.lines[from.line];
+            const updated = line.slice(0, from.ch) + text + line.slice(from.ch);
+            this.lines.splice(from.line, 1, ...updated.split("\n"));
+        },
+    );
+}
+
+function createSubtaskSync(editor: FakeEditor, subtasks: Task[]) {
+    const settings = { ...DEFAULT_SETTINGS };
+    DateProcessing.initialize(settings);
+    let blockIds = 0;
+
+    const todoistApi = {
+        getTasks: jest.fn(async ({ parentId }: { parentId: string }) => ({
+            results: subtasks.filter((task) => task.parentId === parentId),
+            nextCursor: null,
+        })),
+        updateTask: jest.fn(async () => createTask()),
+    };
+    const todoistTaskSync = {
+        detectIndentWithTabs: () => false,
+        formatTaskFields: () => "",
+        formatTodoistLink: () => "",
+        recordLink: jest.fn(async () => undefined),
+    };
+    const uriLinkProcessing = {
+        generateUniqueBlockId: () => `sub${++blockIds}`,
+        generateAdvancedUriToBlockInFile: async (blockId: string) =>
+            `obsidian://adv-uri?block=${blockId}`,
+    };
+    // Someone edits the note while the Todoist IDs are looked up
+    const todoistV2IDs = {
+        getV2Id: jest.fn(async (id: string) => {
+            editor.lines.unshift("New line");
+            return `v2-${id}`;
+        }),
+    };
+    const app = {
+        workspace: { getActiveFile: () => new TFile() },
+    };
+
+    return {
+        todoistApi,
+        todoistTaskSync,
+        subtaskSync: new SubtaskSync(
+            app as unknown as App,
+            settings,
+            { settings, todoistApi } as unknown as TodoistContextBridgePlugin,
+            todoistTaskSync as unknown as TodoistTaskSync,
+            uriLinkProcessing as unknown as URILinkProcessing,
+            todoistV2IDs as unknown as TodoistV2IDs,
+        ),
+    };
+}
+
+describe("SubtaskSync.importSubtasks", () => {
+    beforeEach(() => {
+        Notice.messages = [];
+    });
+
+    it("adds the subtasks below the task line where it is after the Todoist lookups", async () => {
+        const editor = new FakeEditor([
+            "- [ ] Garden ^parent",
+            "    - [Todoist](https://app.todoist.com/app/task/v2-1)",
+            "- [ ] Next task",
+        ]);
+        const { subtaskSync, todoistTaskSync } = createSubtaskSync(editor, [
+            createTask({ id: "2", parentId: "1", content: "Dig" }),
+            createTask({ id: "3", parentId: "2", content: "Plant" }),
+        ]);
+
+        await subtaskSync.importSubtasks(
+            editor as unknown as Editor,
+            "parent",
+            createTask({ id: "1", content: "Garden" }),
+        );
+
+        expect(editor.lines).toEqual([
+            "New line",
+            "New line",
+            "- [ ] Garden ^parent",
+            "    - [Todoist](https://app.todoist.com/app/task/v2-1)",
+            "    - [ ] Dig ^sub1",
+            "        - [ ] Plant ^sub2",
+            "- [ ] Next task",
+        ]);
+        expect(todoistTaskSync.recordLink).toHaveBeenCalledTimes(2);
+    });
+
+    it("adds nothing when the task line is gone after the Todoist lookups", async () => {
+        const editor = new FakeEditor(["- [ ] Garden ^parent"]);
+        const { subtaskSync, todoistApi } = createSubtaskSync(editor, [
+            createTask({ id: "2", parentId: "1", content: "Dig" }),
+        ]);
+        jest.spyOn(console, "error").mockImplementation(() => undefined);
+        editor.getValue = () => "- [ ] Garden";
+
+        await subtaskSync.importSubtasks(
+            editor as unknown as Editor,
+            "parent",
+            createTask({ id: "1", content: "Garden" }),
+        );
+
+        expect(editor.replaceRange).not.toHaveBeenCalled();
+        expect(todoistApi.updateTask).not.toHaveBeenCalled();
+        expect(Notice.messages).toHaveLength(1);
+    });
+});
@@ -0,0 +1,209 @@
+import { App } from "obsidian";
+import {
+    TaskConflictResolver,
+    TaskSnapshot,
+    createSyncedSnapshot,
+    findConflicts,
+    findUnsyncedDifferences,
+    mergeTaskSnapshots,
+} from "../src/TaskConflictResolver";
+import { DEFAULT_SETTINGS } from "../src/Settings";
+
+const base: TaskSnapshot = {
+    content: "Water plants",
+    dueDate: "2025-01-06",
+    priority: 4,
+    checked: false,
+    status: "",
+};
+
+function snapshot(fields: Partial<TaskSnapshot> = {}): TaskSnapshot {
+    return { ...base, ...fields };
+}
+
+describe("mergeTaskSnapshots", () => {
+    const preferTodoist = () => "todoist" as const;
+
+    it("keeps fields both sides agree on", () => {
+        expect(
+            mergeTaskSnapshots(base, base, base, "obsidian", preferTodoist),
+        ).toEqual(base);
+    });
+
+    it("takes each field from the side that changed it", () => {
+        const obsidian = snapshot({ content: "Water the plants" });
+        const todoist = snapshot({ dueDate: "2025-01-07", priority: 1 });
+
+        expect(
+            mergeTaskSnapshots(
+                base,
+                obsidian,
+                todoist,
+                "obsidian",
+                preferTodoist,
+            ),
+        ).toEqual({
+            ...base,
+            content: "Water the plants",
+            dueDate: "2025-01-07",
+            priority: 1,
+        });
+    });
+
+    it.each(["obsidian", "todoist"] as const)(
+        "gives fields changed on both sides to the %s side when it wins",
+        (winner) => {
+            const obsidian = snapshot({ content: "From Obsidian" });
+            const todoist = snapshot({ content: "From Todoist" });
+
+            expect(
+                mergeTaskSnapshots(
+                    base,
+                    obsidian,
+                    todoist,
+                    winner,
+                    preferTodoist,
+                ).content,
+            ).toBe(winner === "obsidian" ? "From Obsidian" : "From Todoist");
+        },
+    );
+
+    it("uses the fallback for fields without a synced value", () => {
+        const obsidian = snapshot({ checked: true, status: "/" });
+        const todoist = snapshot({ priority: 2 });
+
+        expect(
+            mergeTaskSnapshots({}, obsidian, todoist, "todoist", (field) =>
+                field === "checked" || field === "status"
+                    ? "obsidian"
+                    : "todoist",
+            ),
+        ).toEqual({ ...base, priority: 2, checked: true, status: "/" });
+    });
+});
+
+describe("findConflicts", () => {
+    it("lists only fields changed to different values on both sides", () => {
+        const obsidian = snapshot({
+            content: "From Obsidian",
+            dueDate: "2025-01-08",
+            priority: 2,
+        });
+        const todoist = snapshot({
+            content: "From Todoist",
+            dueDate: "2025-01-08",
+            checked: true,
+        });
+
+        expect(findConflicts(base, obsidian, todoist)).toEqual([
+            {
+                field: "content",
+                base: "Water plants",
+                obsidian: "From Obsidian",
+                todoist: "From Todoist",
+            },
+        ]);
+    });
+
+    it("finds no conflicts without a synced value", () => {
+        expect(
+            findConflicts(
+                {},
+                snapshot({ content: "A" }),
+                snapshot({ content: "B" }),
+            ),
+        ).toEqual([]);
+    });
+});
+
+describe("findUnsyncedDifferences", () => {
+    it("lists differing fields that were never synced", () => {
+        const obsidian = snapshot({ content: "A", priority: 1 });
+        const todoist = snapshot({ content: "B", priority: 2, checked: true });
+
+        expect(
+            findUnsyncedDifferences({ priority: 3 }, obsidian, todoist, [
+                "content",
+                "priority",
+                "dueDate",
+            ]),
+        ).toEqual([
+            { field: "content", base: undefined, obsidian: "A", todoist: "B" },
+        ]);
+        expect(findUnsyncedDifferences(base, obsidian, todoist)).toEqual([]);
+    });
+});
+
+describe("createSyncedSnapshot", () => {
+    it("records agreed fields and keeps the last agreed value of the others", () => {
+        const obsidian = snapshot({ content: "From Obsidian", priority: 1 });
+        const todoist = snapshot({ content: "From Todoist", priority: 1 });
+
+        expect(createSyncedSnapshot(base, obsidian, todoist)).toEqual({
+            ...base,
+            priority: 1,
+        });
+        expect(
+            createSyncedSnapshot(undefined, obsidian, todoist),
+        ).not.toHaveProperty("content");
+    });
+});
+
+describe("TaskConflictResolver.resolve", () => {
+    const conflicts = findConflicts(
+        base,
+        snapshot({ content: "From Obsidian" }),
+        snapshot({ content: "From Todoist" }),
+    );
+
+    function createResolver(
+        policy: (typeof DEFAULT_SETTINGS)["conflictResolutionPolicy"],
+    ) {
+        return new TaskConflictResolver({} as App, {
+            ...DEFAULT_SETTINGS,
+            conflictResolutionPolicy: policy,
+        });
+    }
+
+    it.each([
+        ["obsidian", 0, null, "obsidian"],
+        ["todoist", Date.parse("2025-01-02T00:00:00Z"), null, "todoist"],
+        [
+            "newest",
+            Date.parse("2025-01-02T00:00:00Z"),
+            "2025-01-01T00:00:00Z",
+            "obsidian",
+        ],
+        [
+            "newest",
+            Date.parse("2025-01-01T00:00:00Z"),
+            "2025-01-02T00:00:00Z",
+            "todoist",
+        ],
+    ] as const)(
+        "with the %s policy picks the winner",
+        async (policy, obsidianModified, todoistModified, expected) => {
+            expect(
+                await createResolver(policy).resolve(
+                    conflicts,
+                    "Water plants",
+                    obsidianModified,
+                    todoistModified,
+                    false,
+                ),
+            ).toBe(expected);
+        },
+    );
+
+    it("skips the task when asking is not possible", async () => {
+        expect(
+            await createResolver("ask").resolve(
+                conflicts,
+                "Water plants",
+                0,
+                null,
+                false,
+            ),
+        ).toBeNull();
+    });
+});
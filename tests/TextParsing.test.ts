@@ -0,0 +1,94 @@
+import {
+    DEFAULT_SETTINGS,
+    TodoistContextBridgeSettings,
+} from "../src/Settings";
+import { TextParsing } from "../src/TextParsing";
+import { DateProcessing } from "../src/DateProcessing";
+import { LinkConversion } from "../src/LinkConversion";
+import { App } from "obsidian";
+
+function createTextParsing(
+    settings: Partial<TodoistContextBridgeSettings> = {},
+) {
+    const merged = { ...DEFAULT_SETTINGS, ...settings };
+    DateProcessing.initialize(merged);
+    LinkConversion.initialize({} as App, merged);
+    return new TextParsing(merged);
+}
+
+describe("TextParsing assignees", () => {
+    it("keeps the assignee mention when the title is pulled from Todoist", () => {
+        const textParsing = createTextParsing({ parseAssigneeMentions: true });
+        const line = "- [ ] Water plants @anna.lee #garden ^abc123";
+
+        expect(textParsing.extractTaskDetails(line, false)).toMatchObject({
+            cleanText: "Water plants",
+            assignee: "anna.lee",
+        });
+
+        const pulled = textParsing.applyTaskFields(line, {
+            content: "Water the plants",
+        });
+        expect(pulled).toBe("- [ ] Water the plants #garden @anna.lee ^abc123");
+        expect(textParsing.extractTaskDetails(pulled, false)).toMatchObject({
+            cleanText: "Water the plants",
+            assignee: "anna.lee",
+        });
+    });
+
+    it("keeps other mentions in the title", () => {
+        const textParsing = createTextParsing({ parseAssigneeMentions: true });
+
+        expect(
+            textParsing.replaceTaskContent(
+                "- [ ] Email @bob about @alice",
+                "Email about @alice",
+            ),
+        ).toBe("- [ ] Email about @alice @bob");
+    });
+
+    it("leaves mentions to the title when they are not parsed", () => {
+        const textParsing = createTextParsing();
+
+        expect(
+            textParsing.replaceTaskContent(
+                "- [ ] Water plants @anna",
+                "Water plants @anna",
+            ),
+        ).toBe("- [ ] Water plants @anna");
+    });
+
+    it.each(["who?", "owner (team)", "a+b", "[x]"])(
+        "reads the Dataview field with the key %p",
+        (key) => {
+            const textParsing = createTextParsing({ dataviewAssigneeKey: key });
+
+            expect(
+                textParsing.extractTaskDetails(
+                    `- [ ] Water plants [${key}:: Anna]`,
+                    false,
+                ),
+            ).toMatchObject({ cleanText: "Water plants", assignee: "Anna" });
+            expect(
+                textParsing.extractTaskDetails("- [ ] Water plants", false)
+                    .assignee,
+            ).toBeNull();
+        },
+    );
+});
+
+describe("TextParsing sections", () => {
+    it.each(["section", "list (todoist)", "where?"])(
+        "reads the Dataview field with the key %p",
+        (key) => {
+            const textParsing = createTextParsing({ dataviewSectionKey: key });
+
+            expect(
+                textParsing.extractTaskDetails(
+                    `- [ ] Water plants [${key}:: Weekly]`,
+                    false,
+                ),
+            ).toMatchObject({ cleanText: "Water plants", section: "Weekly" });
+        },
+    );
+});
@@ -0,0 +1,61 @@
+import { TodoistLinkIndex } from "../src/TodoistLinkIndex";
+
+function createIndex() {
+    const persist = jest.fn(async () => undefined);
+    return { persist, index: new TodoistLinkIndex([], persist) };
+}
+
+const entry = {
+    taskId: "123",
+    filePath: "Projects/Garden.md",
+    noteUid: "garden-uid",
+    blockId: "abc123",
+    projectId: "1",
+};
+
+describe("TodoistLinkIndex", () => {
+    it("finds a task by block, and by note UID after the note moved", async () => {
+        const { index } = createIndex();
+        await index.upsert(entry);
+
+        expect(index.findByBlock("Projects/Garden.md", "abc123")?.taskId).toBe(
+            "123",
+        );
+        expect(index.findByBlock("Archive/Garden.md", "abc123")).toBeNull();
+        expect(
+            index.findByBlock("Archive/Garden.md", "abc123", "garden-uid")
+                ?.taskId,
+        ).toBe("123");
+        expect(
+            index.findByBlock("Archive/Garden.md", "other", "garden-uid"),
+        ).toBeNull();
+    });
+
+    it("keeps the stored snapshot when an entry is replaced without one", async () => {
+        const { index } = createIndex();
+        await index.upsert({ ...entry, snapshot: { content: "Water plants" } });
+        await index.upsert({ ...entry, projectId: "2" });
+
+        expect(index.findByTaskId("123")).toMatchObject({
+            projectId: "2",
+            snapshot: { content: "Water plants" },
+        });
+    });
+
+    it("moves and drops entries with their folder", async () => {
+        const { index, persist } = createIndex();
+        await index.upsert(entry, false);
+
+        await index.handleRename("Projects", "Archive");
+        expect(index.findByBlock("Archive/Garden.md", "abc123")?.taskId).toBe(
+            "123",
+        );
+
+        await index.handleDelete("Archive");
+        expect(index.findByTaskId("123")).toBeNull();
+        expect(
+            index.findByBlock("Elsewhere.md", "abc123", "garden-uid"),
+        ).toBeNull();
+        expect(persist).toHaveBeenCalledTimes(2);
+    });
+});
@@ -0,0 +1,150 @@
+import { TodoistMarkdown } from "../src/TodoistMarkdown";
+
+function convert(description: string, baseIndentation = "\t"): string {
+    return TodoistMarkdown.toObsidianLines(
+        description.split("\n"),
+        baseIndentation,
+    ).join("\n");
+}
+
+describe("TodoistMarkdown.toObsidianLines", () => {
+    it("turns paragraphs into items and keeps their lines together", () => {
+        expect(
+            convert(
+                "\nFirst paragraph\nstill the first\n\n\nSecond paragraph\n",
+            ),
+        ).toBe(
+            [
+                "\t- First paragraph",
+                "\t  still the first",
+                "\t- Second paragraph",
+            ].join("\n"),
+        );
+    });
+
+    it("turns headings into bold items and nests the lists below them", () => {
+        expect(
+            convert("## Steps\n* Buy soil\n    + Peat-free\n1. Water\n---"),
+        ).toBe(
+            [
+                "\t- **Steps**",
+                "\t\t- Buy soil",
+                "\t\t\t- Peat-free",
+                "\t\t1. Water",
+            ].join("\n"),
+        );
+    });
+
+    it("nests lists by their own indentation unit", () => {
+        expect(convert("- a\n  - b\n    - c\n- d", "")).toBe(
+            ["- a", "\t- b", "\t\t- c", "- d"].join("\n"),
+        );
+    });
+
+    it("keeps checklists with their status", () => {
+        expect(convert("- [ ] Open\n* [x] Done\n+ [X] Also done", "")).toBe(
+            ["- [ ] Open", "- [x] Done", "- [x] Also done"].join("\n"),
+        );
+    });
+
+    it("keeps code blocks, including their blank lines, below the previous item", () => {
+        expect(
+            convert(
+                [
+                    "Run this:",
+                    "```ts",
+                    "const a = 1;",
+                    "",
+                    "    indented();",
+                    "```",
+                    "",
+                    "Done",
+                ].join("\n"),
+            ),
+        ).toBe(
+            [
+                "\t- Run this:",
+                "\t\t```ts",
+                "\t\tconst a = 1;",
+                "\t\t",
+                "\t\t    indented();",
+                "\t\t```",
+                "\t- Done",
+            ].join("\n"),
+        );
+    });
+
+    it("does not read list markers or headings inside code blocks", () => {
+        expect(convert("~~~\n# not a heading\n- not an item\n~~~", "")).toBe(
+            ["\t~~~", "\t# not a heading", "\t- not an item", "\t~~~"].join(
+                "\n",
+            ),
+        );
+    });
+
+    it("drops the trailing blank lines of a code block that is not closed", () => {
+        expect(convert("```\ncode\n\n\n", "")).toBe("\t```\n\tcode");
+    });
+
+    it("keeps tables below the previous item", () => {
+        expect(
+            convert(
+                [
+                    "Prices:",
+                    "| Item | Price |",
+                    "| :--- | ---: |",
+                    "| Soil | 5 |",
+                    "| Pots | 12 |",
+                    "After the table",
+                ].join("\n"),
+            ),
+        ).toBe(
+            [
+                "\t- Prices:",
+                "\t\t",
+                "\t\t| Item | Price |",
+                "\t\t| :--- | ---: |",
+                "\t\t| Soil | 5 |",
+                "\t\t| Pots | 12 |",
+                "\t- After the table",
+            ].join("\n"),
+        );
+    });
+
+    it("treats a row without a delimiter row as text", () => {
+        expect(convert("| not | a table |", "")).toBe("- | not | a table |");
+    });
+});
+
+describe("TodoistMarkdown.toObsidianInline", () => {
+    it.each([
+        ["**bold**, *italic* and ~~gone~~", "**bold**, *italic* and ~~gone~~"],
+        ["See https://example.com.", "See <https://example.com>."],
+        [
+            "Open todoist://task?id=123",
+            "Open [Todoist task](todoist://task?id=123)",
+        ],
+        [
+            "Open todoist://project?id=9",
+            "Open [Todoist project](todoist://project?id=9)",
+        ],
+        ["[docs](https://example.com/a_b)", "[docs](https://example.com/a_b)"],
+        ["<https://example.com>", "<https://example.com>"],
+        ["`https://example.com` in code", "`https://example.com` in code"],
+        [
+            "![chart](https://example.com/c.png)",
+            "![chart](https://example.com/c.png)",
+        ],
+    ])("converts %p", (text, expected) => {
+        expect(TodoistMarkdown.toObsidianInline(text)).toBe(expected);
+    });
+
+    it("can leave web URLs bare", () => {
+        expect(
+            TodoistMarkdown.toObsidianInline(
+                "https://example.com and todoist://task?id=1",
+                false,
+            ),
+        ).toBe("https://example.com and [Todoist task](todoist://task?id=1)");
+    });
+});
@@ -0,0 +1,253 @@
+import { Task, TodoistApi } from "@doist/todoist-api-typescript";
+import { TodoistSyncCache, TodoistSyncClient } from "../src/TodoistSyncClient";
+
+type Resource = { id: string; [key: string]: unknown };
+type ResourceType = "items" | "projects" | "labels" | "sections";
+
+/**
+ * Stand-in for the Todoist Sync endpoint. Every change gets a new sync token, and a
+ * request with an older token receives the resources changed after it.
+ */
+class FakeSyncServer {
+    requests: { syncToken: string; resourceTypes: string[] }[] = [];
+    private changes: { version: number; type: ResourceType; data: Resource }[] =
+        [];
+    private version = 0;
+
+    put(type: ResourceType, data: Resource) {
+        this.version++;
+        this.changes = this.changes.filter(
+            (change) => change.type !== type || change.data.id !== data.id,
+        );
+        this.changes.push({ version: this.version, type, data });
+    }
+
+    fetch = async (url: string, options: { body?: string }) => {
+        const body = JSON.parse(options.body ?? "{}");
+        this.requests.push({
+            syncToken: body.sync_token,
+            resourceTypes: body.resource_types,
+        });
+
+        const fullSync = body.sync_token === "*";
+        const since = fullSync ? 0 : parseInt(body.sync_token.slice(6));
+        const response: Record<string, unknown> = {
+            sync_token: `token-${this.version}`,
+            full_sync: fullSync,
+        };
+        for (const type of body.resource_types as ResourceType[]) {
+            response[type] = this.changes
+                .filter(
+                    (change) =>
+                        change.type === type &&
+                        change.version > since &&
+                        // A full sync leaves out deleted resources
+                        !(fullSync && change.data.is_deleted),
+                )
+                .map((change) => change.data);
+        }
+
+        const text = JSON.stringify(response);
+        return {
+            ok: true,
+            status: 200,
+            statusText: "",
+            headers: {},
+            text: async () => text,
+            json: async () => JSON.parse(text),
+        };
+    };
+}
+
+function createItem(id: string, fields: Record<string, unknown> = {}) {
+    return {
+        id,
+        content: `Task ${id}`,
+        project_id: "p1",
+        checked: false,
+        is_deleted: false,
+        ...fields,
+    };
+}
+
+class MemoryStorage {
+    saves = 0;
+
+    constructor(public saved: TodoistSyncCache | null = null) {}
+
+    load = async () => this.saved;
+
+    save = async (cache: TodoistSyncCache) => {
+        this.saves++;
+        this.saved = JSON.parse(JSON.stringify(cache));
+    };
+}
+
+function createClient(server: FakeSyncServer, stored?: TodoistSyncCache) {
+    const storage = new MemoryStorage(stored);
+    const client = new TodoistSyncClient(storage);
+    client.setApi(
+        new TodoistApi("test-token", {
+            customFetch: server.fetch as never,
+        }),
+    );
+    return { client, storage };
+}
+
+describe("TodoistSyncClient", () => {
+    let server: FakeSyncServer;
+
+    beforeEach(() => {
+        server = new FakeSyncServer();
+        server.put("items", createItem("1"));
+        server.put("items", createItem("2"));
+        server.put("projects", {
+            id: "p1",
+            name: "Inbox",
+            child_order: 0,
+            is_archived: false,
+        });
+        server.put("sections", {
+            id: "s1",
+            name: "Planning",
+            project_id: "p1",
+            section_order: 0,
+        });
+    });
+
+    it("pulls everything on the first sync and saves the cache", async () => {
+        const { client, storage } = createClient(server);
+        await client.load();
+
+        expect(await client.sync()).toBe(true);
+
+        expect(server.requests[0]).toEqual({
+            syncToken: "*",
+            resourceTypes: ["items", "projects", "labels", "sections"],
+        });
+        expect(client.getTasks().map((task) => task.id)).toEqual(["1", "2"]);
+        expect(client.getProjects().map((project) => project.name)).toEqual([
+            "Inbox",
+        ]);
+        expect(client.getSections("p1").map((section) => section.id)).toEqual([
+            "s1",
+        ]);
+        expect(storage.saves).toBe(1);
+        expect(storage.saved?.syncToken).toBe("token-4");
+    });
+
+    it("merges only the changes since the stored token", async () => {
+        const { client, storage } = createClient(server);
+        await client.load();
+        await client.sync();
+
+        server.put("items", createItem("1", { content: "Renamed" }));
+        server.put("items", createItem("2", { is_deleted: true }));
+        server.put("items", createItem("3", { checked: true }));
+        await client.sync();
+
+        expect(server.requests[1].syncToken).toBe("token-4");
+        expect(client.getTask("1")?.content).toBe("Renamed");
+        expect(client.getTask("2")).toBeNull();
+        // Completed tasks stay cached for completion sync, but are not active
+        expect(client.getTasks().map((task) => task.id)).toEqual(["1"]);
+        expect(client.getTasks(true).map((task) => task.id)).toEqual([
+            "1",
+            "3",
+        ]);
+        expect(storage.saves).toBe(2);
+    });
+
+    it("does not rewrite the cache when nothing changed", async () => {
+        const { client, storage } = createClient(server);
+        await client.load();
+        await client.sync();
+        await client.sync();
+        await client.sync();
+
+        expect(server.requests).toHaveLength(3);
+        expect(storage.saves).toBe(1);
+    });
+
+    it("continues from a cache saved by an earlier session", async () => {
+        const first = createClient(server);
+        await first.client.load();
+        await first.client.sync();
+
+        server.put("items", createItem("4"));
+        const second = createClient(server, first.storage.saved ?? undefined);
+        await second.client.load();
+        await second.client.sync();
+
+        expect(server.requests[1].syncToken).toBe("token-4");
+        expect(
+            second.client
+                .getTasks()
+                .map((task) => task.id)
+                .sort(),
+        ).toEqual(["1", "2", "4"]);
+    });
+
+    it("shares one request between concurrent callers", async () => {
+        const { client } = createClient(server);
+        await client.load();
+
+        await Promise.all([client.sync(), client.sync(), client.sync()]);
+
+        expect(server.requests).toHaveLength(1);
+    });
+
+    it("remembers tasks looked up elsewhere until they change", async () => {
+        const { client, storage } = createClient(server);
+        await client.load();
+        await client.sync();
+
+        await client.rememberTasks(
+            [{ id: "9", content: "Old task", checked: true } as Task],
+            ["404"],
+        );
+        await client.rememberTasks([], ["404"]);
+
+        expect(client.getTask("9")?.content).toBe("Old task");
+        expect(client.isMissing("404")).toBe(true);
+        expect(storage.saves).toBe(2);
+
+        // A task that reappears is no longer missing
+        server.put("items", createItem("404"));
+        await client.sync();
+        expect(client.isMissing("404")).toBe(false);
+    });
+
+    it("starts over with a full sync after a reset", async () => {
+        const { client } = createClient(server);
+        await client.load();
+        await client.sync();
+
+        await client.reset();
+        expect(client.getTasks()).toEqual([]);
+
+        await client.sync();
+        expect(server.requests[1].syncToken).toBe("*");
+        expect(client.getTasks()).toHaveLength(2);
+    });
+
+    it("reports a failed sync without touching the cache", async () => {
+        const { client, storage } = createClient(server);
+        await client.load();
+        await client.sync();
+
+        server.fetch = async () => {
+            throw new Error("offline");
+        };
+        client.setApi(
+            new TodoistApi("test-token", {
+                customFetch: server.fetch as never,
+            }),
+        );
+        jest.spyOn(console, "error").mockImplementation(() => undefined);
+
+        expect(await client.sync()).toBe(false);
+        expect(client.getTasks()).toHaveLength(2);
+        expect(storage.saves).toBe(1);
+    });
+});
@@ -0,0 +1,85 @@
+/**
+ * Minimal runtime stand-in for the Obsidian API, which only ships type declarations.
+ * Covers the classes the plugin extends or constructs at module level.
+ */
+
+export class Notice {
+    static messages: string[] = [];
+
+    constructor(public message: string) {
+        Notice.messages.push(message);
+    }
+
+    setMessage(message: string) {
+        this.message = message;
+        return this;
+    }
+
+    hide() {}
+}
+
+export class TAbstractFile {
+    path = "";
+    name = "";
+}
+
+export class TFile extends TAbstractFile {
+    basename = "";
+    extension = "md";
+    stat = { ctime: 0, mtime: 0, size: 0 };
+}
+
+export class TFolder extends TAbstractFile {
+    children: TAbstractFile[] = [];
+}
+
+export class Component {
+    load() {}
+    unload() {}
+    registerEvent() {}
+    registerInterval(id: number) {
+        return id;
+    }
+}
+
+export class Plugin extends Component {}
+
+export class Modal {
+    contentEl = {};
+
+    constructor(public app: unknown) {}
+
+    open() {}
+    close() {}
+}
+
+export class ItemView extends Component {
+    constructor(public leaf: unknown) {
+        super();
+    }
+}
+
+export class PluginSettingTab {
+    constructor(
+        public app: unknown,
+        public plugin: unknown,
+    ) {}
+}
+
+export class Setting {}
+
+export const Platform = { isMobile: false, isDesktop: true };
+
+export function debounce<T extends (...args: any[]) => unknown>(fn: T) {
+    return fn;
+}
+
+export function setIcon() {}
+
+export function normalizePath(path: string) {
+    return path.replace(/\\/g, "/").replace(/\/+/g, "/");
+}
+
+export async function requestUrl(): Promise<never> {
+    throw new Error("requestUrl is not available in tests");
+}
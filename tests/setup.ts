@@ -0,0 +1,5 @@
+import moment from "moment";
+
+// Obsidian exposes moment on the window; tests run in a fixed time zone
+process.env.TZ = "UTC";
+Object.assign(globalThis, { window: { moment } });